@@ -116,6 +116,8 @@ contract AutoStackDCAV2 is ReentrancyGuard, Ownable {
     mapping(address => uint256[]) public userStrategies;
     mapping(uint256 => SignalAccumulator) public signalAccumulators;
     mapping(address => bool) public authorizedExecutors;
+    // Paused strategies keep their funds and schedule but can't execute
+    mapping(uint256 => bool) public pausedStrategies;
 
     // Events
     event StrategyCreated(
@@ -150,6 +152,22 @@ contract AutoStackDCAV2 is ReentrancyGuard, Ownable {
     event StrategyCancelled(uint256 indexed strategyId, address indexed user);
     event ExecutorUpdated(address indexed executor, bool authorized);
     event SignalAccumulated(uint256 indexed strategyId, uint8 currentCount, uint8 threshold);
+    event StrategyPaused(uint256 indexed strategyId, address indexed user);
+    event StrategyResumed(uint256 indexed strategyId, address indexed user);
+    event StrategyToppedUp(
+        uint256 indexed strategyId,
+        address indexed user,
+        uint256 additionalExecutions,
+        uint256 executionsLeft
+    );
+    event SmartMoneyConfigUpdated(
+        uint256 indexed strategyId,
+        uint256 minWhaleAmount,
+        uint8 minLabelScore,
+        uint8 signalThreshold,
+        uint256 signalWindow,
+        bool enabled
+    );
 
     modifier onlyAuthorizedExecutor() {
         require(authorizedExecutors[msg.sender] || msg.sender == owner(), "Not authorized executor");
@@ -328,6 +346,7 @@ contract AutoStackDCAV2 is ReentrancyGuard, Ownable {
         Strategy storage strategy = strategies[strategyId];
 
         require(strategy.active, "Strategy not active");
+        require(!pausedStrategies[strategyId], "Strategy paused");
         require(strategy.executionsLeft > 0, "No executions left");
         require(
             strategy.strategyType == StrategyType.BASIC_DCA ||
@@ -354,6 +373,7 @@ contract AutoStackDCAV2 is ReentrancyGuard, Ownable {
         Strategy storage strategy = strategies[strategyId];
 
         require(strategy.active, "Strategy not active");
+        require(!pausedStrategies[strategyId], "Strategy paused");
         require(strategy.executionsLeft > 0, "No executions left");
         require(
             strategy.strategyType == StrategyType.SMART_MONEY_DCA ||
@@ -528,6 +548,7 @@ contract AutoStackDCAV2 is ReentrancyGuard, Ownable {
 
         strategy.active = false;
         strategy.executionsLeft = 0;
+        pausedStrategies[strategyId] = false;
 
         if (refundAmount > 0) {
             IERC20(strategy.tokenIn).safeTransfer(msg.sender, refundAmount);
@@ -563,6 +584,61 @@ contract AutoStackDCAV2 is ReentrancyGuard, Ownable {
             signalWindow: signalWindow,
             enabled: enabled
         });
+
+        emit SmartMoneyConfigUpdated(
+            strategyId,
+            minWhaleAmount,
+            minLabelScore,
+            signalThreshold,
+            signalWindow,
+            enabled
+        );
+    }
+
+    /**
+     * @notice Stop a strategy from executing without cancelling it
+     */
+    function pauseStrategy(uint256 strategyId) external {
+        Strategy storage strategy = strategies[strategyId];
+        require(strategy.user == msg.sender, "Not strategy owner");
+        require(strategy.active, "Strategy not active");
+        require(!pausedStrategies[strategyId], "Strategy paused");
+
+        pausedStrategies[strategyId] = true;
+        emit StrategyPaused(strategyId, msg.sender);
+    }
+
+    /**
+     * @notice Let a paused strategy execute again
+     */
+    function resumeStrategy(uint256 strategyId) external {
+        Strategy storage strategy = strategies[strategyId];
+        require(strategy.user == msg.sender, "Not strategy owner");
+        require(strategy.active, "Strategy not active");
+        require(pausedStrategies[strategyId], "Strategy not paused");
+
+        pausedStrategies[strategyId] = false;
+        emit StrategyResumed(strategyId, msg.sender);
+    }
+
+    /**
+     * @notice Fund more executions for an active strategy
+     * @dev Pulls amountPerExecution * additionalExecutions of tokenIn from the owner
+     */
+    function topUpStrategy(uint256 strategyId, uint256 additionalExecutions) external nonReentrant {
+        Strategy storage strategy = strategies[strategyId];
+        require(strategy.user == msg.sender, "Not strategy owner");
+        require(strategy.active, "Strategy not active");
+        require(additionalExecutions > 0, "Must add >= 1 execution");
+
+        IERC20(strategy.tokenIn).safeTransferFrom(
+            msg.sender,
+            address(this),
+            strategy.amountPerExecution * additionalExecutions
+        );
+        strategy.executionsLeft += additionalExecutions;
+
+        emit StrategyToppedUp(strategyId, msg.sender, additionalExecutions, strategy.executionsLeft);
     }
 
     // View functions
@@ -590,6 +666,7 @@ contract AutoStackDCAV2 is ReentrancyGuard, Ownable {
     function canExecuteTimeBased(uint256 strategyId) external view returns (bool) {
         Strategy storage strategy = strategies[strategyId];
         return strategy.active &&
+               !pausedStrategies[strategyId] &&
                strategy.executionsLeft > 0 &&
                (strategy.strategyType == StrategyType.BASIC_DCA || strategy.strategyType == StrategyType.HYBRID) &&
                (strategy.lastExecution == 0 || block.timestamp >= strategy.lastExecution + strategy.frequency);
@@ -598,6 +675,7 @@ contract AutoStackDCAV2 is ReentrancyGuard, Ownable {
     function canExecuteSmartMoney(uint256 strategyId) external view returns (bool) {
         Strategy storage strategy = strategies[strategyId];
         return strategy.active &&
+               !pausedStrategies[strategyId] &&
                strategy.executionsLeft > 0 &&
                strategy.smartMoneyConfig.enabled &&
                (strategy.strategyType == StrategyType.SMART_MONEY_DCA || strategy.strategyType == StrategyType.HYBRID);
@@ -0,0 +1,138 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+import "forge-std/Test.sol";
+import "../src/AutoStackDCAV2.sol";
+import "../src/MockToken.sol";
+
+contract AutoStackDCAV2Test is Test {
+    AutoStackDCAV2 public autoStackDCA;
+    MockToken public tokenIn;
+    MockToken public tokenOut;
+
+    address public user = address(0x1);
+    address public other = address(0x2);
+
+    uint256 public constant AMOUNT_PER_EXECUTION = 100e6;
+    uint256 public constant FREQUENCY = 1 days;
+    uint256 public constant TOTAL_EXECUTIONS = 5;
+
+    event StrategyPaused(uint256 indexed strategyId, address indexed user);
+    event StrategyResumed(uint256 indexed strategyId, address indexed user);
+    event StrategyToppedUp(
+        uint256 indexed strategyId,
+        address indexed user,
+        uint256 additionalExecutions,
+        uint256 executionsLeft
+    );
+
+    function setUp() public {
+        autoStackDCA = new AutoStackDCAV2();
+        tokenIn = new MockToken("USD Coin", "USDC", 6);
+        tokenOut = new MockToken("Wrapped Ether", "WETH", 18);
+
+        tokenIn.mint(user, 10_000e6);
+
+        vm.prank(user);
+        tokenIn.approve(address(autoStackDCA), type(uint256).max);
+    }
+
+    function _createStrategy() internal returns (uint256) {
+        uint24 poolFee = autoStackDCA.FEE_MEDIUM();
+        vm.prank(user);
+        return autoStackDCA.createStrategy(
+            address(tokenIn),
+            address(tokenOut),
+            AMOUNT_PER_EXECUTION,
+            FREQUENCY,
+            TOTAL_EXECUTIONS,
+            poolFee
+        );
+    }
+
+    function test_PauseAndResume() public {
+        uint256 strategyId = _createStrategy();
+        assertTrue(autoStackDCA.canExecuteTimeBased(strategyId));
+
+        vm.expectEmit(true, true, false, true);
+        emit StrategyPaused(strategyId, user);
+        vm.prank(user);
+        autoStackDCA.pauseStrategy(strategyId);
+
+        assertTrue(autoStackDCA.pausedStrategies(strategyId));
+        assertFalse(autoStackDCA.canExecuteTimeBased(strategyId));
+
+        vm.expectRevert("Strategy paused");
+        autoStackDCA.executeDCA(strategyId);
+
+        vm.expectEmit(true, true, false, true);
+        emit StrategyResumed(strategyId, user);
+        vm.prank(user);
+        autoStackDCA.resumeStrategy(strategyId);
+
+        assertFalse(autoStackDCA.pausedStrategies(strategyId));
+        assertTrue(autoStackDCA.canExecuteTimeBased(strategyId));
+    }
+
+    function test_Pause_NotOwner() public {
+        uint256 strategyId = _createStrategy();
+
+        vm.prank(other);
+        vm.expectRevert("Not strategy owner");
+        autoStackDCA.pauseStrategy(strategyId);
+    }
+
+    function test_Pause_Twice() public {
+        uint256 strategyId = _createStrategy();
+
+        vm.startPrank(user);
+        autoStackDCA.pauseStrategy(strategyId);
+        vm.expectRevert("Strategy paused");
+        autoStackDCA.pauseStrategy(strategyId);
+        vm.stopPrank();
+    }
+
+    function test_Resume_NotPaused() public {
+        uint256 strategyId = _createStrategy();
+
+        vm.prank(user);
+        vm.expectRevert("Strategy not paused");
+        autoStackDCA.resumeStrategy(strategyId);
+    }
+
+    function test_TopUp() public {
+        uint256 strategyId = _createStrategy();
+        uint256 balanceBefore = tokenIn.balanceOf(user);
+
+        vm.expectEmit(true, true, false, true);
+        emit StrategyToppedUp(strategyId, user, 3, TOTAL_EXECUTIONS + 3);
+        vm.prank(user);
+        autoStackDCA.topUpStrategy(strategyId, 3);
+
+        assertEq(autoStackDCA.getStrategy(strategyId).executionsLeft, TOTAL_EXECUTIONS + 3);
+        assertEq(tokenIn.balanceOf(user), balanceBefore - 3 * AMOUNT_PER_EXECUTION);
+        assertEq(tokenIn.balanceOf(address(autoStackDCA)), (TOTAL_EXECUTIONS + 3) * AMOUNT_PER_EXECUTION);
+    }
+
+    function test_TopUp_Cancelled() public {
+        uint256 strategyId = _createStrategy();
+
+        vm.startPrank(user);
+        autoStackDCA.cancelStrategy(strategyId);
+        vm.expectRevert("Strategy not active");
+        autoStackDCA.topUpStrategy(strategyId, 1);
+        vm.stopPrank();
+    }
+
+    function test_CancelPausedStrategy() public {
+        uint256 strategyId = _createStrategy();
+
+        vm.startPrank(user);
+        autoStackDCA.pauseStrategy(strategyId);
+        autoStackDCA.cancelStrategy(strategyId);
+        vm.stopPrank();
+
+        assertFalse(autoStackDCA.pausedStrategies(strategyId));
+        assertEq(tokenIn.balanceOf(user), 10_000e6);
+    }
+}
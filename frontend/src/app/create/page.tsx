@@ -4,12 +4,17 @@ import { useState, useEffect, useRef } from 'react'
 import Link from 'next/link'
 import { useRouter } from 'next/navigation'
 import { useAccount, useWriteContract, useWaitForTransactionReceipt } from 'wagmi'
-import { parseUnits } from 'viem'
+import { formatUnits, parseUnits } from 'viem'
 import { ConnectButton } from '@/components/ConnectButton'
 import { StrategyTypeSelector } from '@/components/StrategyTypeSelector'
+import { ExecutionPreview } from '@/components/ExecutionPreview'
+import { FundingPreflight } from '@/components/FundingPreflight'
 import { SmartMoneyConfig, DEFAULT_SMART_MONEY_CONFIG, type SmartMoneyConfigData } from '@/components/SmartMoneyConfig'
 import { useSessionAccount } from '@/providers/SessionAccountProvider'
 import { useAdvancedPermissions, calculateDCAPermission } from '@/hooks/useAdvancedPermissions'
+import { usePoolQuotes, type PoolQuote } from '@/hooks/usePoolQuotes'
+import { useFundingPreflight } from '@/hooks/useFundingPreflight'
+import type { FeeTier } from '@/lib/protocol/routing'
 import {
   AUTOSTACK_DCA_V2_ADDRESS,
   AUTOSTACK_DCA_V2_ABI,
@@ -21,11 +26,31 @@ import {
 } from '@/lib/contracts'
 
 type FrequencyOption = 'hourly' | 'daily' | 'weekly'
-type PoolFeeOption = 'LOW' | 'MEDIUM' | 'HIGH'
 
 // Get token symbols as array for dropdowns
 const TOKEN_OPTIONS = Object.keys(SUPPORTED_TOKENS) as TokenSymbol[]
 
+const FEE_TIER_INFO: Record<FeeTier, { label: string; hint: string }> = {
+  [POOL_FEES.LOW]: { label: '0.05%', hint: 'Stable pairs' },
+  [POOL_FEES.MEDIUM]: { label: '0.3%', hint: 'Standard' },
+  [POOL_FEES.HIGH]: { label: '1%', hint: 'Exotic' },
+}
+
+// parseUnits, or null for an empty or malformed amount
+function parseAmount(amount: string, decimals: number): bigint | null {
+  try {
+    const value = parseUnits(amount, decimals)
+    return value > 0n ? value : null
+  } catch {
+    return null
+  }
+}
+
+function formatQuote(quote: PoolQuote, decimals: number): string {
+  if (quote.amountOut === null) return 'No pool'
+  return Number(formatUnits(quote.amountOut, decimals)).toLocaleString('en-US', { maximumSignificantDigits: 6 })
+}
+
 export default function CreateStrategyPage() {
   const router = useRouter()
   const { isConnected } = useAccount()
@@ -39,15 +64,23 @@ export default function CreateStrategyPage() {
   const [showTokenOutDropdown, setShowTokenOutDropdown] = useState(false)
   const [strategyType, setStrategyType] = useState<number>(STRATEGY_TYPES.BASIC_DCA)
   const [smartMoneyConfig, setSmartMoneyConfig] = useState<SmartMoneyConfigData>(DEFAULT_SMART_MONEY_CONFIG)
-  const [poolFee, setPoolFee] = useState<PoolFeeOption>('MEDIUM')
+  // A tier the user picked over the suggested one; dropped when the pair changes
+  const [feeChoice, setFeeChoice] = useState<{ pair: string; fee: FeeTier } | null>(null)
   const [permissionGranted, setPermissionGranted] = useState(false)
   const [permissionError, setPermissionError] = useState<string | null>(null)
+  // How executions are authorised when the user overrides the default
+  const [authChoice, setAuthChoice] = useState<'permission' | 'approval' | null>(null)
 
   const tokenSelectorRef = useRef<HTMLDivElement>(null)
 
   // ERC-7715 Advanced Permissions hooks
   const { initializeSessionAccount, sessionAddress, isInitializing: isSessionInitializing } = useSessionAccount()
-  const { requestPermission, isRequesting: isPermissionRequesting, error: permissionHookError } = useAdvancedPermissions()
+  const {
+    requestPermission,
+    isRequesting: isPermissionRequesting,
+    error: permissionHookError,
+    isAvailable: isPermissionAvailable,
+  } = useAdvancedPermissions()
 
   // Close dropdowns when clicking outside
   useEffect(() => {
@@ -84,6 +117,27 @@ export default function CreateStrategyPage() {
   const selectedTokenIn = SUPPORTED_TOKENS[tokenIn]
   const selectedTokenOut = SUPPORTED_TOKENS[tokenOut]
 
+  // Quote the amount being set up, or one whole token until one is entered
+  const amountInWei = parseAmount(amount, selectedTokenIn.decimals)
+  const {
+    quotes: poolQuotes,
+    best: bestPool,
+    isLoading: isQuoting,
+    error: quoteError,
+    retry: retryQuotes,
+  } = usePoolQuotes(selectedTokenIn.address, selectedTokenOut.address, amountInWei ?? 10n ** BigInt(selectedTokenIn.decimals))
+  const pair = `${tokenIn}:${tokenOut}`
+  const poolFee: FeeTier = feeChoice?.pair === pair ? feeChoice.fee : bestPool?.fee ?? POOL_FEES.MEDIUM
+  const hasNoPool = !isQuoting && poolQuotes.length > 0 && !bestPool
+
+  // ERC-7715 needs MetaMask Flask on Sepolia; every other wallet approves the token
+  const authMode = authChoice ?? (isPermissionAvailable ? 'permission' : 'approval')
+  const executionCount = parseInt(executions) || 0
+  const totalRequired = amountInWei && executionCount > 0 ? amountInWei * BigInt(executionCount) : null
+  const funding = useFundingPreflight(selectedTokenIn.address, totalRequired)
+  const isApproving = funding.approval?.stage === 'signing' || funding.approval?.stage === 'pending'
+  const isFormIncomplete = !amountInWei || executionCount <= 0 || tokenIn === tokenOut || hasNoPool
+
   // Check if smart money config is needed
   const needsSmartMoneyConfig = strategyType !== STRATEGY_TYPES.BASIC_DCA
   const needsSignalAccumulation = strategyType === STRATEGY_TYPES.SMART_ACCUMULATE || strategyType === STRATEGY_TYPES.HYBRID
@@ -117,10 +171,7 @@ export default function CreateStrategyPage() {
   }
 
   const handleCreateStrategy = async () => {
-    if (!amount || !executions) return
-
-    const amountInWei = parseUnits(amount, selectedTokenIn.decimals)
-    const selectedPoolFee = POOL_FEES[poolFee]
+    if (!amountInWei || !executions) return
 
     if (strategyType === STRATEGY_TYPES.BASIC_DCA) {
       // Basic DCA - no smart money config
@@ -134,7 +185,7 @@ export default function CreateStrategyPage() {
           amountInWei,
           frequencyInSeconds,
           BigInt(executions),
-          selectedPoolFee,
+          poolFee,
         ],
       })
     } else if (strategyType === STRATEGY_TYPES.SMART_MONEY_DCA || strategyType === STRATEGY_TYPES.SMART_ACCUMULATE) {
@@ -152,7 +203,7 @@ export default function CreateStrategyPage() {
           amountInWei,
           frequencyInSeconds,
           BigInt(executions),
-          selectedPoolFee,
+          poolFee,
           minWhaleAmountWei,
           smartMoneyConfig.minLabelScore,
           smartMoneyConfig.signalThreshold,
@@ -174,7 +225,7 @@ export default function CreateStrategyPage() {
           amountInWei,
           frequencyInSeconds,
           BigInt(executions),
-          selectedPoolFee,
+          poolFee,
           minWhaleAmountWei,
           smartMoneyConfig.minLabelScore,
           smartMoneyConfig.signalThreshold,
@@ -195,6 +246,34 @@ export default function CreateStrategyPage() {
 
   const totalAmount = amount && executions ? (parseFloat(amount) * parseInt(executions)).toFixed(2) : '0.00'
 
+  // The contract pulls the whole schedule at creation, so both paths need the
+  // allowance before the strategy can be created
+  const renderApproveOrCreate = () =>
+    !funding.hasAllowance ? (
+      <button
+        onClick={funding.approve}
+        disabled={isFormIncomplete || !funding.hasBalance || isApproving}
+        className="btn-primary w-full py-4 text-lg disabled:opacity-40 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-none"
+      >
+        {isApproving ? (
+          <span className="flex items-center justify-center gap-2">
+            <div className="spinner w-5 h-5" />
+            Approving...
+          </span>
+        ) : (
+          `Approve ${totalAmount} ${selectedTokenIn.symbol}`
+        )}
+      </button>
+    ) : (
+      <button
+        onClick={handleCreateStrategy}
+        disabled={isFormIncomplete || !funding.hasBalance || funding.isLoading}
+        className="w-full py-4 text-lg font-semibold text-white rounded-xl transition-all duration-300 bg-gradient-to-r from-[#10b981] to-[#06b6d4] hover:opacity-90 hover:shadow-lg hover:shadow-[#10b981]/20 disabled:opacity-40 disabled:cursor-not-allowed"
+      >
+        Create {getStrategyTypeName(strategyType)}
+      </button>
+    )
+
   const getStrategyTypeName = (type: number) => {
     switch (type) {
       case STRATEGY_TYPES.BASIC_DCA: return 'Basic DCA'
@@ -380,28 +459,64 @@ export default function CreateStrategyPage() {
 
               {/* Pool Fee Selector */}
               <div>
-                <label className="block text-sm font-medium text-[--text-secondary] mb-3">Pool Fee Tier</label>
+                <div className="flex items-center justify-between mb-3">
+                  <label className="block text-sm font-medium text-[--text-secondary]">Pool Fee Tier</label>
+                  {isQuoting && <div className="spinner !w-3 !h-3" />}
+                </div>
                 <div className="grid grid-cols-3 gap-3">
-                  {(['LOW', 'MEDIUM', 'HIGH'] as PoolFeeOption[]).map((fee) => (
-                    <button
-                      key={fee}
-                      type="button"
-                      onClick={() => setPoolFee(fee)}
-                      className={`p-3 rounded-xl border-2 text-center transition-all duration-200 ${
-                        poolFee === fee
-                          ? 'border-[#7c3aed] bg-[#7c3aed]/5'
-                          : 'border-[--border-subtle] hover:border-[--border-default] bg-[--surface-1]'
-                      }`}
-                    >
-                      <div className={`font-semibold ${poolFee === fee ? 'text-[--text-primary]' : 'text-[--text-secondary]'}`}>
-                        {fee === 'LOW' ? '0.05%' : fee === 'MEDIUM' ? '0.3%' : '1%'}
+                  {poolQuotes.length === 0 ? (
+                    (Object.keys(FEE_TIER_INFO).map(Number) as FeeTier[]).map((fee) => (
+                      <div key={fee} className="p-3 rounded-xl border-2 border-[--border-subtle] bg-[--surface-1] text-center">
+                        <div className="font-semibold text-[--text-secondary]">{FEE_TIER_INFO[fee].label}</div>
+                        <div className="text-xs text-[--text-tertiary]">{quoteError ? 'Unavailable' : 'Quoting…'}</div>
                       </div>
-                      <div className="text-xs text-[--text-tertiary]">
-                        {fee === 'LOW' ? 'Stable pairs' : fee === 'MEDIUM' ? 'Standard' : 'Exotic'}
-                      </div>
-                    </button>
-                  ))}
+                    ))
+                  ) : (
+                    poolQuotes.map((quote) => (
+                      <button
+                        key={quote.fee}
+                        type="button"
+                        disabled={quote.amountOut === null}
+                        onClick={() => setFeeChoice({ pair, fee: quote.fee })}
+                        className={`p-3 rounded-xl border-2 text-center transition-all duration-200 disabled:opacity-40 disabled:cursor-not-allowed ${
+                          poolFee === quote.fee
+                            ? 'border-[#7c3aed] bg-[#7c3aed]/5'
+                            : 'border-[--border-subtle] hover:border-[--border-default] bg-[--surface-1]'
+                        }`}
+                      >
+                        <div className={`font-semibold ${poolFee === quote.fee ? 'text-[--text-primary]' : 'text-[--text-secondary]'}`}>
+                          {FEE_TIER_INFO[quote.fee].label}
+                          {quote.fee === bestPool?.fee && <span className="ml-1 text-[10px] text-[#10b981]">Best</span>}
+                        </div>
+                        <div className="text-xs text-[--text-primary]">
+                          {formatQuote(quote, selectedTokenOut.decimals)}
+                          {quote.amountOut !== null && ` ${selectedTokenOut.symbol}`}
+                        </div>
+                        <div className="text-xs text-[--text-tertiary]">
+                          {quote.amountOut === null
+                            ? FEE_TIER_INFO[quote.fee].hint
+                            : quote.priceImpactBps === null
+                              ? 'Impact n/a'
+                              : `${(quote.priceImpactBps / 100).toFixed(2)}% impact`}
+                        </div>
+                      </button>
+                    ))
+                  )}
                 </div>
+                {quoteError ? (
+                  <p className="text-xs text-[#f87171] mt-2">
+                    Couldn&apos;t reach Uniswap QuoterV2: {quoteError}.{' '}
+                    <button type="button" onClick={retryQuotes} className="link-accent">
+                      Retry
+                    </button>
+                  </p>
+                ) : (
+                  <p className="text-xs text-[--text-tertiary] mt-2">
+                    {hasNoPool
+                      ? `No Uniswap pool for ${selectedTokenIn.symbol} → ${selectedTokenOut.symbol} on Sepolia`
+                      : `Output for ${amountInWei ? amount : '1'} ${selectedTokenIn.symbol}, quoted by Uniswap QuoterV2`}
+                  </p>
+                )}
               </div>
 
               {/* Amount per Execution */}
@@ -547,7 +662,7 @@ export default function CreateStrategyPage() {
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-[--text-tertiary]">Pool Fee</span>
-                    <span className="text-[--text-primary] font-medium">{poolFee === 'LOW' ? '0.05%' : poolFee === 'MEDIUM' ? '0.3%' : '1%'}</span>
+                    <span className="text-[--text-primary] font-medium">{FEE_TIER_INFO[poolFee].label}</span>
                   </div>
                   <div className="flex justify-between text-sm">
                     <span className="text-[--text-tertiary]">Amount per execution</span>
@@ -598,7 +713,19 @@ export default function CreateStrategyPage() {
                 </div>
               </div>
 
-              {/* ERC-7715 Advanced Permissions Notice */}
+              {/* Cost Preview */}
+              <ExecutionPreview
+                tokenIn={selectedTokenIn}
+                tokenOut={selectedTokenOut}
+                amountIn={amountInWei}
+                fee={poolFee}
+                executions={parseInt(executions) || 0}
+              />
+
+              {/* Funding Preflight */}
+              <FundingPreflight token={selectedTokenIn} required={totalRequired} funding={funding} />
+
+              {/* Authorisation Notice */}
               <div className="glass-card p-4 border border-[#7c3aed]/20 bg-[#7c3aed]/5">
                 <div className="flex items-start gap-3">
                   <div className="w-8 h-8 rounded-lg bg-[#7c3aed]/20 flex items-center justify-center flex-shrink-0">
@@ -606,21 +733,44 @@ export default function CreateStrategyPage() {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m5.618-4.016A11.955 11.955 0 0112 2.944a11.955 11.955 0 01-8.618 3.04A12.02 12.02 0 003 9c0 5.591 3.824 10.29 9 11.622 5.176-1.332 9-6.03 9-11.622 0-1.042-.133-2.052-.382-3.016z" />
                     </svg>
                   </div>
-                  <div>
-                    <h4 className="font-medium text-[--text-primary] text-sm">ERC-7715 Advanced Permissions</h4>
-                    <p className="text-xs text-[--text-tertiary] mt-1">
-                      Uses MetaMask Smart Account with time-limited, amount-capped permissions. Your tokens stay in your wallet until each swap.
-                    </p>
+                  <div className="flex-1">
+                    {authMode === 'permission' ? (
+                      <>
+                        <h4 className="font-medium text-[--text-primary] text-sm">ERC-7715 Advanced Permissions</h4>
+                        <p className="text-xs text-[--text-tertiary] mt-1">
+                          Uses MetaMask Smart Account with time-limited, amount-capped permissions. Your tokens stay in your wallet until each swap.
+                        </p>
+                      </>
+                    ) : (
+                      <>
+                        <h4 className="font-medium text-[--text-primary] text-sm">ERC-20 Approval</h4>
+                        <p className="text-xs text-[--text-tertiary] mt-1">
+                          {isPermissionAvailable ? '' : 'ERC-7715 permissions need MetaMask Flask on Sepolia. '}
+                          Approve AutoStack for exactly the full schedule; the contract holds it and swaps one execution at a time.
+                        </p>
+                      </>
+                    )}
+                    {step === 'form' && (
+                      <button
+                        type="button"
+                        onClick={() => setAuthChoice(authMode === 'permission' ? 'approval' : 'permission')}
+                        className="link-accent text-xs mt-2"
+                      >
+                        {authMode === 'permission' ? 'Use an ERC-20 approval instead' : 'Try ERC-7715 permissions'}
+                      </button>
+                    )}
                   </div>
                 </div>
               </div>
 
               {/* Action Buttons */}
               <div className="space-y-3 pt-2">
-                {step === 'form' && (
+                {step === 'form' && authMode === 'approval' && renderApproveOrCreate()}
+
+                {step === 'form' && authMode === 'permission' && (
                   <button
                     onClick={handleGrantPermission}
-                    disabled={!amount || !executions || parseFloat(amount) <= 0 || parseInt(executions) <= 0 || tokenIn === tokenOut || isSessionInitializing}
+                    disabled={isFormIncomplete || !funding.hasBalance || isSessionInitializing}
                     className="btn-primary w-full py-4 text-lg disabled:opacity-40 disabled:cursor-not-allowed disabled:transform-none disabled:shadow-none"
                   >
                     {isSessionInitializing ? (
@@ -644,12 +794,7 @@ export default function CreateStrategyPage() {
                         </span>
                       </div>
                     ) : permissionGranted ? (
-                      <button
-                        onClick={handleCreateStrategy}
-                        className="w-full py-4 text-lg font-semibold text-white rounded-xl transition-all duration-300 bg-gradient-to-r from-[#10b981] to-[#06b6d4] hover:opacity-90 hover:shadow-lg hover:shadow-[#10b981]/20"
-                      >
-                        Create {getStrategyTypeName(strategyType)}
-                      </button>
+                      renderApproveOrCreate()
                     ) : permissionError ? (
                       <div className="space-y-3">
                         <div className="glass-card p-4 border border-red-500/20 bg-red-500/5">
@@ -661,6 +806,15 @@ export default function CreateStrategyPage() {
                         >
                           Retry Permission
                         </button>
+                        <button
+                          onClick={() => {
+                            setAuthChoice('approval')
+                            setStep('form')
+                          }}
+                          className="btn-secondary w-full py-3"
+                        >
+                          Use an ERC-20 approval instead
+                        </button>
                       </div>
                     ) : (
                       <button
@@ -1,50 +1,15 @@
 'use client'
 
-import { useEffect, useState } from 'react'
 import Link from 'next/link'
 import { useAccount } from 'wagmi'
 import { ConnectButton } from '@/components/ConnectButton'
 import { StrategyCard } from '@/components/StrategyCard'
 import { SmartMoneyFeed } from '@/components/SmartMoneyFeed'
-import {
-  getUserStrategies,
-  getAllExecutionsByUser,
-  type Strategy,
-  type Execution,
-} from '@/lib/envio'
+import { useLiveStrategies } from '@/hooks/useLiveStrategies'
 
 export default function DashboardPage() {
   const { address, isConnected } = useAccount()
-  const [strategies, setStrategies] = useState<Strategy[]>([])
-  const [executions, setExecutions] = useState<Execution[]>([])
-  const [isLoading, setIsLoading] = useState(true)
-  const [error, setError] = useState<string | null>(null)
-
-  useEffect(() => {
-    async function fetchData() {
-      if (!address) return
-
-      setIsLoading(true)
-      setError(null)
-
-      try {
-        const [strategiesData, executionsData] = await Promise.all([
-          getUserStrategies(address),
-          getAllExecutionsByUser(address),
-        ])
-
-        setStrategies(strategiesData)
-        setExecutions(executionsData)
-      } catch (err) {
-        console.error('Error fetching data:', err)
-        setError('Failed to load data. Make sure Envio indexer is running.')
-      } finally {
-        setIsLoading(false)
-      }
-    }
-
-    fetchData()
-  }, [address])
+  const { strategies, executions, freshExecutionIds, changes, isLoading, error, isLive } = useLiveStrategies(address)
 
   const activeStrategies = strategies.filter((s) => s.isActive)
   const completedStrategies = strategies.filter((s) => !s.isActive)
@@ -127,7 +92,9 @@ export default function DashboardPage() {
                       <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={1.5} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
                     </svg>
                   </div>
-                  <span className="badge badge-active">Live</span>
+                  <span className={`badge ${isLive ? 'badge-active' : 'badge-inactive'}`}>
+                    {isLive ? 'Live' : 'Reconnecting'}
+                  </span>
                 </div>
                 <p className="text-sm text-[--text-tertiary] mb-1">Active Strategies</p>
                 <p className="text-3xl font-bold text-[#10b981]">{activeStrategies.length}</p>
@@ -190,7 +157,7 @@ export default function DashboardPage() {
                   ) : (
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                       {activeStrategies.map((strategy) => (
-                        <StrategyCard key={strategy.id} strategy={strategy} />
+                        <StrategyCard key={strategy.id} strategy={strategy} change={changes[strategy.id]} />
                       ))}
                     </div>
                   )}
@@ -205,7 +172,7 @@ export default function DashboardPage() {
                     </div>
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
                       {completedStrategies.map((strategy) => (
-                        <StrategyCard key={strategy.id} strategy={strategy} />
+                        <StrategyCard key={strategy.id} strategy={strategy} change={changes[strategy.id]} />
                       ))}
                     </div>
                   </section>
@@ -236,12 +203,13 @@ export default function DashboardPage() {
                             <th>Amount In</th>
                             <th>Amount Out</th>
                             <th>Date</th>
+                            <th>Gas</th>
                             <th>Transaction</th>
                           </tr>
                         </thead>
                         <tbody>
                           {executions.slice(0, 10).map((execution) => (
-                            <tr key={execution.id}>
+                            <tr key={execution.id} className={freshExecutionIds.has(execution.id) ? 'live-enter' : undefined}>
                               <td className="font-mono text-[--text-primary]">
                                 #{execution.strategyId}
                               </td>
@@ -257,6 +225,9 @@ export default function DashboardPage() {
                               <td className="text-[--text-secondary]">
                                 {new Date(Number(execution.executedAt) * 1000).toLocaleDateString()}
                               </td>
+                              <td className="text-[--text-secondary]" title={`Executor ${execution.executor}`}>
+                                {(Number(execution.gasCost) / 1e18).toFixed(6)} ETH
+                              </td>
                               <td>
                                 <a
                                   href={`https://basescan.org/tx/${execution.transactionHash}`}
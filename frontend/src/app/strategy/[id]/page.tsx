@@ -0,0 +1,412 @@
+'use client'
+
+import { useEffect, useState, type ReactNode } from 'react'
+import Link from 'next/link'
+import { useParams } from 'next/navigation'
+import { formatUnits } from 'viem'
+import { sepolia } from 'wagmi/chains'
+import { ConnectButton } from '@/components/ConnectButton'
+import { LineChart, type ChartSeries } from '@/components/LineChart'
+import { StrategyActions } from '@/components/StrategyActions'
+import { formatFrequency, formatTimestamp, getStatusBadge, getStrategyTypeInfo } from '@/components/StrategyCard'
+import { useStrategyActions } from '@/hooks/useStrategyActions'
+import { useStrategyDetail } from '@/hooks/useStrategyDetail'
+import { STRATEGY_TYPES } from '@/lib/contracts'
+import type { Execution, Strategy } from '@/lib/envio'
+import { getTokenDecimals, getTokenSymbol, toDisplayPrice } from '@/lib/tokens'
+
+// The indexer's app chain (see lib/envio.ts)
+const EXPLORER_URL = sepolia.blockExplorers.default.url
+// Whale wallets come from Nansen trades on Base mainnet, not the strategy's chain
+const WHALE_EXPLORER_URL = 'https://basescan.org'
+const PRICE_SCALE = 10n ** 18n
+
+function formatAmount(amount: string | bigint, token: string): string {
+  const value = Number(formatUnits(BigInt(amount), getTokenDecimals(token)))
+  return value.toLocaleString('en-US', { maximumFractionDigits: 6 })
+}
+
+function formatPrice(price: number): string {
+  return price.toLocaleString('en-US', { maximumSignificantDigits: 6 })
+}
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`
+}
+
+// Re-render once a minute so "due" times stay current
+function useNow(intervalMs = 60_000): number {
+  const [now, setNow] = useState(() => Date.now())
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), intervalMs)
+    return () => clearInterval(timer)
+  }, [intervalMs])
+  return now
+}
+
+/**
+ * When the strategy should execute next. Time-based strategies are due one
+ * frequency after their last execution (immediately before the first);
+ * signal-driven ones wait on the worker.
+ */
+function describeNextExecution(strategy: Strategy, executions: Execution[], now: number): string {
+  if (!strategy.isActive) return '—'
+  if (strategy.paused) return 'Paused'
+
+  switch (strategy.strategyType) {
+    case STRATEGY_TYPES.SMART_MONEY_DCA:
+      return 'On the next qualifying whale buy'
+    case STRATEGY_TYPES.SMART_ACCUMULATE:
+      return `After ${strategy.signalThreshold ?? '?'} whale signals (${strategy.signalCount} so far)`
+  }
+
+  const last = executions[executions.length - 1]
+  const due = last ? Number(last.executedAt) + Number(strategy.frequency) : null
+  const time = due === null || due * 1000 <= now ? 'Due now' : formatTimestamp(String(due))
+  return strategy.strategyType === STRATEGY_TYPES.HYBRID ? `${time}, or earlier on a whale signal` : time
+}
+
+interface HistoryPoint {
+  execution: Execution
+  cumulativeIn: bigint
+  cumulativeOut: bigint
+  // Volume-weighted cost basis after this execution, in Execution.price units
+  averagePrice: bigint
+}
+
+function buildHistory(executions: Execution[]): HistoryPoint[] {
+  let cumulativeIn = 0n
+  let cumulativeOut = 0n
+  return executions.map((execution) => {
+    cumulativeIn += BigInt(execution.amountIn)
+    cumulativeOut += BigInt(execution.amountOut)
+    return {
+      execution,
+      cumulativeIn,
+      cumulativeOut,
+      averagePrice: cumulativeOut > 0n ? (cumulativeIn * PRICE_SCALE) / cumulativeOut : 0n,
+    }
+  })
+}
+
+function Stat({ label, value, detail }: { label: string; value: ReactNode; detail?: ReactNode }) {
+  return (
+    <div className="stat-card p-5">
+      <p className="text-sm text-[--text-tertiary] mb-1">{label}</p>
+      <p className="text-xl font-bold text-[--text-primary]">{value}</p>
+      {detail && <p className="text-xs text-[--text-tertiary] mt-1">{detail}</p>}
+    </div>
+  )
+}
+
+export default function StrategyPage() {
+  const { id } = useParams<{ id: string }>()
+  const { strategy, executions, marketPrice, isLoading, error } = useStrategyDetail(id)
+  const now = useNow()
+
+  return (
+    <div className="min-h-screen bg-gradient-animated">
+      {/* Ambient background effects */}
+      <div className="fixed inset-0 overflow-hidden pointer-events-none">
+        <div className="absolute top-[-20%] left-[-10%] w-[500px] h-[500px] bg-[#7c3aed]/10 rounded-full blur-[120px]" />
+        <div className="absolute top-[30%] right-[-10%] w-[400px] h-[400px] bg-[#06b6d4]/10 rounded-full blur-[120px]" />
+      </div>
+
+      {/* Header */}
+      <header className="relative z-10 border-b border-[--border-subtle] bg-[--bg-primary]/80 backdrop-blur-xl">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-4 flex items-center justify-between">
+          <Link href="/" className="flex items-center gap-3">
+            <div className="w-8 h-8 rounded-lg bg-gradient-to-br from-[#7c3aed] to-[#06b6d4] flex items-center justify-center">
+              <svg className="w-5 h-5 text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 7h8m0 0v8m0-8l-8 8-4-4-6 6" />
+              </svg>
+            </div>
+            <span className="text-xl font-bold text-[--text-primary]">AutoStack</span>
+          </Link>
+          <ConnectButton />
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="relative z-10 max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        <Link href="/dashboard" className="link-accent text-sm inline-flex items-center gap-1 mb-6">
+          ← Dashboard
+        </Link>
+
+        {isLoading ? (
+          <div className="text-center py-20">
+            <div className="spinner mx-auto mb-4" />
+            <p className="text-[--text-secondary]">Loading strategy...</p>
+          </div>
+        ) : error ? (
+          <div className="glass-card p-8 text-center border-[#f59e0b]/20">
+            <p className="text-[#f59e0b] font-medium">{error}</p>
+          </div>
+        ) : !strategy ? (
+          <div className="glass-card p-12 text-center">
+            <p className="text-[--text-secondary]">Strategy #{id} hasn&apos;t been indexed yet.</p>
+          </div>
+        ) : (
+          <StrategyDetail
+            strategy={strategy}
+            executions={executions}
+            marketPrice={marketPrice}
+            now={now}
+          />
+        )}
+      </main>
+    </div>
+  )
+}
+
+interface StrategyDetailProps {
+  strategy: Strategy
+  executions: Execution[]
+  marketPrice: string | null
+  now: number
+}
+
+function StrategyDetail({ strategy: indexed, executions, marketPrice, now }: StrategyDetailProps) {
+  const actions = useStrategyActions(indexed)
+  const { strategy } = actions
+  const statusBadge = getStatusBadge(strategy)
+  const { tokenIn, tokenOut } = strategy
+  const tokenInSymbol = getTokenSymbol(tokenIn)
+  const tokenOutSymbol = getTokenSymbol(tokenOut)
+  const typeInfo = getStrategyTypeInfo(strategy.strategyType)
+  const isSmartMoney = strategy.strategyType !== STRATEGY_TYPES.BASIC_DCA
+
+  const history = buildHistory(executions)
+  const toPrice = (price: string | bigint) => toDisplayPrice(price, tokenIn, tokenOut)
+  const averageCost = BigInt(strategy.totalAmountOut) > 0n ? toPrice(strategy.averagePrice) : null
+  const currentPrice = marketPrice ? toPrice(marketPrice) : null
+  // Positive when tokenOut now costs more than the strategy paid on average
+  const priceChange = averageCost && currentPrice ? ((currentPrice - averageCost) / averageCost) * 100 : null
+
+  const times = history.map((point) => Number(point.execution.executedAt) * 1000)
+  const accumulatedSeries: ChartSeries[] = [
+    {
+      label: `Accumulated ${tokenOutSymbol}`,
+      color: '#06b6d4',
+      step: true,
+      area: true,
+      points: history.map((point, i) => ({
+        x: times[i],
+        y: Number(formatUnits(point.cumulativeOut, getTokenDecimals(tokenOut))),
+      })),
+    },
+  ]
+  const priceSeries: ChartSeries[] = [
+    {
+      label: 'Average cost',
+      color: '#a78bfa',
+      step: true,
+      points: history.map((point, i) => ({ x: times[i], y: toPrice(point.averagePrice) })),
+    },
+    {
+      label: 'Execution price',
+      color: '#6b7280',
+      points: history.map((point, i) => ({ x: times[i], y: toPrice(point.execution.price) })),
+    },
+  ]
+  if (currentPrice !== null && times.length > 0) {
+    priceSeries.push({
+      label: 'Market price',
+      color: '#10b981',
+      dashed: true,
+      points: [
+        { x: times[0], y: currentPrice },
+        { x: Math.max(times[times.length - 1], now), y: currentPrice },
+      ],
+    })
+  }
+  const formatDate = (x: number) => new Date(x).toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+  return (
+    <div className="space-y-8">
+      {/* Title */}
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div>
+          <h1 className="text-2xl font-bold text-[--text-primary]">
+            {tokenInSymbol} → {tokenOutSymbol}
+          </h1>
+          <p className="text-sm text-[--text-tertiary] font-mono">Strategy #{strategy.strategyId}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          <span className={`text-xs font-bold px-2.5 py-1 rounded-full bg-gradient-to-r ${typeInfo.gradient} text-white`}>
+            {typeInfo.name}
+          </span>
+          <span className={`badge ${statusBadge.className}`}>{statusBadge.label}</span>
+        </div>
+      </div>
+
+      {/* Owner actions */}
+      {actions.isOwner && (strategy.isActive || actions.status) && (
+        <section className="glass-card p-6">
+          <h2 className="text-lg font-bold text-[--text-primary] mb-4">Manage</h2>
+          <StrategyActions actions={actions} />
+        </section>
+      )}
+
+      {/* Summary */}
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+        <Stat
+          label="Progress"
+          value={`${strategy.executionsCompleted} / ${strategy.totalExecutions}`}
+          detail={`${formatAmount(strategy.amountPerExecution, tokenIn)} ${tokenInSymbol} ${formatFrequency(strategy.frequency).toLowerCase()}`}
+        />
+        <Stat
+          label="Accumulated"
+          value={`${formatAmount(strategy.totalAmountOut, tokenOut)} ${tokenOutSymbol}`}
+          detail={`for ${formatAmount(strategy.totalAmountIn, tokenIn)} ${tokenInSymbol}`}
+        />
+        <Stat
+          label={`Average cost (${tokenInSymbol}/${tokenOutSymbol})`}
+          value={averageCost !== null ? formatPrice(averageCost) : '—'}
+          detail={
+            currentPrice !== null ? (
+              <>
+                Market {formatPrice(currentPrice)}
+                {priceChange !== null && (
+                  <span className={priceChange >= 0 ? 'text-[#10b981]' : 'text-[#f87171]'}>
+                    {' '}
+                    ({priceChange >= 0 ? '+' : ''}
+                    {priceChange.toFixed(2)}%)
+                  </span>
+                )}
+              </>
+            ) : (
+              'No price yet'
+            )
+          }
+        />
+        <Stat label="Next execution" value={describeNextExecution(strategy, executions, now)} />
+      </div>
+
+      {/* Parameters */}
+      <section className="glass-card p-6">
+        <h2 className="text-lg font-bold text-[--text-primary] mb-4">Parameters</h2>
+        <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-8 gap-y-3 text-sm">
+          {[
+            ['Token in', `${tokenInSymbol} (${shortAddress(tokenIn)})`],
+            ['Token out', `${tokenOutSymbol} (${shortAddress(tokenOut)})`],
+            ['Amount per execution', `${formatAmount(strategy.amountPerExecution, tokenIn)} ${tokenInSymbol}`],
+            ['Frequency', formatFrequency(strategy.frequency)],
+            ['Total executions', strategy.totalExecutions],
+            ['Created', `${formatTimestamp(strategy.createdAt)} (block ${strategy.createdAtBlock})`],
+            ...(isSmartMoney
+              ? [['Whale signals', `${strategy.signalCount} / ${strategy.signalThreshold ?? '—'}`]]
+              : []),
+            ...(strategy.completedAt ? [['Completed', formatTimestamp(strategy.completedAt)]] : []),
+            ...(strategy.cancelledAt ? [['Cancelled', formatTimestamp(strategy.cancelledAt)]] : []),
+            ['Gas paid', `${formatUnits(BigInt(strategy.totalGasCost), 18)} ETH`],
+          ].map(([label, value]) => (
+            <div key={label} className="flex justify-between gap-4">
+              <dt className="text-[--text-tertiary]">{label}</dt>
+              <dd className="text-[--text-primary] font-medium text-right">{value}</dd>
+            </div>
+          ))}
+        </dl>
+      </section>
+
+      {/* Charts */}
+      {history.length > 0 && (
+        <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          <section className="glass-card p-6">
+            <h2 className="text-lg font-bold text-[--text-primary] mb-4">Accumulated {tokenOutSymbol}</h2>
+            <LineChart series={accumulatedSeries} formatX={formatDate} formatY={(y) => formatPrice(y)} />
+          </section>
+          <section className="glass-card p-6">
+            <h2 className="text-lg font-bold text-[--text-primary] mb-4">
+              Average cost vs. price ({tokenInSymbol}/{tokenOutSymbol})
+            </h2>
+            <LineChart series={priceSeries} formatX={formatDate} formatY={(y) => formatPrice(y)} />
+          </section>
+        </div>
+      )}
+
+      {/* Executions */}
+      <section>
+        <div className="flex items-center justify-between mb-6">
+          <h2 className="text-xl font-bold text-[--text-primary]">Executions</h2>
+          <span className="text-sm text-[--text-tertiary]">{executions.length} total</span>
+        </div>
+        {executions.length === 0 ? (
+          <div className="glass-card p-12 text-center">
+            <p className="text-[--text-secondary]">No executions yet</p>
+          </div>
+        ) : (
+          <div className="data-table overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Date</th>
+                  <th>Amount In</th>
+                  <th>Amount Out</th>
+                  <th>Price</th>
+                  <th>Trigger</th>
+                  <th>Transaction</th>
+                </tr>
+              </thead>
+              <tbody>
+                {history
+                  .map(({ execution }, index) => (
+                    <tr key={execution.id}>
+                      <td className="font-mono text-[--text-secondary]">{index + 1}</td>
+                      <td className="text-[--text-secondary]">{formatTimestamp(execution.executedAt)}</td>
+                      <td className="text-[--text-primary] font-medium">
+                        {formatAmount(execution.amountIn, tokenIn)} {tokenInSymbol}
+                      </td>
+                      <td className="text-[--text-primary] font-medium">
+                        {formatAmount(execution.amountOut, tokenOut)} {tokenOutSymbol}
+                      </td>
+                      <td className="text-[--text-primary]">{formatPrice(toPrice(execution.price))}</td>
+                      <td>
+                        {execution.triggeredBySmartMoney ? (
+                          <span className="inline-flex items-center gap-1.5 text-[#f59e0b]">
+                            Smart money
+                            {execution.whaleWallet && (
+                              <a
+                                href={`${WHALE_EXPLORER_URL}/address/${execution.whaleWallet}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="link-accent font-mono text-xs"
+                                title={
+                                  execution.whaleAmountUsd
+                                    ? `Whale bought $${formatUnits(BigInt(execution.whaleAmountUsd), 6)}`
+                                    : undefined
+                                }
+                              >
+                                {shortAddress(execution.whaleWallet)}
+                              </a>
+                            )}
+                          </span>
+                        ) : (
+                          <span className="text-[--text-secondary]">Scheduled</span>
+                        )}
+                      </td>
+                      <td>
+                        <a
+                          href={`${EXPLORER_URL}/tx/${execution.transactionHash}`}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="link-accent inline-flex items-center gap-1 text-sm"
+                        >
+                          View
+                          <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+                            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+                          </svg>
+                        </a>
+                      </td>
+                    </tr>
+                  ))
+                  .reverse()}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </section>
+    </div>
+  )
+}
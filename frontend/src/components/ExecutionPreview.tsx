@@ -0,0 +1,107 @@
+'use client'
+
+import { formatEther, formatUnits } from 'viem'
+import { useExecutionPreview } from '@/hooks/useExecutionPreview'
+import type { FeeTier } from '@/lib/protocol/routing'
+import type { TokenInfo } from '@/lib/tokens'
+
+interface ExecutionPreviewProps {
+  tokenIn: TokenInfo
+  tokenOut: TokenInfo
+  // Per execution; null until a valid amount is entered
+  amountIn: bigint | null
+  fee: FeeTier
+  executions: number
+}
+
+function formatAmount(value: bigint, decimals: number): string {
+  return Number(formatUnits(value, decimals)).toLocaleString('en-US', { maximumSignificantDigits: 6 })
+}
+
+function formatBps(bps: number | bigint): string {
+  return `${(Number(bps) / 100).toFixed(2)}%`
+}
+
+function Row({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="flex justify-between text-sm">
+      <span className="text-[--text-tertiary]">{label}</span>
+      <span className="text-[--text-primary] font-medium">{value}</span>
+    </div>
+  )
+}
+
+/**
+ * What one execution and the whole schedule would return at today's price,
+ * after the contract's protocol fee and worst-case slippage
+ */
+export function ExecutionPreview({ tokenIn, tokenOut, amountIn, fee, executions }: ExecutionPreviewProps) {
+  const { preview, noLiquidity, isLoading, error, retry } = useExecutionPreview(tokenIn.address, tokenOut.address, amountIn, fee, executions)
+
+  if (!amountIn || executions < 1) {
+    return null
+  }
+
+  return (
+    <div className="glass-card p-5 space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="font-semibold text-[--text-primary]">Cost Preview</h3>
+        {isLoading && <div className="spinner !w-3 !h-3" />}
+      </div>
+
+      {error ? (
+        <p className="text-sm text-[#f87171]">
+          Couldn&apos;t quote one execution: {error}.{' '}
+          <button type="button" onClick={retry} className="link-accent">
+            Retry
+          </button>
+        </p>
+      ) : noLiquidity ? (
+        <p className="text-sm text-[#f87171]">
+          The {tokenIn.symbol} → {tokenOut.symbol} pool at this fee tier can&apos;t fill one execution.
+        </p>
+      ) : !preview ? (
+        <p className="text-sm text-[--text-tertiary]">Quoting one execution…</p>
+      ) : (
+        <div className="space-y-3">
+          <Row
+            label={`Protocol fee (${formatBps(preview.protocolFeeBps)})`}
+            value={`${formatAmount(preview.protocolFee, tokenIn.decimals)} ${tokenIn.symbol}`}
+          />
+          <Row label="Swapped per execution" value={`${formatAmount(preview.swapAmount, tokenIn.decimals)} ${tokenIn.symbol}`} />
+          <Row label="Expected per execution" value={`${formatAmount(preview.expectedOut, tokenOut.decimals)} ${tokenOut.symbol}`} />
+          <Row
+            label={`Minimum (${formatBps(preview.maxSlippageBps)} max slippage)`}
+            value={`${formatAmount(preview.minimumOut, tokenOut.decimals)} ${tokenOut.symbol}`}
+          />
+          <Row
+            label="Executor gas per run"
+            value={`~${preview.gasPerRun.toLocaleString('en-US')} gas${
+              preview.gasCostPerRun !== null
+                ? ` (${Number(formatEther(preview.gasCostPerRun)).toLocaleString('en-US', { maximumSignificantDigits: 3 })} ETH)`
+                : ''
+            }`}
+          />
+          <div className="h-px bg-[--border-subtle]" />
+          <Row
+            label={`Projected total (${executions} executions)`}
+            value={`${formatAmount(preview.totalExpectedOut, tokenOut.decimals)} ${tokenOut.symbol}`}
+          />
+          <Row label="Worst case total" value={`${formatAmount(preview.totalMinimumOut, tokenOut.decimals)} ${tokenOut.symbol}`} />
+          {preview.effectiveFeeBps !== null && preview.worstCaseFeeBps !== null && (
+            <div className="flex justify-between">
+              <span className="text-[--text-secondary] font-medium">Effective fee</span>
+              <span className="text-[--text-primary] font-semibold">
+                {formatBps(preview.effectiveFeeBps)}
+                <span className="text-xs text-[--text-tertiary] font-normal"> (worst case {formatBps(preview.worstCaseFeeBps)})</span>
+              </span>
+            </div>
+          )}
+          <p className="text-xs text-[--text-tertiary]">
+            Protocol and pool fees plus price impact, projected at the current price. Executor gas isn&apos;t charged to you.
+          </p>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,77 @@
+'use client'
+
+import { formatUnits } from 'viem'
+import { sepolia } from 'wagmi/chains'
+import type { UseFundingPreflightReturn, ApprovalStatus } from '@/hooks/useFundingPreflight'
+import type { TokenInfo } from '@/lib/tokens'
+
+const EXPLORER_URL = sepolia.blockExplorers.default.url
+
+const STAGE_LABELS: Record<ApprovalStatus['stage'], string> = {
+  signing: 'confirm in your wallet…',
+  pending: 'waiting for confirmation…',
+  confirmed: 'confirmed',
+  failed: 'failed',
+}
+
+interface FundingPreflightProps {
+  token: TokenInfo
+  // Total pulled at creation; null until the form is filled in
+  required: bigint | null
+  funding: UseFundingPreflightReturn
+}
+
+/**
+ * Balance and allowance against the full schedule, plus the progress of an
+ * ERC-20 approval started from the create flow
+ */
+export function FundingPreflight({ token, required, funding }: FundingPreflightProps) {
+  const { balance, allowance, hasBalance, hasAllowance, approval } = funding
+
+  if (required === null || balance === null || allowance === null) {
+    return null
+  }
+
+  const format = (value: bigint) => `${formatUnits(value, token.decimals)} ${token.symbol}`
+
+  return (
+    <div className="space-y-2">
+      {!hasBalance ? (
+        <div className="glass-card p-4 border border-red-500/20 bg-red-500/5">
+          <p className="text-red-400 text-sm">
+            Insufficient balance: the full schedule needs {format(required)}, your wallet holds {format(balance)}.
+          </p>
+        </div>
+      ) : !hasAllowance ? (
+        <div className="glass-card p-4 border border-[#f59e0b]/20 bg-[#f59e0b]/5">
+          <p className="text-[#f59e0b] text-sm">
+            AutoStack pulls {format(required)} when the strategy is created; {format(allowance)} is approved so far.
+          </p>
+        </div>
+      ) : (
+        <p className="text-xs text-[#10b981]">
+          Balance and allowance cover the full schedule ({format(required)}).
+        </p>
+      )}
+
+      {approval && (
+        <div
+          className={`flex items-center gap-2 text-xs ${
+            approval.stage === 'failed' ? 'text-[#f87171]' : approval.stage === 'confirmed' ? 'text-[#10b981]' : 'text-[--text-secondary]'
+          }`}
+        >
+          {(approval.stage === 'signing' || approval.stage === 'pending') && <div className="spinner !w-3 !h-3" />}
+          <span>
+            Approval {STAGE_LABELS[approval.stage]}
+            {approval.error && `: ${approval.error}`}
+          </span>
+          {approval.hash && (
+            <a href={`${EXPLORER_URL}/tx/${approval.hash}`} target="_blank" rel="noopener noreferrer" className="link-accent">
+              View tx
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,121 @@
+'use client'
+
+export interface ChartPoint {
+  x: number
+  y: number
+}
+
+export interface ChartSeries {
+  label: string
+  color: string
+  points: ChartPoint[]
+  // Hold each value until the next point (running totals)
+  step?: boolean
+  dashed?: boolean
+  area?: boolean
+}
+
+interface LineChartProps {
+  series: ChartSeries[]
+  formatX: (x: number) => string
+  formatY: (y: number) => string
+}
+
+const WIDTH = 600
+const HEIGHT = 220
+const PADDING = { top: 12, right: 12, bottom: 24, left: 64 }
+
+function extent(values: number[]): [number, number] {
+  const min = Math.min(...values)
+  const max = Math.max(...values)
+  // A flat or single-point series still needs a range to draw in
+  if (min === max) {
+    const pad = min === 0 ? 1 : Math.abs(min) * 0.1
+    return [min - pad, max + pad]
+  }
+  return [min, max]
+}
+
+// Dependency-free SVG line chart; series share both axes
+export function LineChart({ series, formatX, formatY }: LineChartProps) {
+  const points = series.flatMap((s) => s.points)
+  if (points.length === 0) {
+    return null
+  }
+
+  const [minX, maxX] = extent(points.map((p) => p.x))
+  const [minY, maxY] = extent(points.map((p) => p.y))
+  const plotWidth = WIDTH - PADDING.left - PADDING.right
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom
+  const toX = (x: number) => PADDING.left + ((x - minX) / (maxX - minX)) * plotWidth
+  const toY = (y: number) => PADDING.top + (1 - (y - minY) / (maxY - minY)) * plotHeight
+  const baseline = PADDING.top + plotHeight
+
+  function path(s: ChartSeries): string {
+    const commands = s.points.map((p, i) => {
+      const x = toX(p.x)
+      const y = toY(p.y)
+      if (i === 0) return `M${x},${y}`
+      return s.step ? `H${x}V${y}` : `L${x},${y}`
+    })
+    return commands.join('')
+  }
+
+  return (
+    <div>
+      <div className="flex flex-wrap gap-4 mb-3">
+        {series.map((s) => (
+          <div key={s.label} className="flex items-center gap-2 text-xs text-[--text-secondary]">
+            <span className="w-3 h-0.5 rounded-full" style={{ background: s.color }} />
+            {s.label}
+          </div>
+        ))}
+      </div>
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img">
+        {/* Grid */}
+        {[0, 0.5, 1].map((t) => {
+          const y = PADDING.top + t * plotHeight
+          return (
+            <g key={t}>
+              <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y} y2={y} stroke="var(--border-subtle)" />
+              <text x={PADDING.left - 8} y={y + 4} textAnchor="end" fontSize="11" fill="var(--text-tertiary)">
+                {formatY(maxY - t * (maxY - minY))}
+              </text>
+            </g>
+          )
+        })}
+        <text x={PADDING.left} y={HEIGHT - 6} fontSize="11" fill="var(--text-tertiary)">
+          {formatX(minX)}
+        </text>
+        <text x={WIDTH - PADDING.right} y={HEIGHT - 6} textAnchor="end" fontSize="11" fill="var(--text-tertiary)">
+          {formatX(maxX)}
+        </text>
+
+        {series.map((s) => {
+          if (s.points.length === 0) return null
+          const d = path(s)
+          const last = s.points[s.points.length - 1]
+          return (
+            <g key={s.label}>
+              {s.area && (
+                <path
+                  d={`${d}V${baseline}H${toX(s.points[0].x)}Z`}
+                  fill={s.color}
+                  fillOpacity={0.12}
+                />
+              )}
+              <path
+                d={d}
+                fill="none"
+                stroke={s.color}
+                strokeWidth={2}
+                strokeDasharray={s.dashed ? '6 4' : undefined}
+              />
+              {s.points.length === 1 && <circle cx={toX(last.x)} cy={toY(last.y)} r={3} fill={s.color} />}
+            </g>
+          )
+        })}
+      </svg>
+    </div>
+  )
+}
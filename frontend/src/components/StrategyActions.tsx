@@ -0,0 +1,210 @@
+'use client'
+
+import { useState } from 'react'
+import { formatUnits } from 'viem'
+import { useReadContract } from 'wagmi'
+import { sepolia } from 'wagmi/chains'
+import { SmartMoneyConfig, type SmartMoneyConfigData } from '@/components/SmartMoneyConfig'
+import type { UseStrategyActionsReturn, StrategyAction, ActionStatus } from '@/hooks/useStrategyActions'
+import { AUTOSTACK_DCA_V2_ABI, AUTOSTACK_DCA_V2_ADDRESS, STRATEGY_TYPES } from '@/lib/contracts'
+import { getTokenDecimals, getTokenSymbol } from '@/lib/tokens'
+
+const EXPLORER_URL = sepolia.blockExplorers.default.url
+
+const ACTION_LABELS: Record<StrategyAction, string> = {
+  pause: 'Pause',
+  resume: 'Resume',
+  cancel: 'Cancel',
+  topUp: 'Top-up',
+  edit: 'Config update',
+}
+
+const STAGE_LABELS: Record<ActionStatus['stage'], string> = {
+  approving: 'approve the token in your wallet…',
+  signing: 'confirm in your wallet…',
+  pending: 'waiting for confirmation…',
+  confirmed: 'confirmed',
+  failed: 'failed',
+}
+
+type Panel = 'topUp' | 'edit' | 'cancel' | null
+
+interface StrategyActionsProps {
+  actions: UseStrategyActionsReturn
+}
+
+function TxStatus({ status }: { status: ActionStatus }) {
+  const color =
+    status.stage === 'failed' ? 'text-[#f87171]' : status.stage === 'confirmed' ? 'text-[#10b981]' : 'text-[--text-secondary]'
+
+  return (
+    <div className={`flex items-center gap-2 text-xs ${color}`}>
+      {['approving', 'signing', 'pending'].includes(status.stage) && <div className="spinner !w-3 !h-3" />}
+      <span>
+        {ACTION_LABELS[status.action]} {STAGE_LABELS[status.stage]}
+        {status.error && `: ${status.error}`}
+      </span>
+      {status.hash && (
+        <a href={`${EXPLORER_URL}/tx/${status.hash}`} target="_blank" rel="noopener noreferrer" className="link-accent">
+          View tx
+        </a>
+      )}
+    </div>
+  )
+}
+
+// Prefilled from the on-chain config; edits are kept locally until submitted
+function EditSmartMoneyConfig({ actions, onDone }: StrategyActionsProps & { onDone: () => void }) {
+  const { strategy, isBusy, updateSmartMoneyConfig } = actions
+  const [draft, setDraft] = useState<SmartMoneyConfigData | null>(null)
+  const { data: onChain, isLoading } = useReadContract({
+    address: AUTOSTACK_DCA_V2_ADDRESS,
+    abi: AUTOSTACK_DCA_V2_ABI,
+    functionName: 'getSmartMoneyConfig',
+    args: [BigInt(strategy.strategyId)],
+  })
+
+  if (isLoading || !onChain) {
+    return <div className="spinner mx-auto my-4" />
+  }
+
+  const config = draft ?? {
+    minWhaleAmount: Number(onChain.minWhaleAmount / 10n ** 6n),
+    minLabelScore: onChain.minLabelScore,
+    signalThreshold: onChain.signalThreshold,
+    signalWindow: Number(onChain.signalWindow / 3600n),
+  }
+
+  return (
+    <div className="space-y-4">
+      <SmartMoneyConfig
+        config={config}
+        onChange={setDraft}
+        showSignalAccumulation={strategy.strategyType === STRATEGY_TYPES.HYBRID}
+      />
+      <div className="flex gap-2">
+        <button
+          className="btn-primary flex-1 py-2 text-sm"
+          disabled={isBusy || !draft}
+          onClick={async () => {
+            await updateSmartMoneyConfig(config, onChain.enabled)
+            onDone()
+          }}
+        >
+          Save config
+        </button>
+        <button className="btn-secondary py-2 text-sm" onClick={onDone}>
+          Close
+        </button>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Pause/resume, top-up, smart money config and cancel controls for the
+ * strategy's owner. Renders nothing for anyone else, and only the last
+ * transaction's status once the strategy has closed.
+ */
+export function StrategyActions({ actions }: StrategyActionsProps) {
+  const { strategy, status, isBusy, isOwner, pause, resume, cancel, topUp } = actions
+  const [panel, setPanel] = useState<Panel>(null)
+  const [additional, setAdditional] = useState('1')
+
+  if (!isOwner || (!strategy.isActive && !status)) {
+    return null
+  }
+
+  const tokenSymbol = getTokenSymbol(strategy.tokenIn)
+  const additionalCount = parseInt(additional) || 0
+  const topUpAmount = formatUnits(
+    BigInt(strategy.amountPerExecution) * BigInt(additionalCount),
+    getTokenDecimals(strategy.tokenIn)
+  )
+  // updateSmartMoneyConfig only accepts these types
+  const canEdit =
+    strategy.strategyType === STRATEGY_TYPES.SMART_MONEY_DCA || strategy.strategyType === STRATEGY_TYPES.HYBRID
+  const toggle = (next: Panel) => setPanel(panel === next ? null : next)
+
+  return (
+    <div className="space-y-3">
+      {strategy.isActive && (
+        <div className="flex flex-wrap gap-2">
+          <button
+            className="btn-secondary px-3 py-1.5 text-xs"
+            disabled={isBusy}
+            onClick={strategy.paused ? resume : pause}
+          >
+            {strategy.paused ? 'Resume' : 'Pause'}
+          </button>
+          <button className="btn-secondary px-3 py-1.5 text-xs" disabled={isBusy} onClick={() => toggle('topUp')}>
+            Top up
+          </button>
+          {canEdit && (
+            <button className="btn-secondary px-3 py-1.5 text-xs" disabled={isBusy} onClick={() => toggle('edit')}>
+              Edit triggers
+            </button>
+          )}
+          <button
+            className="btn-secondary px-3 py-1.5 text-xs text-[#f87171]"
+            disabled={isBusy}
+            onClick={() => toggle('cancel')}
+          >
+            Cancel
+          </button>
+        </div>
+      )}
+
+      {panel === 'topUp' && strategy.isActive && (
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min={1}
+            value={additional}
+            onChange={(e) => setAdditional(e.target.value)}
+            className="input-field !py-2 !text-sm w-24"
+            aria-label="Additional executions"
+          />
+          <span className="text-xs text-[--text-tertiary] flex-1">
+            executions = {topUpAmount} {tokenSymbol}
+          </span>
+          <button
+            className="btn-primary px-3 py-1.5 text-xs"
+            disabled={isBusy || additionalCount < 1}
+            onClick={async () => {
+              await topUp(additionalCount)
+              setPanel(null)
+            }}
+          >
+            Add
+          </button>
+        </div>
+      )}
+
+      {panel === 'edit' && strategy.isActive && <EditSmartMoneyConfig actions={actions} onDone={() => setPanel(null)} />}
+
+      {panel === 'cancel' && strategy.isActive && (
+        <div className="flex items-center gap-2 text-xs">
+          <span className="text-[--text-secondary] flex-1">
+            Cancel and refund the remaining {tokenSymbol}?
+          </span>
+          <button
+            className="btn-primary px-3 py-1.5 text-xs"
+            disabled={isBusy}
+            onClick={async () => {
+              setPanel(null)
+              await cancel()
+            }}
+          >
+            Confirm
+          </button>
+          <button className="btn-secondary px-3 py-1.5 text-xs" onClick={() => setPanel(null)}>
+            Keep
+          </button>
+        </div>
+      )}
+
+      {status && <TxStatus status={status} />}
+    </div>
+  )
+}
@@ -1,15 +1,21 @@
 'use client'
 
+import Link from 'next/link'
 import { formatUnits } from 'viem'
 import type { Strategy } from '@/lib/envio'
 import { getTokenSymbol, getTokenLogo, getTokenDecimals } from '@/lib/tokens'
 import { STRATEGY_TYPES } from '@/lib/contracts'
+import type { StrategyChange } from '@/hooks/useLiveStrategies'
+import { useStrategyActions } from '@/hooks/useStrategyActions'
+import { StrategyActions } from '@/components/StrategyActions'
 
 interface StrategyCardProps {
   strategy: Strategy
+  // Set once the dashboard sees this strategy execute or change status
+  change?: StrategyChange
 }
 
-function formatFrequency(frequency: string): string {
+export function formatFrequency(frequency: string): string {
   const seconds = BigInt(frequency)
   if (seconds === 3600n) return 'Hourly'
   if (seconds === 86400n) return 'Daily'
@@ -19,7 +25,7 @@ function formatFrequency(frequency: string): string {
   return `Every ${seconds / 86400n} days`
 }
 
-function formatTimestamp(timestamp: string): string {
+export function formatTimestamp(timestamp: string): string {
   if (!timestamp || timestamp === '0') return 'Never'
   const date = new Date(Number(timestamp) * 1000)
   return date.toLocaleDateString('en-US', {
@@ -30,7 +36,7 @@ function formatTimestamp(timestamp: string): string {
   })
 }
 
-function getStrategyTypeInfo(strategyType?: number): { name: string; color: string; gradient: string } {
+export function getStrategyTypeInfo(strategyType?: number): { name: string; color: string; gradient: string } {
   switch (strategyType) {
     case STRATEGY_TYPES.SMART_MONEY_DCA:
       return { name: 'Smart Money', color: 'text-[#f59e0b]', gradient: 'from-[#f59e0b] to-[#d97706]' }
@@ -43,7 +49,15 @@ function getStrategyTypeInfo(strategyType?: number): { name: string; color: stri
   }
 }
 
-export function StrategyCard({ strategy }: StrategyCardProps) {
+export function getStatusBadge(strategy: Strategy): { label: string; className: string } {
+  if (!strategy.isActive) return { label: strategy.status, className: 'badge-inactive' }
+  if (strategy.paused) return { label: 'Paused', className: 'badge-paused' }
+  return { label: 'Active', className: 'badge-active' }
+}
+
+export function StrategyCard({ strategy: indexed, change }: StrategyCardProps) {
+  const actions = useStrategyActions(indexed)
+  const { strategy } = actions
   const tokenInSymbol = getTokenSymbol(strategy.tokenIn)
   const tokenOutSymbol = getTokenSymbol(strategy.tokenOut)
   const tokenInLogo = getTokenLogo(strategy.tokenIn)
@@ -53,9 +67,15 @@ export function StrategyCard({ strategy }: StrategyCardProps) {
   const progress = (Number(strategy.executionsCompleted) / Number(strategy.totalExecutions)) * 100
   const strategyTypeInfo = getStrategyTypeInfo(strategy.strategyType)
   const isSmartMoney = strategy.strategyType && strategy.strategyType !== STRATEGY_TYPES.BASIC_DCA
+  // Keying on the change's seq remounts the animated elements so each change replays
+  const statusKey = change?.kind === 'status' ? change.seq : 0
+  const executionKey = change?.kind === 'execution' ? change.seq : 0
+  const statusBadge = getStatusBadge(strategy)
 
   return (
-    <div className="glass-card p-6 hover:border-[--border-default] transition-all duration-300 group">
+    <div className="glass-card p-6 hover:border-[--border-default] transition-all duration-300 group relative">
+      {change && <span key={change.seq} className={`live-flash live-flash-${change.kind}`} aria-hidden />}
+
       {/* Header */}
       <div className="flex items-center justify-between mb-5">
         <div className="flex items-center gap-3">
@@ -92,8 +112,11 @@ export function StrategyCard({ strategy }: StrategyCardProps) {
           <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full bg-gradient-to-r ${strategyTypeInfo.gradient} text-white`}>
             {strategyTypeInfo.name}
           </span>
-          <span className={`badge ${strategy.isActive ? 'badge-active' : 'badge-inactive'}`}>
-            {strategy.isActive ? 'Active' : strategy.status}
+          <span
+            key={statusKey}
+            className={`badge ${statusBadge.className} ${statusKey ? 'live-pop' : ''}`}
+          >
+            {statusBadge.label}
           </span>
         </div>
       </div>
@@ -134,7 +157,7 @@ export function StrategyCard({ strategy }: StrategyCardProps) {
         <div>
           <div className="flex justify-between items-center mb-2">
             <span className="text-sm text-[--text-tertiary]">Progress</span>
-            <span className="text-sm font-semibold text-[--text-primary]">
+            <span key={executionKey} className={`text-sm font-semibold text-[--text-primary] ${executionKey ? 'live-pop' : ''}`}>
               {strategy.executionsCompleted} / {strategy.totalExecutions}
             </span>
           </div>
@@ -152,15 +175,25 @@ export function StrategyCard({ strategy }: StrategyCardProps) {
         </div>
       </div>
 
+      {/* Owner actions */}
+      <div className="mt-5">
+        <StrategyActions actions={actions} />
+      </div>
+
       {/* Footer */}
       <div className="mt-5 pt-4 border-t border-[--border-subtle] flex items-center justify-between">
         <span className="text-xs text-[--text-muted] font-mono">ID: {strategy.strategyId}</span>
-        {strategy.isActive && (
-          <div className="flex items-center gap-1.5">
-            <span className="w-1.5 h-1.5 rounded-full bg-[#10b981] pulse-animation" />
-            <span className="text-xs text-[#10b981]">Running</span>
-          </div>
-        )}
+        <div className="flex items-center gap-4">
+          {strategy.isActive && !strategy.paused && (
+            <div className="flex items-center gap-1.5">
+              <span className="w-1.5 h-1.5 rounded-full bg-[#10b981] pulse-animation" />
+              <span className="text-xs text-[#10b981]">Running</span>
+            </div>
+          )}
+          <Link href={`/strategy/${strategy.strategyId}`} className="link-accent text-xs">
+            Details →
+          </Link>
+        </div>
       </div>
     </div>
   )
@@ -1,8 +1,9 @@
 'use client'
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect } from 'react'
 import { parseUnits } from 'viem'
 import { sepolia } from 'viem/chains'
+import { useChainId } from 'wagmi'
 import { useSessionAccount } from '@/providers/SessionAccountProvider'
 
 // Extend Window interface for ethereum
@@ -43,18 +44,47 @@ export interface UseAdvancedPermissionsReturn {
   isRequesting: boolean
   error: string | null
   isMetaMaskFlask: boolean
+  // Flask on Sepolia; other wallets have to fall back to ERC-20 approval
+  isAvailable: boolean
   checkFlaskInstalled: () => Promise<boolean>
 }
 
 // Storage key for permissions
 const PERMISSIONS_STORAGE_KEY = 'autostack_permissions'
 
+async function detectFlask(): Promise<boolean> {
+  if (typeof window === 'undefined' || !window.ethereum) {
+    return false
+  }
+
+  try {
+    const clientVersion = await window.ethereum.request({
+      method: 'web3_clientVersion',
+    }) as string
+    return clientVersion?.toLowerCase().includes('flask') ?? false
+  } catch {
+    return false
+  }
+}
+
 export function useAdvancedPermissions(): UseAdvancedPermissionsReturn {
   const { sessionAddress, walletClient, initializeSessionAccount } = useSessionAccount()
   const [grantedPermissions, setGrantedPermissions] = useState<GrantedPermission[] | null>(null)
   const [isRequesting, setIsRequesting] = useState(false)
   const [error, setError] = useState<string | null>(null)
   const [isMetaMaskFlask, setIsMetaMaskFlask] = useState(false)
+  const chainId = useChainId()
+
+  // Detect Flask up front so the create flow can offer ERC-20 approval instead
+  useEffect(() => {
+    let cancelled = false
+    detectFlask().then((isFlask) => {
+      if (!cancelled) setIsMetaMaskFlask(isFlask)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [])
 
   // Check if MetaMask Flask is installed (required for ERC-7715)
   // Note: This is a soft check - we'll attempt the permission request anyway
@@ -64,20 +94,10 @@ export function useAdvancedPermissions(): UseAdvancedPermissionsReturn {
       return false
     }
 
-    try {
-      // Try to detect Flask by checking for snaps capability
-      // This is a best-effort check - we proceed regardless
-      const clientVersion = await window.ethereum.request({
-        method: 'web3_clientVersion',
-      }) as string
-
-      const isFlask = clientVersion?.toLowerCase().includes('flask') ||
-                      clientVersion?.toLowerCase().includes('metamask')
-      setIsMetaMaskFlask(isFlask)
-      return true // Always return true to proceed - let the actual request fail if not supported
-    } catch {
-      return true // Proceed anyway - the actual permission request will fail with a clear error
-    }
+    // Best-effort check - we proceed regardless and let the actual request
+    // fail with a clear error if permissions aren't supported
+    setIsMetaMaskFlask(await detectFlask())
+    return true
   }, [])
 
   // Request ERC-7715 periodic permission for ERC-20 token spending
@@ -197,6 +217,7 @@ export function useAdvancedPermissions(): UseAdvancedPermissionsReturn {
     isRequesting,
     error,
     isMetaMaskFlask,
+    isAvailable: isMetaMaskFlask && chainId === sepolia.id,
     checkFlaskInstalled,
   }
 }
@@ -0,0 +1,144 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useGasPrice, usePublicClient, useReadContracts } from 'wagmi'
+import { sepolia } from 'wagmi/chains'
+import { AUTOSTACK_DCA_V2_ABI, AUTOSTACK_DCA_V2_ADDRESS } from '@/lib/contracts'
+import { minimumAmountOut, type FeeTier } from '@/lib/protocol/routing'
+import { QUOTE_DEBOUNCE_MS, quoteErrorMessage, quotePool, type PoolQuote } from '@/hooks/usePoolQuotes'
+
+// executeDCA's own work around the swap: fee transfer, router approval,
+// strategy storage writes and the DCAExecuted event
+const EXECUTION_OVERHEAD_GAS = 90_000n
+
+export interface ExecutionPreview {
+  protocolFeeBps: bigint
+  maxSlippageBps: bigint
+  // One execution, as AutoStackDCAV2._executeSwap splits it
+  protocolFee: bigint
+  swapAmount: bigint
+  expectedOut: bigint
+  minimumOut: bigint
+  // Paid by the executor, not the strategy owner
+  gasPerRun: bigint
+  gasCostPerRun: bigint | null
+  // Over every execution, at today's price
+  totalExpectedOut: bigint
+  totalMinimumOut: bigint
+  // Output lost to protocol and pool fees plus price impact, against the
+  // pool's fee-free rate; the worst case adds the contract's slippage bound
+  effectiveFeeBps: number | null
+  worstCaseFeeBps: number | null
+}
+
+export interface UseExecutionPreviewReturn {
+  preview: ExecutionPreview | null
+  // Set when the pool can't fill one execution
+  noLiquidity: boolean
+  isLoading: boolean
+  // Set when the quote itself failed (RPC error, rate limit)
+  error: string | null
+  retry: () => void
+}
+
+function lostBps(amountOut: bigint, fairAmountOut: bigint | null): number | null {
+  if (!fairAmountOut) return null
+  const lost = 10_000n - (amountOut * 10_000n) / fairAmountOut
+  return Number(lost > 0n ? lost : 0n)
+}
+
+/**
+ * Quote one execution of a strategy that doesn't exist yet, using the live
+ * contract's fee and slippage settings, and project it over the schedule
+ */
+export function useExecutionPreview(
+  tokenIn: `0x${string}`,
+  tokenOut: `0x${string}`,
+  amountIn: bigint | null,
+  fee: FeeTier,
+  executions: number
+): UseExecutionPreviewReturn {
+  const publicClient = usePublicClient({ chainId: sepolia.id })
+  const { data: gasPrice } = useGasPrice({ chainId: sepolia.id })
+  const { data: settings } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: AUTOSTACK_DCA_V2_ADDRESS, abi: AUTOSTACK_DCA_V2_ABI, functionName: 'protocolFeeBps', chainId: sepolia.id },
+      { address: AUTOSTACK_DCA_V2_ADDRESS, abi: AUTOSTACK_DCA_V2_ABI, functionName: 'maxSlippageBps', chainId: sepolia.id },
+    ],
+  })
+
+  const [protocolFeeBps, maxSlippageBps] = settings ?? [null, null]
+  const protocolFee = amountIn !== null && protocolFeeBps !== null ? (amountIn * protocolFeeBps) / 10_000n : null
+  const swapAmount = amountIn !== null && protocolFee !== null ? amountIn - protocolFee : null
+
+  // Bumped by retry() so the same inputs are quoted again
+  const [attempt, setAttempt] = useState(0)
+  const key = `${tokenIn}:${tokenOut}:${swapAmount}:${fee}:${attempt}`
+  const [result, setResult] = useState<{ key: string; quote: PoolQuote | null; error: string | null } | null>(null)
+
+  useEffect(() => {
+    if (!publicClient || !swapAmount) return
+    let cancelled = false
+
+    const timer = setTimeout(async () => {
+      try {
+        const quote = await quotePool(publicClient, tokenIn, tokenOut, swapAmount, fee)
+        if (!cancelled) {
+          setResult({ key, quote, error: null })
+        }
+      } catch (err) {
+        console.error('Execution preview quote failed:', err)
+        if (!cancelled) {
+          setResult({ key, quote: null, error: quoteErrorMessage(err) })
+        }
+      }
+    }, QUOTE_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [publicClient, tokenIn, tokenOut, swapAmount, fee, key])
+
+  const current = result?.key === key ? result : null
+  const quote = current?.quote ?? null
+  const error = current?.error ?? null
+  const isLoading = swapAmount !== null && swapAmount > 0n && !current
+  const retry = () => setAttempt((n) => n + 1)
+
+  if (!quote || quote.amountOut === null || !amountIn || protocolFee === null || swapAmount === null) {
+    return { preview: null, noLiquidity: quote !== null && quote.amountOut === null, isLoading, error, retry }
+  }
+
+  const expectedOut = quote.amountOut
+  const minimumOut = minimumAmountOut(expectedOut, maxSlippageBps!)
+  // The whole amount at the pool's spot rate with its LP fee backed out
+  const fairAmountOut = quote.spotAmountOut
+    ? (quote.spotAmountOut * amountIn * 1_000_000n) / (swapAmount * (1_000_000n - BigInt(fee)))
+    : null
+  // executeDCA quotes on-chain before it swaps, so the quoter's estimate counts twice
+  const gasPerRun = quote.gasEstimate! * 2n + EXECUTION_OVERHEAD_GAS
+  const runs = BigInt(executions)
+
+  return {
+    preview: {
+      protocolFeeBps: protocolFeeBps!,
+      maxSlippageBps: maxSlippageBps!,
+      protocolFee,
+      swapAmount,
+      expectedOut,
+      minimumOut,
+      gasPerRun,
+      gasCostPerRun: gasPrice ? gasPerRun * gasPrice : null,
+      totalExpectedOut: expectedOut * runs,
+      totalMinimumOut: minimumOut * runs,
+      effectiveFeeBps: lostBps(expectedOut, fairAmountOut),
+      worstCaseFeeBps: lostBps(minimumOut, fairAmountOut),
+    },
+    noLiquidity: false,
+    isLoading,
+    error: null,
+    retry,
+  }
+}
@@ -0,0 +1,88 @@
+'use client'
+
+import { useState } from 'react'
+import { BaseError, type Hash } from 'viem'
+import { useAccount, usePublicClient, useReadContracts, useWriteContract } from 'wagmi'
+import { AUTOSTACK_DCA_V2_ADDRESS, ERC20_ABI } from '@/lib/contracts'
+
+export interface ApprovalStatus {
+  stage: 'signing' | 'pending' | 'confirmed' | 'failed'
+  hash?: Hash
+  error?: string
+}
+
+export interface UseFundingPreflightReturn {
+  balance: bigint | null
+  allowance: bigint | null
+  // False only once the reads show a shortfall against `required`
+  hasBalance: boolean
+  hasAllowance: boolean
+  isLoading: boolean
+  approval: ApprovalStatus | null
+  // Approve the contract for exactly `required`
+  approve: () => Promise<void>
+}
+
+function errorMessage(err: unknown): string {
+  if (err instanceof BaseError) return err.shortMessage
+  return err instanceof Error ? err.message : 'Approval failed'
+}
+
+/**
+ * The connected wallet's balance of `token` and its allowance to AutoStackDCAV2,
+ * checked against `required`. Strategy creation pulls the whole schedule up
+ * front, so both must cover it whichever way the user authorises executions.
+ */
+export function useFundingPreflight(token: `0x${string}`, required: bigint | null): UseFundingPreflightReturn {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { writeContractAsync } = useWriteContract()
+  const [approval, setApproval] = useState<ApprovalStatus | null>(null)
+
+  const { data, isLoading, refetch } = useReadContracts({
+    allowFailure: false,
+    contracts: [
+      { address: token, abi: ERC20_ABI, functionName: 'balanceOf', args: [address!] },
+      { address: token, abi: ERC20_ABI, functionName: 'allowance', args: [address!, AUTOSTACK_DCA_V2_ADDRESS] },
+    ],
+    query: { enabled: !!address },
+  })
+
+  const [balance, allowance] = data ?? [null, null]
+
+  async function approve() {
+    if (!publicClient || !required) return
+
+    let hash: Hash | undefined
+    setApproval({ stage: 'signing' })
+    try {
+      hash = await writeContractAsync({
+        address: token,
+        abi: ERC20_ABI,
+        functionName: 'approve',
+        args: [AUTOSTACK_DCA_V2_ADDRESS, required],
+      })
+      setApproval({ stage: 'pending', hash })
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      if (receipt.status === 'reverted') {
+        throw new Error('Transaction reverted')
+      }
+      await refetch()
+      setApproval({ stage: 'confirmed', hash })
+    } catch (err) {
+      console.error('Approval failed:', err)
+      setApproval({ stage: 'failed', hash, error: errorMessage(err) })
+    }
+  }
+
+  return {
+    balance,
+    allowance,
+    hasBalance: balance === null || required === null || balance >= required,
+    hasAllowance: allowance === null || required === null || allowance >= required,
+    isLoading,
+    approval,
+    approve,
+  }
+}
@@ -0,0 +1,169 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { getAllExecutionsByUser, getUserStrategies, type Execution, type Strategy } from '@/lib/envio'
+
+// How often the dashboard asks the indexer for new rows
+export const POLL_INTERVAL_MS = parseInt(process.env.NEXT_PUBLIC_DASHBOARD_POLL_MS || '5000')
+const MAX_EXECUTIONS = 50
+
+// The latest change a poll saw on a strategy; `seq` goes up with every change
+// so the card can replay its animation
+export interface StrategyChange {
+  kind: 'execution' | 'status'
+  seq: number
+}
+
+interface LiveData {
+  strategies: Strategy[]
+  executions: Execution[]
+  // Executions that arrived after the first load, for highlighting
+  freshExecutionIds: ReadonlySet<string>
+  changes: Readonly<Record<string, StrategyChange>>
+}
+
+export interface UseLiveStrategiesReturn extends LiveData {
+  isLoading: boolean
+  error: string | null
+  // False while the last poll failed; the data shown is from the last good poll
+  isLive: boolean
+}
+
+const EMPTY: LiveData = { strategies: [], executions: [], freshExecutionIds: new Set(), changes: {} }
+
+function byNewest<T>(getKey: (row: T) => string) {
+  return (a: T, b: T) => {
+    const diff = BigInt(getKey(b)) - BigInt(getKey(a))
+    return diff > 0n ? 1 : diff < 0n ? -1 : 0
+  }
+}
+
+function maxBlock(blocks: string[], current?: string): string | undefined {
+  return blocks.reduce<string | undefined>(
+    (max, block) => (max === undefined || BigInt(block) > BigInt(max) ? block : max),
+    current
+  )
+}
+
+function upsert<T extends { id: string }>(rows: T[], updates: T[]): T[] {
+  const merged = new Map(rows.map((row) => [row.id, row]))
+  for (const row of updates) {
+    merged.set(row.id, row)
+  }
+  return [...merged.values()]
+}
+
+function detectChanges(previous: LiveData, strategies: Strategy[]): Record<string, StrategyChange> {
+  const changes = { ...previous.changes }
+  for (const strategy of strategies) {
+    const before = previous.strategies.find((s) => s.id === strategy.id)
+    if (!before) continue
+
+    const kind =
+      before.status !== strategy.status || before.paused !== strategy.paused
+        ? 'status'
+        : BigInt(strategy.executionsCompleted) > BigInt(before.executionsCompleted)
+          ? 'execution'
+          : undefined
+    if (kind) {
+      changes[strategy.id] = { kind, seq: (changes[strategy.id]?.seq ?? 0) + 1 }
+    }
+  }
+  return changes
+}
+
+function merge(previous: LiveData, strategies: Strategy[], executions: Execution[]): LiveData {
+  const known = new Set(previous.executions.map((e) => e.id))
+  const arrived = executions.filter((e) => !known.has(e.id)).map((e) => e.id)
+
+  return {
+    strategies: upsert(previous.strategies, strategies).sort(byNewest((s) => s.createdAt)),
+    executions: upsert(previous.executions, executions)
+      .sort(byNewest((e) => e.executedAtBlock))
+      .slice(0, MAX_EXECUTIONS),
+    freshExecutionIds: arrived.length > 0 ? new Set([...previous.freshExecutionIds, ...arrived]) : previous.freshExecutionIds,
+    changes: detectChanges(previous, strategies),
+  }
+}
+
+/**
+ * A user's strategies and executions, kept current by polling the indexer.
+ * After the first load each poll only asks for rows indexed since the highest
+ * block already seen, so a quiet dashboard costs two small queries per interval.
+ */
+export function useLiveStrategies(address?: string): UseLiveStrategiesReturn {
+  const [data, setData] = useState<LiveData>(EMPTY)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [isLive, setIsLive] = useState(false)
+
+  // Start over when the connected account changes
+  const [trackedAddress, setTrackedAddress] = useState(address)
+  if (trackedAddress !== address) {
+    setTrackedAddress(address)
+    setData(EMPTY)
+    setIsLoading(true)
+    setError(null)
+    setIsLive(false)
+  }
+
+  useEffect(() => {
+    if (!address) return
+
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let loaded = false
+    let strategyCursor: string | undefined
+    let executionCursor: string | undefined
+
+    async function poll() {
+      // Nobody is watching a hidden tab; pick up where we left off when it's shown
+      if (loaded && document.visibilityState === 'hidden') {
+        timer = setTimeout(poll, POLL_INTERVAL_MS)
+        return
+      }
+
+      try {
+        const [strategies, executions] = await Promise.all([
+          getUserStrategies(address!, strategyCursor),
+          getAllExecutionsByUser(address!, executionCursor),
+        ])
+        if (cancelled) return
+
+        strategyCursor = maxBlock(strategies.map((s) => s.updatedAtBlock), strategyCursor)
+        executionCursor = maxBlock(executions.map((e) => e.executedAtBlock), executionCursor)
+
+        if (loaded) {
+          setData((previous) => merge(previous, strategies, executions))
+        } else {
+          setData({ ...EMPTY, strategies, executions })
+          loaded = true
+        }
+        setError(null)
+        setIsLive(true)
+      } catch (err) {
+        if (cancelled) return
+        console.error('Error fetching data:', err)
+        // Once data is on screen, keep it and retry rather than replace it with an error
+        if (!loaded) {
+          setError('Failed to load data. Make sure Envio indexer is running.')
+        }
+        setIsLive(false)
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false)
+          timer = setTimeout(poll, POLL_INTERVAL_MS)
+        }
+      }
+    }
+
+    poll()
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [address])
+
+  return { ...data, isLoading, error, isLive }
+}
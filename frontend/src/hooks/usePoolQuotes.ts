@@ -0,0 +1,121 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { BaseError } from 'viem'
+import { usePublicClient } from 'wagmi'
+import { sepolia } from 'wagmi/chains'
+import { FEE_TIERS, quoteRoute, type FeeTier, type QuoteClient } from '@/lib/protocol/routing'
+
+export interface PoolQuote {
+  fee: FeeTier
+  // Null when there's no pool at this tier, or it can't fill the amount
+  amountOut: bigint | null
+  // The amount priced at the pool's rate for a tiny swap, i.e. without impact
+  spotAmountOut: bigint | null
+  // How far amountOut falls short of spotAmountOut
+  priceImpactBps: number | null
+  // QuoterV2's gas estimate for the swap
+  gasEstimate: bigint | null
+}
+
+export interface UsePoolQuotesReturn {
+  quotes: PoolQuote[]
+  // Tier with the highest output, if any pool exists
+  best: PoolQuote | null
+  isLoading: boolean
+  // Set when quoting failed (RPC error, rate limit), as opposed to no pool
+  error: string | null
+  retry: () => void
+}
+
+// Wait for typing to settle before quoting
+export const QUOTE_DEBOUNCE_MS = 400
+
+// The reference swap for price impact is this fraction of the amount
+const REFERENCE_DIVISOR = 1000n
+
+export function quoteErrorMessage(err: unknown): string {
+  if (err instanceof BaseError) return err.shortMessage
+  return err instanceof Error ? err.message : 'Quote failed'
+}
+
+/**
+ * Quote `amountIn` through the direct pool at one fee tier, with a reference
+ * quote a thousandth the size for its price impact
+ */
+export async function quotePool(
+  client: QuoteClient,
+  tokenIn: `0x${string}`,
+  tokenOut: `0x${string}`,
+  amountIn: bigint,
+  fee: FeeTier
+): Promise<PoolQuote> {
+  const referenceIn = amountIn / REFERENCE_DIVISOR
+  const [route, reference] = await Promise.all([
+    quoteRoute(client, sepolia.id, [tokenIn, tokenOut], [fee], amountIn),
+    referenceIn > 0n ? quoteRoute(client, sepolia.id, [tokenIn, tokenOut], [fee], referenceIn) : null,
+  ])
+
+  const spotAmountOut = reference ? (reference.amountOut * amountIn) / referenceIn : null
+  const shortfall = route && spotAmountOut ? 10_000n - (route.amountOut * 10_000n) / spotAmountOut : null
+
+  return {
+    fee,
+    amountOut: route?.amountOut ?? null,
+    spotAmountOut,
+    priceImpactBps: shortfall === null ? null : Number(shortfall > 0n ? shortfall : 0n),
+    gasEstimate: route?.gasEstimate ?? null,
+  }
+}
+
+/**
+ * QuoterV2 output for swapping `amountIn` through the direct pool at each
+ * Uniswap fee tier on Sepolia, refreshed whenever the pair or amount changes
+ */
+export function usePoolQuotes(tokenIn: `0x${string}`, tokenOut: `0x${string}`, amountIn: bigint): UsePoolQuotesReturn {
+  const publicClient = usePublicClient({ chainId: sepolia.id })
+  // Bumped by retry() so the same inputs are quoted again
+  const [attempt, setAttempt] = useState(0)
+  const key = `${tokenIn}:${tokenOut}:${amountIn}:${attempt}`
+  const [result, setResult] = useState<{ key: string; quotes: PoolQuote[]; error: string | null } | null>(null)
+
+  useEffect(() => {
+    if (!publicClient || amountIn <= 0n) return
+    let cancelled = false
+
+    const timer = setTimeout(async () => {
+      try {
+        const quotes = await Promise.all(
+          FEE_TIERS.map((fee) => quotePool(publicClient, tokenIn, tokenOut, amountIn, fee))
+        )
+        if (!cancelled) {
+          setResult({ key, quotes, error: null })
+        }
+      } catch (err) {
+        console.error('Pool quotes failed:', err)
+        if (!cancelled) {
+          setResult({ key, quotes: [], error: quoteErrorMessage(err) })
+        }
+      }
+    }, QUOTE_DEBOUNCE_MS)
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [publicClient, tokenIn, tokenOut, amountIn, key])
+
+  const quotes = result?.key === key ? result.quotes : []
+  const best = quotes.reduce<PoolQuote | null>(
+    (best, quote) => (quote.amountOut !== null && (!best || quote.amountOut > best.amountOut!) ? quote : best),
+    null
+  )
+
+  return {
+    quotes,
+    best,
+    isLoading: amountIn > 0n && result?.key !== key,
+    error: result?.key === key ? result.error : null,
+    retry: () => setAttempt((n) => n + 1),
+  }
+}
@@ -0,0 +1,162 @@
+'use client'
+
+import { useState } from 'react'
+import { BaseError, type Hash } from 'viem'
+import { useAccount, usePublicClient, useWriteContract } from 'wagmi'
+import { AUTOSTACK_DCA_V2_ABI, AUTOSTACK_DCA_V2_ADDRESS, ERC20_ABI } from '@/lib/contracts'
+import type { Strategy } from '@/lib/envio'
+import type { SmartMoneyConfigData } from '@/components/SmartMoneyConfig'
+
+export type StrategyAction = 'pause' | 'resume' | 'cancel' | 'topUp' | 'edit'
+
+export interface ActionStatus {
+  action: StrategyAction
+  stage: 'approving' | 'signing' | 'pending' | 'confirmed' | 'failed'
+  hash?: Hash
+  error?: string
+}
+
+// What the strategy is expected to look like once the indexer sees the tx
+interface Optimistic {
+  patch: Partial<Strategy>
+  // Block the tx landed in; unset while it's still pending
+  confirmedAt?: bigint
+}
+
+export interface UseStrategyActionsReturn {
+  // The indexed strategy with any in-flight action applied
+  strategy: Strategy
+  status: ActionStatus | null
+  isBusy: boolean
+  isOwner: boolean
+  pause: () => Promise<void>
+  resume: () => Promise<void>
+  cancel: () => Promise<void>
+  topUp: (additionalExecutions: number) => Promise<void>
+  updateSmartMoneyConfig: (config: SmartMoneyConfigData, enabled: boolean) => Promise<void>
+}
+
+function errorMessage(err: unknown): string {
+  if (err instanceof BaseError) return err.shortMessage
+  return err instanceof Error ? err.message : 'Transaction failed'
+}
+
+/**
+ * Owner actions on an AutoStackDCAV2 strategy. Each one tracks its transaction
+ * from signature to receipt and shows its effect straight away; the optimistic
+ * patch is dropped once the indexer reports the strategy at or past the
+ * confirming block, or as soon as the transaction fails.
+ */
+export function useStrategyActions(indexed: Strategy): UseStrategyActionsReturn {
+  const { address } = useAccount()
+  const publicClient = usePublicClient()
+  const { writeContractAsync } = useWriteContract()
+  const [status, setStatus] = useState<ActionStatus | null>(null)
+  const [optimistic, setOptimistic] = useState<Optimistic | null>(null)
+
+  const caughtUp = optimistic?.confirmedAt !== undefined && BigInt(indexed.updatedAtBlock) >= optimistic.confirmedAt
+  const strategy = optimistic && !caughtUp ? { ...indexed, ...optimistic.patch } : indexed
+  const isBusy = status !== null && ['approving', 'signing', 'pending'].includes(status.stage)
+  const isOwner = !!address && address.toLowerCase() === indexed.user.toLowerCase()
+  const strategyId = BigInt(indexed.strategyId)
+
+  async function run(action: StrategyAction, patch: Partial<Strategy>, send: () => Promise<Hash>) {
+    if (!publicClient) return
+
+    let hash: Hash | undefined
+    setStatus({ action, stage: 'signing' })
+    try {
+      hash = await send()
+      setStatus({ action, stage: 'pending', hash })
+      setOptimistic({ patch })
+
+      const receipt = await publicClient.waitForTransactionReceipt({ hash })
+      if (receipt.status === 'reverted') {
+        throw new Error('Transaction reverted')
+      }
+      setStatus({ action, stage: 'confirmed', hash })
+      setOptimistic({ patch, confirmedAt: receipt.blockNumber })
+    } catch (err) {
+      console.error(`Strategy ${action} failed:`, err)
+      setOptimistic(null)
+      setStatus({ action, stage: 'failed', hash, error: errorMessage(err) })
+    }
+  }
+
+  function send(functionName: 'pauseStrategy' | 'resumeStrategy' | 'cancelStrategy') {
+    return () =>
+      writeContractAsync({
+        address: AUTOSTACK_DCA_V2_ADDRESS,
+        abi: AUTOSTACK_DCA_V2_ABI,
+        functionName,
+        args: [strategyId],
+      })
+  }
+
+  return {
+    strategy,
+    status,
+    isBusy,
+    isOwner,
+
+    pause: () => run('pause', { paused: true }, send('pauseStrategy')),
+
+    resume: () => run('resume', { paused: false }, send('resumeStrategy')),
+
+    cancel: () => run('cancel', { status: 'CANCELLED', isActive: false, paused: false }, send('cancelStrategy')),
+
+    topUp: (additionalExecutions) => {
+      const additional = BigInt(additionalExecutions)
+      const amount = BigInt(indexed.amountPerExecution) * additional
+      const tokenIn = indexed.tokenIn as `0x${string}`
+
+      return run('topUp', { totalExecutions: String(BigInt(indexed.totalExecutions) + additional) }, async () => {
+        // The contract pulls the extra executions up front
+        const allowance = await publicClient!.readContract({
+          address: tokenIn,
+          abi: ERC20_ABI,
+          functionName: 'allowance',
+          args: [address!, AUTOSTACK_DCA_V2_ADDRESS],
+        })
+        if (allowance < amount) {
+          setStatus({ action: 'topUp', stage: 'approving' })
+          const approveHash = await writeContractAsync({
+            address: tokenIn,
+            abi: ERC20_ABI,
+            functionName: 'approve',
+            args: [AUTOSTACK_DCA_V2_ADDRESS, amount],
+          })
+          const approval = await publicClient!.waitForTransactionReceipt({ hash: approveHash })
+          if (approval.status === 'reverted') {
+            throw new Error('Approval reverted')
+          }
+          setStatus({ action: 'topUp', stage: 'signing' })
+        }
+
+        return writeContractAsync({
+          address: AUTOSTACK_DCA_V2_ADDRESS,
+          abi: AUTOSTACK_DCA_V2_ABI,
+          functionName: 'topUpStrategy',
+          args: [strategyId, additional],
+        })
+      })
+    },
+
+    updateSmartMoneyConfig: (config, enabled) =>
+      run('edit', { signalThreshold: config.signalThreshold }, () =>
+        writeContractAsync({
+          address: AUTOSTACK_DCA_V2_ADDRESS,
+          abi: AUTOSTACK_DCA_V2_ABI,
+          functionName: 'updateSmartMoneyConfig',
+          args: [
+            strategyId,
+            BigInt(config.minWhaleAmount) * 10n ** 6n, // USDC decimals
+            config.minLabelScore,
+            config.signalThreshold,
+            BigInt(config.signalWindow) * 3600n, // Hours to seconds
+            enabled,
+          ],
+        })
+      ),
+  }
+}
@@ -0,0 +1,114 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { usePublicClient } from 'wagmi'
+import { sepolia } from 'wagmi/chains'
+import { getStrategy, getStrategyExecutions, type Execution, type Strategy } from '@/lib/envio'
+import { findBestRoute, type QuoteClient } from '@/lib/protocol/routing'
+import { POLL_INTERVAL_MS } from '@/hooks/useLiveStrategies'
+
+// Execution.price is tokenIn per tokenOut scaled by 1e18 (see the indexer)
+const PRICE_SCALE = 10n ** 18n
+
+interface StrategyDetail {
+  strategy: Strategy | null
+  // Oldest first
+  executions: Execution[]
+  // What one execution would pay now, in Execution.price units; null when
+  // no route quotes or the quote failed
+  marketPrice: string | null
+}
+
+export interface UseStrategyDetailReturn extends StrategyDetail {
+  isLoading: boolean
+  error: string | null
+}
+
+const EMPTY: StrategyDetail = { strategy: null, executions: [], marketPrice: null }
+
+/**
+ * Quote one execution's amount over the best Uniswap route through QuoterV2
+ */
+async function quoteMarketPrice(client: QuoteClient, strategy: Strategy): Promise<string | null> {
+  const amountIn = BigInt(strategy.amountPerExecution)
+  const route = await findBestRoute(client, {
+    chainId: sepolia.id,
+    tokenIn: strategy.tokenIn as `0x${string}`,
+    tokenOut: strategy.tokenOut as `0x${string}`,
+    amountIn,
+  })
+  return route ? ((amountIn * PRICE_SCALE) / route.amountOut).toString() : null
+}
+
+/**
+ * One strategy with its full execution history and the pair's current Uniswap
+ * price, refreshed on the dashboard's poll interval. A strategy has at most a
+ * few hundred executions, so each poll simply refetches them.
+ */
+export function useStrategyDetail(strategyId: string): UseStrategyDetailReturn {
+  const publicClient = usePublicClient({ chainId: sepolia.id })
+  const [detail, setDetail] = useState<StrategyDetail>(EMPTY)
+  const [isLoading, setIsLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  const [trackedId, setTrackedId] = useState(strategyId)
+  if (trackedId !== strategyId) {
+    setTrackedId(strategyId)
+    setDetail(EMPTY)
+    setIsLoading(true)
+    setError(null)
+  }
+
+  useEffect(() => {
+    let cancelled = false
+    let timer: ReturnType<typeof setTimeout> | undefined
+    let loaded = false
+
+    async function poll() {
+      if (loaded && document.visibilityState === 'hidden') {
+        timer = setTimeout(poll, POLL_INTERVAL_MS)
+        return
+      }
+
+      try {
+        const [strategy, executions] = await Promise.all([
+          getStrategy(strategyId),
+          getStrategyExecutions(strategyId),
+        ])
+        // A failed quote only hides the market price, not the strategy
+        const marketPrice =
+          strategy && publicClient
+            ? await quoteMarketPrice(publicClient, strategy).catch((err) => {
+                console.error('Error quoting market price:', err)
+                return null
+              })
+            : null
+        if (cancelled) return
+
+        setDetail({ strategy, executions: [...executions].reverse(), marketPrice })
+        setError(null)
+        loaded = true
+      } catch (err) {
+        if (cancelled) return
+        console.error('Error fetching strategy:', err)
+        if (!loaded) {
+          setError('Failed to load strategy. Make sure Envio indexer is running.')
+        }
+      } finally {
+        if (!cancelled) {
+          setIsLoading(false)
+          timer = setTimeout(poll, POLL_INTERVAL_MS)
+        }
+      }
+    }
+
+    poll()
+
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [strategyId, publicClient])
+
+  return { ...detail, isLoading, error }
+}
@@ -1,186 +1,145 @@
-import { GraphQLClient, gql } from 'graphql-request'
+import { GraphQLClient } from 'graphql-request'
+import { sepolia } from 'wagmi/chains'
+import { AUTOSTACK_DCA_V2_ADDRESS } from '@/lib/contracts'
+import {
+  EnvioClient,
+  type Column,
+  type Execution as ExecutionEntity,
+  type Strategy as StrategyEntity,
+} from '@/lib/generated/envio'
 
 // Envio GraphQL endpoint - update this with your actual Envio endpoint
 const ENVIO_ENDPOINT = process.env.NEXT_PUBLIC_ENVIO_ENDPOINT || 'http://localhost:8080/v1/graphql'
 
 export const envioClient = new GraphQLClient(ENVIO_ENDPOINT)
 
-// Types for GraphQL responses (matching schema.graphql)
-export interface Strategy {
-  id: string
-  strategyId: string
-  user: string
-  tokenIn: string
-  tokenOut: string
-  amountPerExecution: string
-  frequency: string
-  totalExecutions: string
-  executionsCompleted: string
-  totalAmountIn: string
-  totalAmountOut: string
-  status: string
-  createdAt: string
-  createdAtBlock: string
-  completedAt: string | null
-  cancelledAt: string | null
-  // V2 fields
-  strategyType?: number
-  poolFee?: number
+// Queries are typed against indexer/schema.graphql (see lib/generated/envio.ts),
+// so selecting a field the indexer doesn't have is a compile error
+const envio = new EnvioClient((document) => envioClient.request(document))
+
+// The indexer covers several networks; the app's contracts live on Sepolia (see wagmi.ts)
+export const ENVIO_CHAIN_ID = sepolia.id
+
+// AutoStackDCA and AutoStackDCAV2 both number strategies from 1; the app only
+// manages V2 strategies, so strategy and execution queries are scoped to it
+const ENVIO_CONTRACT = AUTOSTACK_DCA_V2_ADDRESS.toLowerCase()
+
+const STRATEGY_FIELDS = [
+  'id',
+  'chainId',
+  'contract',
+  'strategyId',
+  'user',
+  'strategyType',
+  'tokenIn',
+  'tokenOut',
+  'amountPerExecution',
+  'frequency',
+  'totalExecutions',
+  'executionsCompleted',
+  'totalAmountIn',
+  'totalAmountOut',
+  'averagePrice',
+  'totalGasUsed',
+  'totalGasCost',
+  'status',
+  'paused',
+  'createdAt',
+  'createdAtBlock',
+  'updatedAtBlock',
+  'completedAt',
+  'cancelledAt',
+  'signalCount',
+  'signalThreshold',
+] as const satisfies readonly Column<'Strategy'>[]
+
+const EXECUTION_FIELDS = [
+  'id',
+  'chainId',
+  'contract',
+  'strategyId',
+  'user',
+  'amountIn',
+  'amountOut',
+  'executionsLeft',
+  'price',
+  'executedAt',
+  'executedAtBlock',
+  'transactionHash',
+  'executor',
+  'gasUsed',
+  'effectiveGasPrice',
+  'gasCost',
+  'triggeredBySmartMoney',
+  'whaleWallet',
+  'whaleAmountUsd',
+] as const satisfies readonly Column<'Execution'>[]
+
+export type Strategy = Pick<StrategyEntity, (typeof STRATEGY_FIELDS)[number]> & {
   // Computed for compatibility
-  isActive?: boolean
+  isActive: boolean
 }
 
-export interface Execution {
-  id: string
-  strategyId: string
-  user: string
-  amountIn: string
-  amountOut: string
-  executionsLeft: string
-  executedAt: string
-  executedAtBlock: string
-  transactionHash: string
-  // V2 fields
-  triggeredBySmartMoney?: boolean
-  whaleWallet?: string
-  whaleAmountUsd?: string
+export type Execution = Pick<ExecutionEntity, (typeof EXECUTION_FIELDS)[number]> & {
   // Computed for compatibility
   executionNumber?: string
 }
 
-// GraphQL Queries - matching actual Envio schema
-export const GET_USER_STRATEGIES = gql`
-  query GetUserStrategies($user: String!) {
-    Strategy(where: { user: { _eq: $user } }, order_by: { createdAt: desc }) {
-      id
-      strategyId
-      user
-      tokenIn
-      tokenOut
-      amountPerExecution
-      frequency
-      totalExecutions
-      executionsCompleted
-      totalAmountIn
-      totalAmountOut
-      status
-      createdAt
-      createdAtBlock
-      completedAt
-      cancelledAt
-      strategyType
-      poolFee
-    }
-  }
-`
-
-export const GET_STRATEGY_EXECUTIONS = gql`
-  query GetStrategyExecutions($strategyId: String!) {
-    Execution(where: { strategyId: { _eq: $strategyId } }, order_by: { executedAt: desc }) {
-      id
-      strategyId
-      user
-      amountIn
-      amountOut
-      executionsLeft
-      executedAt
-      executedAtBlock
-      transactionHash
-      triggeredBySmartMoney
-      whaleWallet
-      whaleAmountUsd
-    }
-  }
-`
-
-export const GET_ALL_EXECUTIONS_BY_USER = gql`
-  query GetAllExecutionsByUser($user: String!) {
-    Execution(
-      where: { user: { _eq: $user } }
-      order_by: { executedAt: desc }
-      limit: 50
-    ) {
-      id
-      strategyId
-      user
-      amountIn
-      amountOut
-      executionsLeft
-      executedAt
-      executedAtBlock
-      transactionHash
-      triggeredBySmartMoney
-      whaleWallet
-      whaleAmountUsd
-    }
-  }
-`
-
-export const GET_USER_STATS = gql`
-  query GetUserStats($user: String!) {
-    Strategy_aggregate(where: { user: { _eq: $user } }) {
-      aggregate {
-        count
-      }
-    }
-    Strategy_aggregate(where: { user: { _eq: $user }, status: { _eq: "ACTIVE" } }) {
-      aggregate {
-        count
-      }
-    }
-    Execution_aggregate(where: { user: { _eq: $user } }) {
-      aggregate {
-        count
-      }
-    }
-  }
-`
-
-// Query functions
-export async function getUserStrategies(userAddress: string): Promise<Strategy[]> {
-  try {
-    console.log('[Envio] Fetching strategies for user:', userAddress.toLowerCase())
-    const data = await envioClient.request<{ Strategy: Strategy[] }>(GET_USER_STRATEGIES, {
-      user: userAddress.toLowerCase(),
-    })
-    console.log('[Envio] Strategies response:', data)
-    console.log('[Envio] Found', data.Strategy?.length || 0, 'strategies')
-    // Add computed isActive field for backward compatibility
-    return (data.Strategy || []).map(s => ({
-      ...s,
-      isActive: s.status === 'ACTIVE'
-    }))
-  } catch (error) {
-    console.error('[Envio] Error fetching user strategies:', error)
-    return []
-  }
+// Query functions - errors are thrown so callers can tell a failed query from no data
+// Polling passes the last indexed block it has seen as `sinceBlock`, so only rows
+// touched from that block on come back (that block is refetched in case it was
+// only partly indexed; callers merge by id)
+export async function getUserStrategies(userAddress: string, sinceBlock?: string): Promise<Strategy[]> {
+  console.log('[Envio] Fetching strategies for user:', userAddress.toLowerCase())
+  const strategies = await envio.query('Strategy', {
+    fields: STRATEGY_FIELDS,
+    where: {
+      user: { _eq: userAddress.toLowerCase() },
+      chainId: { _eq: ENVIO_CHAIN_ID },
+      contract: { _eq: ENVIO_CONTRACT },
+      ...(sinceBlock !== undefined && { updatedAtBlock: { _gte: sinceBlock } }),
+    },
+    order_by: { createdAt: 'desc' },
+  })
+  console.log('[Envio] Found', strategies.length, 'strategies')
+  // Add computed isActive field for backward compatibility
+  return strategies.map(s => ({
+    ...s,
+    isActive: s.status === 'ACTIVE'
+  }))
+}
+
+export async function getStrategy(strategyId: string): Promise<Strategy | null> {
+  const [strategy] = await envio.query('Strategy', {
+    fields: STRATEGY_FIELDS,
+    where: { strategyId: { _eq: strategyId }, chainId: { _eq: ENVIO_CHAIN_ID }, contract: { _eq: ENVIO_CONTRACT } },
+  })
+  return strategy ? { ...strategy, isActive: strategy.status === 'ACTIVE' } : null
 }
 
 export async function getStrategyExecutions(strategyId: string): Promise<Execution[]> {
-  try {
-    const data = await envioClient.request<{ Execution: Execution[] }>(GET_STRATEGY_EXECUTIONS, {
-      strategyId,
-    })
-    return data.Execution
-  } catch (error) {
-    console.error('Error fetching strategy executions:', error)
-    return []
-  }
+  return envio.query('Execution', {
+    fields: EXECUTION_FIELDS,
+    where: { strategyId: { _eq: strategyId }, chainId: { _eq: ENVIO_CHAIN_ID }, contract: { _eq: ENVIO_CONTRACT } },
+    order_by: { executedAt: 'desc' },
+  })
 }
 
-export async function getAllExecutionsByUser(userAddress: string): Promise<Execution[]> {
-  try {
-    console.log('[Envio] Fetching executions for user:', userAddress.toLowerCase())
-    const data = await envioClient.request<{ Execution: Execution[] }>(GET_ALL_EXECUTIONS_BY_USER, {
-      user: userAddress.toLowerCase(),
-    })
-    console.log('[Envio] Executions response:', data)
-    console.log('[Envio] Found', data.Execution?.length || 0, 'executions')
-    return data.Execution || []
-  } catch (error) {
-    console.error('[Envio] Error fetching user executions:', error)
-    return []
-  }
+export async function getAllExecutionsByUser(userAddress: string, sinceBlock?: string): Promise<Execution[]> {
+  console.log('[Envio] Fetching executions for user:', userAddress.toLowerCase())
+  const executions = await envio.query('Execution', {
+    fields: EXECUTION_FIELDS,
+    where: {
+      user: { _eq: userAddress.toLowerCase() },
+      chainId: { _eq: ENVIO_CHAIN_ID },
+      contract: { _eq: ENVIO_CONTRACT },
+      ...(sinceBlock !== undefined && { executedAtBlock: { _gte: sinceBlock } }),
+    },
+    order_by: { executedAt: 'desc' },
+    limit: 50,
+  })
+  console.log('[Envio] Found', executions.length, 'executions')
+  return executions
 }
 
 export interface UserStats {
@@ -189,26 +148,16 @@ export interface UserStats {
   totalExecutions: number
 }
 
+// Read from the indexer's per-user counters; a user with no activity has no row
 export async function getUserStats(userAddress: string): Promise<UserStats> {
-  try {
-    const data = await envioClient.request<{
-      Strategy_aggregate: { aggregate: { count: number } }[]
-      Execution_aggregate: { aggregate: { count: number } }
-    }>(GET_USER_STATS, {
-      user: userAddress.toLowerCase(),
-    })
-
-    return {
-      totalStrategies: data.Strategy_aggregate[0]?.aggregate?.count || 0,
-      activeStrategies: data.Strategy_aggregate[1]?.aggregate?.count || 0,
-      totalExecutions: data.Execution_aggregate?.aggregate?.count || 0,
-    }
-  } catch (error) {
-    console.error('Error fetching user stats:', error)
-    return {
-      totalStrategies: 0,
-      activeStrategies: 0,
-      totalExecutions: 0,
-    }
+  const [stats] = await envio.query('UserStats', {
+    fields: ['totalStrategies', 'activeStrategies', 'totalExecutions'],
+    where: { user: { _eq: userAddress.toLowerCase() }, chainId: { _eq: ENVIO_CHAIN_ID } },
+  })
+
+  return {
+    totalStrategies: Number(stats?.totalStrategies ?? 0),
+    activeStrategies: Number(stats?.activeStrategies ?? 0),
+    totalExecutions: Number(stats?.totalExecutions ?? 0),
   }
 }
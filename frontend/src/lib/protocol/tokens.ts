@@ -0,0 +1,131 @@
+// Copied from protocol/src/tokens.ts by protocol/scripts/generate.mjs.
+// Do not edit: change protocol/src, then run `pnpm generate` in protocol/.
+
+// Token registry, keyed by chain ID. Lookups by address are case-insensitive.
+
+export interface TokenInfo {
+  address: `0x${string}`;
+  symbol: string;
+  name: string;
+  decimals: number;
+  logo: string;
+}
+
+const LOGOS = {
+  USDC: 'https://assets.coingecko.com/coins/images/6319/small/usdc.png',
+  WETH: 'https://assets.coingecko.com/coins/images/2518/small/weth.png',
+  DAI: 'https://assets.coingecko.com/coins/images/9956/small/Badge_Dai.png',
+  cbETH: 'https://assets.coingecko.com/coins/images/27008/small/cbeth.png',
+  wstETH: 'https://assets.coingecko.com/coins/images/18834/small/wstETH.png',
+};
+
+export const TOKENS: Record<number, readonly TokenInfo[]> = {
+  // Ethereum Sepolia
+  11155111: [
+    {
+      address: '0x1c7D4B196Cb0C7B01d743Fbc6116a902379C7238',
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6,
+      logo: LOGOS.USDC,
+    },
+    {
+      address: '0xfFf9976782d46CC05630D1f6eBAb18b2324d6B14',
+      symbol: 'WETH',
+      name: 'Wrapped Ether',
+      decimals: 18,
+      logo: LOGOS.WETH,
+    },
+    {
+      address: '0x68194a729C2450ad26072b3D33ADaCbcef39D574',
+      symbol: 'DAI',
+      name: 'Dai Stablecoin',
+      decimals: 18,
+      logo: LOGOS.DAI,
+    },
+  ],
+  // Base Sepolia
+  84532: [
+    {
+      address: '0x036CbD53842c5426634e7929541eC2318f3dCF7e',
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6,
+      logo: LOGOS.USDC,
+    },
+    {
+      address: '0x4200000000000000000000000000000000000006',
+      symbol: 'WETH',
+      name: 'Wrapped Ether',
+      decimals: 18,
+      logo: LOGOS.WETH,
+    },
+  ],
+  // Base mainnet
+  8453: [
+    {
+      address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+      symbol: 'USDC',
+      name: 'USD Coin',
+      decimals: 6,
+      logo: LOGOS.USDC,
+    },
+    {
+      address: '0x4200000000000000000000000000000000000006',
+      symbol: 'WETH',
+      name: 'Wrapped Ether',
+      decimals: 18,
+      logo: LOGOS.WETH,
+    },
+    {
+      address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb',
+      symbol: 'DAI',
+      name: 'Dai Stablecoin',
+      decimals: 18,
+      logo: LOGOS.DAI,
+    },
+    {
+      address: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22',
+      symbol: 'cbETH',
+      name: 'Coinbase Wrapped ETH',
+      decimals: 18,
+      logo: LOGOS.cbETH,
+    },
+    {
+      address: '0xc1CBa3fCea344f92D9239c08C0568f6F2F0ee452',
+      symbol: 'wstETH',
+      name: 'Wrapped liquid staked Ether',
+      decimals: 18,
+      logo: LOGOS.wstETH,
+    },
+    {
+      address: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA',
+      symbol: 'USDbC',
+      name: 'Bridged USDC',
+      decimals: 6,
+      logo: LOGOS.USDC,
+    },
+  ],
+};
+
+/**
+ * Tokens listed for a chain; empty for chains without a registry entry
+ */
+export function getChainTokens(chainId: number): readonly TokenInfo[] {
+  return TOKENS[chainId] ?? [];
+}
+
+/**
+ * Look up a token by address
+ */
+export function getToken(chainId: number, address: string): TokenInfo | undefined {
+  const needle = address.toLowerCase();
+  return getChainTokens(chainId).find((token) => token.address.toLowerCase() === needle);
+}
+
+/**
+ * Look up a token by symbol (exact match)
+ */
+export function findToken(chainId: number, symbol: string): TokenInfo | undefined {
+  return getChainTokens(chainId).find((token) => token.symbol === symbol);
+}
@@ -0,0 +1,43 @@
+/**
+ * Smart Money Signal Sources (server-side only)
+ *
+ * Where /api/smart-money gets whale activity from. The production source is
+ * Nansen via the Corbits x402 proxy; the replay source (shared with the worker,
+ * see lib/protocol/signal-source.ts) serves recorded NansenDexTrade fixtures so
+ * the feed works without a funded Solana wallet.
+ *
+ * Selected with SIGNAL_SOURCE=nansen|replay (default: nansen).
+ */
+
+import { ReplaySource, parseSignalSourceKind, type SignalSource } from '@/lib/protocol/signal-source';
+import { NansenX402Source } from './nansen';
+
+export {
+  SignalSourceError,
+  type NansenDexTrade,
+  type SignalSource,
+  type TokenFlowQuery,
+  type TokenFlows,
+  type TradeQuery,
+} from '@/lib/protocol/signal-source';
+
+let signalSource: SignalSource | null = null;
+
+export function getSignalSource(): SignalSource {
+  if (signalSource) return signalSource;
+
+  switch (parseSignalSourceKind(process.env.SIGNAL_SOURCE)) {
+    case 'replay':
+      signalSource = new ReplaySource({
+        fixturePath: process.env.SIGNAL_REPLAY_FILE || 'fixtures/nansen-dex-trades.json',
+        rebaseTimestamps: true,
+      });
+      break;
+    case 'nansen':
+      signalSource = new NansenX402Source();
+      break;
+  }
+
+  console.log(`[SignalSource] Using ${signalSource.name} source`);
+  return signalSource;
+}
@@ -0,0 +1,362 @@
+/**
+ * Nansen x402 Signal Source
+ *
+ * Fetches smart money data from Nansen via the Corbits proxy, paying each
+ * request (~$0.01 USDC) with an x402 micropayment on Solana.
+ */
+
+import axios from 'axios';
+import bs58 from 'bs58';
+import { AsyncLocalStorage } from 'node:async_hooks';
+import * as dns from 'node:dns';
+import http from 'node:http';
+import https from 'node:https';
+import {
+  SignalSourceError,
+  toTokenFlows,
+  type NansenDexTrade,
+  type NansenTokenFlows,
+  type SignalSource,
+  type TokenFlowQuery,
+  type TokenFlows,
+  type TradeQuery,
+} from '@/lib/protocol/signal-source';
+import { getSpendGovernor } from './spend-governor';
+
+// Force IPv4 resolution globally
+dns.setDefaultResultOrder('ipv4first');
+
+// Custom axios instance with IPv4 only
+const axiosInstance = axios.create({
+  timeout: 60000,
+  httpAgent: new http.Agent({ family: 4 }),
+  httpsAgent: new https.Agent({ family: 4 }),
+});
+
+// Custom fetch using axios (better IPv4/IPv6 handling)
+const customFetch: typeof fetch = async (input, init) => {
+  const url = typeof input === 'string' ? input : input instanceof URL ? input.toString() : input.url;
+  console.log('[customFetch] Fetching:', url);
+  console.log('[customFetch] Method:', init?.method || 'GET');
+
+  try {
+    const headers: Record<string, string> = {};
+    if (init?.headers) {
+      if (init.headers instanceof Headers) {
+        init.headers.forEach((value, key) => {
+          headers[key] = value;
+        });
+      } else if (Array.isArray(init.headers)) {
+        init.headers.forEach(([key, value]) => {
+          headers[key] = value;
+        });
+      } else {
+        Object.assign(headers, init.headers);
+      }
+    }
+
+    const response = await axiosInstance({
+      url,
+      method: (init?.method || 'GET') as 'GET' | 'POST',
+      headers,
+      data: init?.body,
+      validateStatus: () => true, // Don't throw on any status
+    });
+
+    console.log('[customFetch] Response status:', response.status);
+
+    // Convert axios response to fetch-like response
+    const fetchResponse = new Response(JSON.stringify(response.data), {
+      status: response.status,
+      statusText: response.statusText,
+      headers: new Headers(response.headers as Record<string, string>),
+    });
+
+    return fetchResponse;
+  } catch (error: any) {
+    console.error('[customFetch] Error:', error.message);
+    throw error;
+  }
+};
+
+// Corbits Nansen proxy URL
+const CORBITS_PROXY_URL = process.env.CORBITS_PROXY_URL || 'https://nansen.api.corbits.dev';
+const X402_ENABLED = process.env.X402_ENABLED === 'true';
+
+// Solana keypair for x402 payments (server-side only)
+const SOLANA_PRIVATE_KEY = process.env.SOLANA_PRIVATE_KEY;
+const SOLANA_RPC_URL = process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com';
+
+// Price of one Nansen request through the Corbits proxy, in USDC
+const NANSEN_REQUEST_COST_USD = 0.01;
+
+// The paid request a payment belongs to. Carried through the x402 fetch's async
+// context rather than a shared variable, since the route can serve several
+// requests at once. The handler notes the signature of the payment it signed;
+// a retry signs a new one and replaces it.
+interface PaymentContext {
+  endpoint: string;
+  signature?: string;
+}
+
+const paymentContext = new AsyncLocalStorage<PaymentContext>();
+
+// Initialize x402 client lazily
+// Reset to null to force re-init with new config
+let x402FetchClient: typeof fetch | null = null;
+
+async function getX402Client(): Promise<typeof fetch> {
+  if (x402FetchClient) return x402FetchClient;
+
+  console.log('[x402] Initializing client...');
+  console.log('[x402] X402_ENABLED:', X402_ENABLED);
+  console.log('[x402] SOLANA_PRIVATE_KEY set:', !!SOLANA_PRIVATE_KEY);
+
+  if (!X402_ENABLED || !SOLANA_PRIVATE_KEY) {
+    throw new Error('x402 not configured. Set X402_ENABLED=true and SOLANA_PRIVATE_KEY in .env');
+  }
+
+  try {
+    // Dynamic imports for server-side only packages
+    console.log('[x402] Loading Faremeter SDK...');
+    const { wrap } = await import('@faremeter/fetch');
+    const { createPaymentHandler } = await import('@faremeter/payment-solana/exact');
+    const { Connection, Keypair, PublicKey } = await import('@solana/web3.js');
+
+    const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+
+    // Parse keypair
+    console.log('[x402] Parsing Solana keypair...');
+    const secretKeyArray = JSON.parse(SOLANA_PRIVATE_KEY);
+    const solanaKeypair = Keypair.fromSecretKey(Uint8Array.from(secretKeyArray));
+    console.log('[x402] Solana wallet:', solanaKeypair.publicKey.toBase58());
+
+    const connection = new Connection(SOLANA_RPC_URL, {
+      commitment: 'confirmed',
+      fetch: customFetch, // Use custom fetch with extended timeouts
+    });
+
+    console.log('[x402] Connection created');
+
+    // Transaction sender compatible with Faremeter SDK signature
+    // SDK calls: wallet.sendTransaction(tx: VersionedTransaction) => Promise<string>
+    async function sendTransaction(transaction: any): Promise<string> {
+      try {
+        console.log('[x402] === SENDING PAYMENT TRANSACTION ===');
+        console.log('[x402] Transaction constructor:', transaction?.constructor?.name);
+
+        // VersionedTransaction needs to be signed with signers
+        transaction.sign([solanaKeypair]);
+        console.log('[x402] Transaction signed');
+
+        // Serialize and send
+        const serialized = transaction.serialize();
+        console.log('[x402] Sending to Solana network...');
+
+        const signature = await connection.sendRawTransaction(serialized, {
+          skipPreflight: false,
+          preflightCommitment: 'confirmed',
+          maxRetries: 3,
+        });
+        console.log(`[x402] ✅ Transaction sent: ${signature}`);
+
+        // Confirm with longer timeout
+        console.log('[x402] Waiting for confirmation...');
+        const latestBlockhash = await connection.getLatestBlockhash();
+        const confirmation = await connection.confirmTransaction({
+          signature,
+          blockhash: latestBlockhash.blockhash,
+          lastValidBlockHeight: latestBlockhash.lastValidBlockHeight,
+        }, 'confirmed');
+
+        if (confirmation.value.err) {
+          throw new Error(`Transaction failed: ${JSON.stringify(confirmation.value.err)}`);
+        }
+
+        console.log(`[x402] ✅ Payment CONFIRMED: ${signature}`);
+        console.log(`[x402] View on Solscan: https://solscan.io/tx/${signature}`);
+
+        return signature;
+      } catch (txError: any) {
+        console.error('[x402] ❌ Transaction error:', txError.message);
+        throw txError;
+      }
+    }
+
+    // Create payment handler with our wallet
+    // Network must be "mainnet-beta" - the SDK converts to ["solana-mainnet-beta", "solana"]
+    // Disable settlement accounts - use ToSpec mode where we provide transaction and Corbits submits
+    console.log('[x402] Creating payment handler (ToSpec mode)...');
+    const paymentHandler = await createPaymentHandler(
+      {
+        network: 'mainnet-beta',
+        publicKey: solanaKeypair.publicKey,
+        // updateTransaction: sign the transaction before encoding
+        updateTransaction: async (tx) => {
+          console.log('[x402] Signing transaction for ToSpec...');
+          tx.sign([solanaKeypair]);
+          console.log('[x402] Transaction signed for ToSpec');
+
+          // Corbits submits the transaction; our signature identifies the
+          // payment. It's recorded once the paid response comes back (postNansen)
+          const signerIndex = tx.message.staticAccountKeys.findIndex((key) =>
+            key.equals(solanaKeypair.publicKey)
+          );
+          const payment = paymentContext.getStore();
+          if (payment) {
+            payment.signature = signerIndex >= 0 ? bs58.encode(tx.signatures[signerIndex]) : 'unknown';
+          }
+
+          return tx;
+        },
+      },
+      USDC_MINT,
+      connection,
+      {
+        features: {
+          enableSettlementAccounts: false, // Use ToSpec mode
+        },
+      }
+    );
+
+    // Wrap fetch with detailed error handling
+    console.log('[x402] Wrapping fetch with x402 using custom fetch...');
+    x402FetchClient = wrap(customFetch, {
+      handlers: [paymentHandler],
+      payerChooser: async (executers) => {
+        console.log('[x402] payerChooser called with', executers.length, 'options');
+        if (executers.length === 0) {
+          console.error('[x402] No payment handlers available!');
+          throw new Error('No compatible payment handlers for this resource');
+        }
+        console.log('[x402] Selecting first executer');
+        return executers[0];
+      },
+      retryCount: 3,
+      initialRetryDelay: 1000,
+    });
+
+    console.log('[x402] Client initialized successfully');
+    return x402FetchClient;
+  } catch (error: any) {
+    console.error('[x402] Initialization error:', error.message);
+    console.error('[x402] Stack:', error.stack);
+    throw error;
+  }
+}
+
+/**
+ * Make a paid POST request to the Nansen API through the Corbits proxy
+ */
+async function postNansen<T>(path: string, body: unknown): Promise<T> {
+  // Refuse before paying if this would exceed the budget or endpoint quota
+  getSpendGovernor().assertCanSpend(path, NANSEN_REQUEST_COST_USD);
+
+  const paywalledFetch = await getX402Client();
+
+  const url = `${CORBITS_PROXY_URL}${path}`;
+  console.log(`[Nansen] Calling: ${url}`);
+  console.log(`[Nansen] Body:`, JSON.stringify(body));
+
+  // Make request with x402 payment
+  const payment: PaymentContext = { endpoint: path };
+  let response;
+  try {
+    // Use AbortController for timeout - 2 minutes for x402 payment flow
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 120000); // 120 second timeout
+
+    response = await paymentContext.run(payment, () =>
+      paywalledFetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'application/json',
+        },
+        body: JSON.stringify(body),
+        signal: controller.signal,
+      })
+    );
+
+    clearTimeout(timeoutId);
+    console.log(`[Nansen] Response status: ${response.status}`);
+  } catch (fetchError: any) {
+    console.error(`[Nansen] Fetch error:`, fetchError.message);
+    console.error(`[Nansen] Fetch error cause:`, fetchError.cause);
+    console.error(`[Nansen] Fetch error stack:`, fetchError.stack);
+
+    // Log full error details
+    if (fetchError.cause?.message) {
+      console.error(`[Nansen] Cause message:`, fetchError.cause.message);
+    }
+    if (fetchError.cause?.cause) {
+      console.error(`[Nansen] Nested cause:`, fetchError.cause.cause);
+    }
+
+    // If payment fails, reset client to try fresh init next time
+    if (fetchError.message?.includes('payment')) {
+      console.log('[Nansen] Payment error - resetting client for fresh init');
+      x402FetchClient = null;
+    }
+
+    throw fetchError;
+  }
+
+  // x402 settles a payment when the paid request is served, so it counts
+  // against the budget once per request, and only on success
+  if (response.ok && payment.signature) {
+    getSpendGovernor().recordPayment(path, NANSEN_REQUEST_COST_USD, payment.signature);
+  }
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    console.error(`[Nansen] Nansen error: ${response.status} - ${errorText}`);
+    throw new SignalSourceError('Nansen API error', response.status, errorText);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+export class NansenX402Source implements SignalSource {
+  readonly name = 'nansen' as const;
+  readonly costPerRequestUsd = NANSEN_REQUEST_COST_USD;
+
+  configurationError(): string | null {
+    if (!X402_ENABLED) {
+      return 'Smart Money API requires x402 to be enabled. Set X402_ENABLED=true in .env';
+    }
+    return null;
+  }
+
+  async fetchTrades(query: TradeQuery): Promise<NansenDexTrade[]> {
+    // Correct path is /api/v1/smart-money/dex-trades per Nansen docs
+    const data = await postNansen<{ data: NansenDexTrade[] }>('/api/v1/smart-money/dex-trades', {
+      chains: [query.chain],
+      pagination: {
+        page: 1,
+        per_page: query.limit,
+      },
+      filters: {
+        trade_value_usd: {
+          min: query.minAmountUsd,
+        },
+      },
+    });
+
+    console.log(`[Nansen] Raw response keys:`, Object.keys(data));
+    console.log(`[Nansen] Received ${data.data?.length || 0} trades`);
+    return data.data || [];
+  }
+
+  async fetchTokenFlows(query: TokenFlowQuery): Promise<TokenFlows> {
+    const data = await postNansen<NansenTokenFlows>('/api/v1/smart-money/token-flow', {
+      chains: [query.chain],
+      filters: {
+        token_address: query.tokenAddress,
+      },
+      time_range: '24h',
+    });
+
+    return toTokenFlows(data);
+  }
+}
@@ -0,0 +1,89 @@
+/**
+ * Response Cache (server-side only)
+ *
+ * In-memory cache for paid signal source responses, keyed by endpoint and
+ * query. Entries are fresh for `ttlMs`; after that they are still served for
+ * `staleWhileRevalidateMs` while a single background refresh runs. Concurrent
+ * misses for the same key share one in-flight load, so a burst of dashboard
+ * requests costs one x402 payment.
+ */
+
+export type CacheStatus = 'hit' | 'stale' | 'miss';
+
+export interface CacheResult<T> {
+  value: T;
+  // Unix ms when the value was loaded from the source
+  fetchedAt: number;
+  status: CacheStatus;
+}
+
+export interface ResponseCacheOptions {
+  ttlMs: number;
+  staleWhileRevalidateMs: number;
+  // Oldest entries are evicted beyond this
+  maxEntries: number;
+}
+
+interface CacheEntry<T> {
+  value: T;
+  fetchedAt: number;
+}
+
+export class ResponseCache<T> {
+  private readonly entries = new Map<string, CacheEntry<T>>();
+  private readonly inFlight = new Map<string, Promise<CacheEntry<T>>>();
+
+  constructor(private readonly options: ResponseCacheOptions) {}
+
+  async get(key: string, load: () => Promise<T>): Promise<CacheResult<T>> {
+    const entry = this.entries.get(key);
+    const age = entry ? Date.now() - entry.fetchedAt : Infinity;
+
+    if (entry && age < this.options.ttlMs) {
+      return { ...entry, status: 'hit' };
+    }
+
+    if (entry && age < this.options.ttlMs + this.options.staleWhileRevalidateMs) {
+      // Serve stale now; a failed refresh keeps the stale entry until it expires
+      this.load(key, load).catch((error) => {
+        console.error(`[Cache] Background refresh failed for ${key}:`, error instanceof Error ? error.message : error);
+      });
+      return { ...entry, status: 'stale' };
+    }
+
+    const loaded = await this.load(key, load);
+    return { ...loaded, status: 'miss' };
+  }
+
+  /**
+   * Load a key, joining the request already in flight for it if there is one
+   */
+  private load(key: string, load: () => Promise<T>): Promise<CacheEntry<T>> {
+    const pending = this.inFlight.get(key);
+    if (pending) return pending;
+
+    const request = load()
+      .then((value) => {
+        const entry = { value, fetchedAt: Date.now() };
+        // Re-insert so Map order tracks recency for eviction
+        this.entries.delete(key);
+        this.entries.set(key, entry);
+        this.evict();
+        return entry;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  private evict(): void {
+    while (this.entries.size > this.options.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) break;
+      this.entries.delete(oldest);
+    }
+  }
+}
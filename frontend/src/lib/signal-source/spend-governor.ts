@@ -0,0 +1,30 @@
+/**
+ * x402 Spend Governor
+ *
+ * The /api/smart-money route's instance of the shared governor (server-side
+ * only; see lib/protocol/spend-governor.ts). Near the budget the route
+ * degrades: paid fetches are spaced out and return fewer rows.
+ *
+ * Configured with X402_HOURLY_BUDGET_USD, X402_DAILY_BUDGET_USD,
+ * X402_ENDPOINT_QUOTAS ("endpoint=count,..."), X402_DEGRADE_AT and
+ * X402_SPEND_LEDGER_PATH. Point X402_SPEND_LEDGER_PATH at the worker's ledger
+ * to share one budget with it; otherwise the two budgets are separate.
+ */
+
+import { SpendGovernor, parseEndpointQuotas } from '@/lib/protocol/spend-governor';
+
+export { BudgetExceededError, type BudgetStatus } from '@/lib/protocol/spend-governor';
+
+let spendGovernor: SpendGovernor | null = null;
+
+export function getSpendGovernor(): SpendGovernor {
+  if (spendGovernor) return spendGovernor;
+
+  spendGovernor = new SpendGovernor(process.env.X402_SPEND_LEDGER_PATH || 'data/x402-spend.json', {
+    hourlyBudgetUsd: parseFloat(process.env.X402_HOURLY_BUDGET_USD || '0.5'),
+    dailyBudgetUsd: parseFloat(process.env.X402_DAILY_BUDGET_USD || '5'),
+    endpointQuotas: parseEndpointQuotas(process.env.X402_ENDPOINT_QUOTAS),
+    degradeAtRatio: parseFloat(process.env.X402_DEGRADE_AT || '0.8'),
+  });
+  return spendGovernor;
+}
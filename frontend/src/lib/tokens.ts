@@ -1,82 +1,40 @@
-// Token configuration with real images and metadata
-export interface TokenInfo {
-  address: string
-  symbol: string
-  name: string
-  decimals: number
-  logo: string
-}
+import { formatUnits } from 'viem'
+import { base } from 'wagmi/chains'
+import { getToken, type TokenInfo } from '@/lib/protocol/tokens'
 
-// Base Mainnet token addresses mapped to their metadata
-export const TOKENS: Record<string, TokenInfo> = {
-  // USDC on Base Mainnet
-  '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913': {
-    address: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
-    symbol: 'USDC',
-    name: 'USD Coin',
-    decimals: 6,
-    logo: 'https://assets.coingecko.com/coins/images/6319/small/usdc.png',
-  },
-  // WETH on Base Mainnet
-  '0x4200000000000000000000000000000000000006': {
-    address: '0x4200000000000000000000000000000000000006',
-    symbol: 'WETH',
-    name: 'Wrapped Ether',
-    decimals: 18,
-    logo: 'https://assets.coingecko.com/coins/images/2518/small/weth.png',
-  },
-  // DAI on Base Mainnet
-  '0x50c5725949a6f0c72e6c4a641f24049a917db0cb': {
-    address: '0x50c5725949A6F0c72E6C4a641F24049A917DB0Cb',
-    symbol: 'DAI',
-    name: 'Dai Stablecoin',
-    decimals: 18,
-    logo: 'https://assets.coingecko.com/coins/images/9956/small/Badge_Dai.png',
-  },
-  // cbETH on Base Mainnet
-  '0x2ae3f1ec7f1f5012cfeab0185bfc7aa3cf0dec22': {
-    address: '0x2Ae3F1Ec7F1F5012CFEab0185bfc7aa3cf0DEc22',
-    symbol: 'cbETH',
-    name: 'Coinbase Wrapped ETH',
-    decimals: 18,
-    logo: 'https://assets.coingecko.com/coins/images/27008/small/cbeth.png',
-  },
-  // USDbC (bridged USDC) on Base Mainnet
-  '0xd9aaec86b65d86f6a7b5b1b0c42ffa531710b6ca': {
-    address: '0xd9aAEc86B65D86f6A7B5B1b0c42FFA531710b6CA',
-    symbol: 'USDbC',
-    name: 'Bridged USDC',
-    decimals: 6,
-    logo: 'https://assets.coingecko.com/coins/images/6319/small/usdc.png',
-  },
-}
+export type { TokenInfo }
+
+// Token metadata comes from the chain-keyed registry in protocol/. Lookups
+// default to Base mainnet, as the smart-money API route does; pass a chain ID
+// to resolve tokens on another network
+const DEFAULT_CHAIN_ID: number = base.id
 
 // Get token info by address (case-insensitive)
-export function getTokenInfo(address: string): TokenInfo | undefined {
-  return TOKENS[address.toLowerCase()]
+export function getTokenInfo(address: string, chainId = DEFAULT_CHAIN_ID): TokenInfo | undefined {
+  return getToken(chainId, address)
 }
 
 // Get token symbol by address
-export function getTokenSymbol(address: string): string {
-  const token = getTokenInfo(address)
+export function getTokenSymbol(address: string, chainId = DEFAULT_CHAIN_ID): string {
+  const token = getTokenInfo(address, chainId)
   return token?.symbol || address.slice(0, 6) + '...'
 }
 
 // Get token logo by address
-export function getTokenLogo(address: string): string {
-  const token = getTokenInfo(address)
+export function getTokenLogo(address: string, chainId = DEFAULT_CHAIN_ID): string {
+  const token = getTokenInfo(address, chainId)
   return token?.logo || 'https://assets.coingecko.com/coins/images/279/small/ethereum.png'
 }
 
 // Get token decimals by address
-export function getTokenDecimals(address: string): number {
-  const token = getTokenInfo(address)
+export function getTokenDecimals(address: string, chainId = DEFAULT_CHAIN_ID): number {
+  const token = getTokenInfo(address, chainId)
   return token?.decimals || 18
 }
 
 // Format token amount with proper decimals
-export function formatTokenAmount(amount: string | bigint, address: string): string {
-  const decimals = getTokenDecimals(address)
+export function formatTokenAmount(amount: string | bigint, address: string, chainId = DEFAULT_CHAIN_ID): string {
+  const decimals = getTokenDecimals(address, chainId)
   const value = typeof amount === 'string' ? BigInt(amount) : amount
   const divisor = BigInt(10 ** decimals)
   const intPart = value / divisor
@@ -91,3 +49,10 @@ export function formatTokenAmount(amount: string | bigint, address: string): str
   const trimmed = fracStr.replace(/0+$/, '')
   return trimmed ? `${intPart}.${trimmed}` : intPart.toString()
 }
+
+// Convert an indexer price (tokenIn base units per tokenOut base unit, scaled
+// by 1e18) to tokenIn per whole tokenOut, e.g. USDC per WETH
+export function toDisplayPrice(price: string | bigint, tokenIn: string, tokenOut: string, chainId = DEFAULT_CHAIN_ID): number {
+  const shift = getTokenDecimals(tokenOut, chainId) - getTokenDecimals(tokenIn, chainId)
+  return Number(formatUnits(BigInt(price), 18)) * 10 ** shift
+}
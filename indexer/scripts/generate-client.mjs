@@ -0,0 +1,288 @@
+/**
+ * Typed GraphQL client generator
+ *
+ * Reads schema.graphql and writes a self-contained client module to the
+ * frontend and the worker: one interface per entity shaped like the rows
+ * Hasura returns, plus a query builder that only accepts fields, filters and
+ * relations those entities have. Queries that drift from the schema then fail
+ * to type-check instead of failing at runtime.
+ *
+ *   node scripts/generate-client.mjs           regenerate both copies
+ *   node scripts/generate-client.mjs --check   exit 1 if a copy is stale
+ */
+
+import { readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { dirname, relative, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Kind, parse } from "graphql";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const repoRoot = resolve(root, "..");
+
+const SCHEMA_PATH = resolve(root, "schema.graphql");
+const TARGETS = [
+  resolve(repoRoot, "frontend/src/lib/generated/envio.ts"),
+  resolve(repoRoot, "worker/src/generated/envio.ts"),
+];
+
+// How Hasura serializes each scalar; numeric columns arrive as strings
+const SCALARS = {
+  ID: "string",
+  String: "string",
+  Bytes: "string",
+  Int: "number",
+  Float: "number",
+  Boolean: "boolean",
+  BigInt: "string",
+  BigDecimal: "string",
+};
+
+function unwrap(type) {
+  let nullable = true;
+  let list = false;
+  if (type.kind === Kind.NON_NULL_TYPE) {
+    nullable = false;
+    type = type.type;
+  }
+  if (type.kind === Kind.LIST_TYPE) {
+    list = true;
+    type = type.type.kind === Kind.NON_NULL_TYPE ? type.type.type : type.type;
+  }
+  return { name: type.name.value, nullable, list };
+}
+
+function readEntities() {
+  const document = parse(readFileSync(SCHEMA_PATH, "utf8"));
+  const types = document.definitions.filter((d) => d.kind === Kind.OBJECT_TYPE_DEFINITION);
+  const entityNames = new Set(types.map((t) => t.name.value));
+
+  return types.map((type) => {
+    const columns = [];
+    const relations = [];
+
+    for (const field of type.fields) {
+      const name = field.name.value;
+      const { name: typeName, nullable, list } = unwrap(field.type);
+
+      if (entityNames.has(typeName)) {
+        // Envio stores a reference as `<field>_id`; @derivedFrom lists are reverse lookups
+        if (!list) {
+          columns.push({ name: `${name}_id`, type: "string", nullable });
+        }
+        relations.push({ name, entity: typeName, many: list, nullable: !list && nullable });
+        continue;
+      }
+
+      const scalar = SCALARS[typeName];
+      if (!scalar) {
+        throw new Error(`${type.name.value}.${name}: unsupported type ${typeName}`);
+      }
+      columns.push({ name, type: list ? `${scalar}[]` : scalar, nullable });
+    }
+
+    return { name: type.name.value, columns, relations };
+  });
+}
+
+function render(entities) {
+  const lines = [
+    "// Generated by indexer/scripts/generate-client.mjs from indexer/schema.graphql.",
+    "// Do not edit: run `pnpm generate:client` in indexer/ after changing the schema.",
+    "",
+    "/* eslint-disable */",
+    "",
+    "// ============ Entities ============",
+    "",
+  ];
+
+  for (const entity of entities) {
+    lines.push(`export interface ${entity.name} {`);
+    for (const column of entity.columns) {
+      lines.push(`  ${column.name}: ${column.type}${column.nullable ? " | null" : ""};`);
+    }
+    lines.push("}", "");
+  }
+
+  lines.push("export interface Entities {");
+  for (const entity of entities) {
+    lines.push(`  ${entity.name}: ${entity.name};`);
+  }
+  lines.push("}", "");
+
+  lines.push("export interface Relations {");
+  for (const entity of entities) {
+    if (entity.relations.length === 0) {
+      lines.push(`  ${entity.name}: {};`);
+      continue;
+    }
+    lines.push(`  ${entity.name}: {`);
+    for (const relation of entity.relations) {
+      lines.push(
+        `    ${relation.name}: { entity: '${relation.entity}'; many: ${relation.many}; nullable: ${relation.nullable} };`
+      );
+    }
+    lines.push("  };");
+  }
+  lines.push("}", "");
+
+  return lines.join("\n") + RUNTIME;
+}
+
+// Schema-independent part of the client, identical in every copy
+const RUNTIME = `
+// ============ Query builder ============
+
+export type EntityName = keyof Entities;
+export type Column<E extends EntityName> = keyof Entities[E] & string;
+type RelationName<E extends EntityName> = keyof Relations[E] & string;
+type Target<E extends EntityName, R extends RelationName<E>> = Relations[E][R] extends { entity: infer T extends EntityName } ? T : never;
+
+export type Comparison<T> = {
+  _eq?: T;
+  _neq?: T;
+  _gt?: T;
+  _gte?: T;
+  _lt?: T;
+  _lte?: T;
+  _in?: T[];
+  _nin?: T[];
+  _is_null?: boolean;
+};
+
+export type Where<E extends EntityName> = {
+  [C in Column<E>]?: Comparison<NonNullable<Entities[E][C]>>;
+} & {
+  _and?: Where<E>[];
+  _or?: Where<E>[];
+  _not?: Where<E>;
+};
+
+export type OrderBy<E extends EntityName> = { [C in Column<E>]?: 'asc' | 'desc' };
+
+type RelationQueries<E extends EntityName> = {
+  [R in RelationName<E>]?: Query<Target<E, R>, readonly Column<Target<E, R>>[], any>;
+};
+
+export interface Query<E extends EntityName, F extends readonly Column<E>[], R> {
+  fields: F;
+  where?: Where<E>;
+  order_by?: OrderBy<E> | OrderBy<E>[];
+  limit?: number;
+  offset?: number;
+  relations?: R;
+}
+
+// Only the selected columns, plus the selected relations
+export type Row<E extends EntityName, F extends readonly Column<E>[], R> = Pick<Entities[E], F[number]> & {
+  -readonly [K in keyof R & RelationName<E>]: R[K] extends {
+    fields: infer RF extends readonly Column<Target<E, K>>[];
+  }
+    ? Relations[E][K] extends { many: true }
+      ? Row<Target<E, K>, RF, RelationsOf<R[K]>>[]
+      : Relations[E][K] extends { nullable: true }
+        ? Row<Target<E, K>, RF, RelationsOf<R[K]>> | null
+        : Row<Target<E, K>, RF, RelationsOf<R[K]>>
+    : never;
+};
+
+type RelationsOf<Q> = Q extends { relations: infer R } ? R : {};
+
+// Sends a document to the indexer's GraphQL endpoint and returns its \`data\`
+export type RequestDocument = (document: string) => Promise<unknown>;
+
+type AnyQuery = {
+  fields: readonly string[];
+  where?: object;
+  order_by?: object;
+  limit?: number;
+  offset?: number;
+  relations?: Record<string, AnyQuery>;
+};
+
+function literal(value: unknown): string {
+  if (Array.isArray(value)) return \`[\${value.map(literal).join(', ')}]\`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    return \`{ \${entries.map(([key, item]) => \`\${key}: \${literal(item)}\`).join(', ')} }\`;
+  }
+  if (typeof value === 'string') return JSON.stringify(value);
+  return String(value);
+}
+
+// order_by directions are enum values, so they're written unquoted
+function orderLiteral(orderBy: object): string {
+  if (Array.isArray(orderBy)) return \`[\${orderBy.map(orderLiteral).join(', ')}]\`;
+  return \`{ \${Object.entries(orderBy).map(([key, direction]) => \`\${key}: \${direction}\`).join(', ')} }\`;
+}
+
+function selection(field: string, query: AnyQuery): string {
+  const args: string[] = [];
+  if (query.where) args.push(\`where: \${literal(query.where)}\`);
+  if (query.order_by) args.push(\`order_by: \${orderLiteral(query.order_by)}\`);
+  if (query.limit !== undefined) args.push(\`limit: \${query.limit}\`);
+  if (query.offset !== undefined) args.push(\`offset: \${query.offset}\`);
+
+  const children = [
+    ...query.fields,
+    ...Object.entries(query.relations ?? {}).map(([name, relation]) => selection(name, relation)),
+  ];
+
+  return \`\${field}\${args.length > 0 ? \`(\${args.join(', ')})\` : ''} { \${children.join(' ')} }\`;
+}
+
+/**
+ * Build the GraphQL document for a query on one entity
+ */
+export function buildQuery<E extends EntityName>(entity: E, query: Query<E, readonly Column<E>[], unknown>): string {
+  return \`query { \${selection(entity, query as AnyQuery)} }\`;
+}
+
+export class EnvioClient {
+  constructor(private readonly request: RequestDocument) {}
+
+  /**
+   * Fetch rows of one entity. Unknown fields, filters or relations are type
+   * errors; GraphQL errors are thrown rather than returned as empty results.
+   */
+  async query<
+    E extends EntityName,
+    const F extends readonly Column<E>[],
+    const R extends RelationQueries<E> = {},
+  >(
+    entity: E,
+    query: Query<E, F, R & { [K in Exclude<keyof R, RelationName<E>>]: never }>
+  ): Promise<Row<E, F, R>[]> {
+    const data = (await this.request(buildQuery(entity, query))) as Record<string, unknown>;
+    return data[entity] as Row<E, F, R>[];
+  }
+}
+`;
+
+const output = render(readEntities());
+const check = process.argv.includes("--check");
+let stale = false;
+
+for (const target of TARGETS) {
+  const path = relative(repoRoot, target);
+  let current = null;
+  try {
+    current = readFileSync(target, "utf8");
+  } catch {}
+
+  if (current === output) {
+    continue;
+  }
+
+  if (check) {
+    console.error(`${path} is out of date with schema.graphql; run pnpm generate:client`);
+    stale = true;
+  } else {
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, output);
+    console.log(`Wrote ${path}`);
+  }
+}
+
+if (stale) {
+  process.exit(1);
+}
@@ -1,21 +1,113 @@
 import {
   AutoStackDCA,
+  AutoStackDCAV2,
+  SmartMoneyDCA,
   Strategy,
   Execution,
+  SmartMoneyStrategy,
+  SmartMoneyExecution,
+  SmartMoneySignal,
   UserStats,
   GlobalStats,
+  TrackedWallet,
+  TokenAnalytics,
+  Executor,
+  UserPosition,
+  TokenPriceSnapshot,
+  StrategyDaySnapshot,
+  Transaction_t,
 } from "../generated";
+import { getToken } from "./protocol/tokens";
 
-// Helper function to get or create UserStats
+// SmartMoneyDCA.TriggerType values that come from a smart money signal
+const TRIGGER_SMART_MONEY_BUY = 1;
+const TRIGGER_SMART_MONEY_SELL = 2;
+
+// SmartMoneyDCA's protocolFeeBps until a ProtocolFeeUpdated event says otherwise
+const DEFAULT_PROTOCOL_FEE_BPS = 30n;
+
+// SmartMoneyDCA reports executionsLeft as max uint256 for unlimited strategies
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+// Prices are tokenIn base units per tokenOut base unit, scaled by 1e18
+const PRICE_SCALE = 10n ** 18n;
+
+const SNAPSHOT_PERIODS = [
+  { period: "HOUR", seconds: 3600 },
+  { period: "DAY", seconds: 86400 },
+];
+
+type BlockInfo = { number: number; timestamp: number };
+
+type StrategyStatus = "ACTIVE" | "COMPLETED" | "CANCELLED";
+
+// UserStats/GlobalStats counter for strategies in each status
+const STATUS_COUNTERS = {
+  ACTIVE: "activeStrategies",
+  COMPLETED: "completedStrategies",
+  CANCELLED: "cancelledStrategies",
+} as const;
+
+// The parts of an event the shared handlers need, common to every contract
+type EventInfo<Params> = {
+  chainId: number;
+  srcAddress: string;
+  block: BlockInfo;
+  transaction: Transaction_t;
+  logIndex: number;
+  params: Params;
+};
+
+// Transaction hash, sender and gas paid, shared by Execution and SmartMoneyExecution
+function executionReceipt(transaction: Transaction_t) {
+  return {
+    transactionHash: transaction.hash,
+    executor: (transaction.from ?? "").toLowerCase(),
+    gasUsed: transaction.gasUsed,
+    effectiveGasPrice: transaction.effectiveGasPrice,
+    gasCost: transaction.gasUsed * transaction.effectiveGasPrice,
+  };
+}
+
+// Price paid for amountOut; 0 when nothing was received
+function priceOf(amountIn: bigint, amountOut: bigint): bigint {
+  return amountOut === 0n ? 0n : (amountIn * PRICE_SCALE) / amountOut;
+}
+
+function periodStart(timestamp: number, seconds: number): bigint {
+  return BigInt(timestamp - (timestamp % seconds));
+}
+
+// Entity IDs are prefixed with the chain ID so deployments on different
+// networks never collide
+function chainScopedId(chainId: number, ...parts: (string | number | bigint)[]): string {
+  return [chainId, ...parts].join("-");
+}
+
+// AutoStackDCA and AutoStackDCAV2 both number strategies from 1, so anything
+// keyed by a strategy ID is also scoped to the contract that emitted it
+function contractScopedId(
+  chainId: number,
+  contractAddress: string,
+  ...parts: (string | number | bigint)[]
+): string {
+  return chainScopedId(chainId, contractAddress.toLowerCase(), ...parts);
+}
+
+// Helper function to get or create UserStats. Creating one counts a new user
+// in GlobalStats, so callers must read GlobalStats after UserStats.
 async function getOrCreateUserStats(
   context: any,
+  chainId: number,
   userAddress: string
 ): Promise<UserStats> {
-  let userStats = await context.UserStats.get(userAddress);
+  const userStatsId = chainScopedId(chainId, userAddress);
+  let userStats = await context.UserStats.get(userStatsId);
 
   if (!userStats) {
     userStats = {
-      id: userAddress,
+      id: userStatsId,
+      chainId: chainId,
       user: userAddress,
       totalStrategies: 0n,
       activeStrategies: 0n,
@@ -24,20 +116,30 @@ async function getOrCreateUserStats(
       totalExecutions: 0n,
       totalAmountIn: 0n,
       totalAmountOut: 0n,
+      smartMoneyStrategies: 0n,
+      smartMoneyExecutions: 0n,
+      smartMoneyTriggeredTrades: 0n,
     };
+
+    const globalStats = await getOrCreateGlobalStats(context, chainId);
+    context.GlobalStats.set({
+      ...globalStats,
+      uniqueUsers: globalStats.uniqueUsers + 1n,
+    });
   }
 
   return userStats;
 }
 
 // Helper function to get or create GlobalStats
-async function getOrCreateGlobalStats(context: any): Promise<GlobalStats> {
-  const globalId = "global";
+async function getOrCreateGlobalStats(context: any, chainId: number): Promise<GlobalStats> {
+  const globalId = chainScopedId(chainId, "global");
   let globalStats = await context.GlobalStats.get(globalId);
 
   if (!globalStats) {
     globalStats = {
       id: globalId,
+      chainId: chainId,
       totalStrategies: 0n,
       activeStrategies: 0n,
       completedStrategies: 0n,
@@ -46,186 +148,1065 @@ async function getOrCreateGlobalStats(context: any): Promise<GlobalStats> {
       totalAmountIn: 0n,
       totalAmountOut: 0n,
       uniqueUsers: 0n,
+      totalSmartMoneyStrategies: 0n,
+      totalSmartMoneyExecutions: 0n,
+      totalSmartMoneySignals: 0n,
+      totalProtocolFees: 0n,
+      protocolFeeBps: DEFAULT_PROTOCOL_FEE_BPS,
     };
   }
 
   return globalStats;
 }
 
-// StrategyCreated event handler
-AutoStackDCA.StrategyCreated.handler(async ({ event, context }) => {
-  const strategyId = event.params.strategyId.toString();
-  const user = event.params.user.toLowerCase(); // Lowercase for consistent querying
+// Helper function to get or create TokenAnalytics (keyed by lowercase address)
+async function getOrCreateTokenAnalytics(
+  context: any,
+  chainId: number,
+  tokenAddress: string
+): Promise<TokenAnalytics> {
+  const token = tokenAddress.toLowerCase();
+  const tokenId = chainScopedId(chainId, token);
+  let tokenAnalytics = await context.TokenAnalytics.get(tokenId);
+
+  if (!tokenAnalytics) {
+    // Metadata comes from the shared token registry; unlisted tokens leave it unset
+    const info = getToken(chainId, token);
+    tokenAnalytics = {
+      id: tokenId,
+      chainId: chainId,
+      tokenAddress: token,
+      symbol: info?.symbol,
+      name: info?.name,
+      decimals: info?.decimals,
+      totalStrategies: 0n,
+      activeStrategies: 0n,
+      totalVolume: 0n,
+      smartMoneyBuys: 0n,
+      smartMoneySells: 0n,
+      lastSmartMoneyActivity: undefined,
+    };
+  }
+
+  return tokenAnalytics;
+}
+
+// Helper function to get or create a TrackedWallet (keyed by lowercase address)
+async function getOrCreateTrackedWallet(
+  context: any,
+  chainId: number,
+  walletAddress: string,
+  timestamp: bigint
+): Promise<TrackedWallet> {
+  const wallet = walletAddress.toLowerCase();
+  const walletId = chainScopedId(chainId, wallet);
+  let trackedWallet = await context.TrackedWallet.get(walletId);
+
+  if (!trackedWallet) {
+    trackedWallet = {
+      id: walletId,
+      chainId: chainId,
+      address: wallet,
+      labels: [],
+      score: 0n,
+      totalTrades: 0n,
+      totalVolumeUsd: 0n,
+      firstSeen: timestamp,
+      lastSeen: timestamp,
+      triggeredExecutions: 0n,
+    };
+  }
+
+  return trackedWallet;
+}
+
+// Count a new strategy buying `tokenOut`
+async function trackStrategyCreated(context: any, chainId: number, tokenOut: string) {
+  const tokenAnalytics = await getOrCreateTokenAnalytics(context, chainId, tokenOut);
+  context.TokenAnalytics.set({
+    ...tokenAnalytics,
+    totalStrategies: tokenAnalytics.totalStrategies + 1n,
+    activeStrategies: tokenAnalytics.activeStrategies + 1n,
+  });
+}
+
+// Count a strategy buying `tokenOut` as no longer active
+async function trackStrategyClosed(context: any, chainId: number, tokenOut: string) {
+  const tokenAnalytics = await getOrCreateTokenAnalytics(context, chainId, tokenOut);
+  context.TokenAnalytics.set({
+    ...tokenAnalytics,
+    activeStrategies: tokenAnalytics.activeStrategies - 1n,
+  });
+}
+
+type StrategyCounters = {
+  [Field in "totalStrategies" | "activeStrategies" | "completedStrategies" | "cancelledStrategies"]: bigint;
+};
+
+// Move one strategy between the status counters of UserStats or GlobalStats;
+// `from` is undefined for a newly created strategy
+function statusTransition(
+  stats: StrategyCounters,
+  from: StrategyStatus | undefined,
+  to: StrategyStatus
+): StrategyCounters {
+  const counters: StrategyCounters = {
+    totalStrategies: stats.totalStrategies,
+    activeStrategies: stats.activeStrategies,
+    completedStrategies: stats.completedStrategies,
+    cancelledStrategies: stats.cancelledStrategies,
+  };
+
+  if (from === undefined) {
+    counters.totalStrategies += 1n;
+  } else {
+    counters[STATUS_COUNTERS[from]] -= 1n;
+  }
+  counters[STATUS_COUNTERS[to]] += 1n;
+
+  return counters;
+}
+
+// Fold an execution into the hourly and daily price snapshots for its token pair
+async function recordTokenPrice(
+  context: any,
+  chainId: number,
+  tokenInAddress: string,
+  tokenOutAddress: string,
+  amountIn: bigint,
+  amountOut: bigint,
+  timestamp: number
+) {
+  const tokenIn = tokenInAddress.toLowerCase();
+  const tokenOut = tokenOutAddress.toLowerCase();
+  const price = priceOf(amountIn, amountOut);
+
+  for (const { period, seconds } of SNAPSHOT_PERIODS) {
+    const start = periodStart(timestamp, seconds);
+    const snapshotId = chainScopedId(chainId, tokenIn, tokenOut, period, start);
+    const existing: TokenPriceSnapshot | undefined = await context.TokenPriceSnapshot.get(snapshotId);
+
+    let snapshot: TokenPriceSnapshot;
+    if (!existing) {
+      snapshot = {
+        id: snapshotId,
+        chainId: chainId,
+        tokenIn: tokenIn,
+        tokenOut: tokenOut,
+        period: period,
+        periodStart: start,
+        openPrice: price,
+        highPrice: price,
+        lowPrice: price,
+        closePrice: price,
+        averagePrice: price,
+        volumeIn: amountIn,
+        volumeOut: amountOut,
+        executions: 1n,
+      };
+    } else {
+      const volumeIn = existing.volumeIn + amountIn;
+      const volumeOut = existing.volumeOut + amountOut;
+      snapshot = {
+        ...existing,
+        highPrice: price > existing.highPrice ? price : existing.highPrice,
+        lowPrice: price < existing.lowPrice ? price : existing.lowPrice,
+        closePrice: price,
+        averagePrice: priceOf(volumeIn, volumeOut),
+        volumeIn: volumeIn,
+        volumeOut: volumeOut,
+        executions: existing.executions + 1n,
+      };
+    }
+
+    context.TokenPriceSnapshot.set(snapshot);
+  }
+}
+
+// Update a user's running cost basis for a token pair
+async function recordUserPosition(
+  context: any,
+  chainId: number,
+  user: string,
+  tokenInAddress: string,
+  tokenOutAddress: string,
+  amountIn: bigint,
+  amountOut: bigint,
+  timestamp: bigint
+) {
+  const tokenIn = tokenInAddress.toLowerCase();
+  const tokenOut = tokenOutAddress.toLowerCase();
+  const positionId = chainScopedId(chainId, user, tokenIn, tokenOut);
+  const existing: UserPosition | undefined = await context.UserPosition.get(positionId);
+
+  const totalAmountIn = (existing?.totalAmountIn ?? 0n) + amountIn;
+  const totalAmountOut = (existing?.totalAmountOut ?? 0n) + amountOut;
+
+  const position: UserPosition = {
+    id: positionId,
+    chainId: chainId,
+    user: user,
+    tokenIn: tokenIn,
+    tokenOut: tokenOut,
+    totalAmountIn: totalAmountIn,
+    totalAmountOut: totalAmountOut,
+    averagePrice: priceOf(totalAmountIn, totalAmountOut),
+    executions: (existing?.executions ?? 0n) + 1n,
+    firstExecutedAt: existing?.firstExecutedAt ?? timestamp,
+    lastExecutedAt: timestamp,
+  };
+
+  context.UserPosition.set(position);
+}
+
+type StrategyTotals = {
+  totalAmountIn: bigint;
+  totalAmountOut: bigint;
+  averagePrice: bigint;
+};
+
+// Fold an execution into the strategy's snapshot for the day. `link` sets the
+// relation to either a Strategy or a SmartMoneyStrategy.
+async function recordStrategyDay(
+  context: any,
+  chainId: number,
+  contractAddress: string,
+  snapshotPrefix: string,
+  link: { strategy_id: string | undefined; smartMoneyStrategy_id: string | undefined },
+  strategyId: string,
+  totals: StrategyTotals,
+  amountIn: bigint,
+  amountOut: bigint,
+  gasCost: bigint,
+  timestamp: number
+) {
+  const dayStart = periodStart(timestamp, 86400);
+  const snapshotId = contractScopedId(chainId, contractAddress, `${snapshotPrefix}${strategyId}`, dayStart);
+  const existing: StrategyDaySnapshot | undefined = await context.StrategyDaySnapshot.get(snapshotId);
+
+  const snapshot: StrategyDaySnapshot = {
+    id: snapshotId,
+    chainId: chainId,
+    contract: contractAddress.toLowerCase(),
+    ...link,
+    strategyId: strategyId,
+    dayStart: dayStart,
+    executions: (existing?.executions ?? 0n) + 1n,
+    amountIn: (existing?.amountIn ?? 0n) + amountIn,
+    amountOut: (existing?.amountOut ?? 0n) + amountOut,
+    gasCost: (existing?.gasCost ?? 0n) + gasCost,
+    cumulativeAmountIn: totals.totalAmountIn,
+    cumulativeAmountOut: totals.totalAmountOut,
+    averagePrice: totals.averagePrice,
+    closePrice: priceOf(amountIn, amountOut),
+  };
+
+  context.StrategyDaySnapshot.set(snapshot);
+}
+
+// Record (or revoke) an executor on the contract that emitted the event
+function setExecutor(
+  context: any,
+  chainId: number,
+  contractAddress: string,
+  executorAddress: string,
+  authorized: boolean,
+  block: BlockInfo
+) {
+  const contract = contractAddress.toLowerCase();
+  const address = executorAddress.toLowerCase();
+
+  const executor: Executor = {
+    id: chainScopedId(chainId, contract, address),
+    chainId: chainId,
+    address: address,
+    contract: contract,
+    authorized: authorized,
+    updatedAt: BigInt(block.timestamp),
+    updatedAtBlock: BigInt(block.number),
+  };
+
+  context.Executor.set(executor);
+}
+
+// ============ AutoStackDCA / AutoStackDCAV2 ============
+
+type StrategyCreatedParams = {
+  strategyId: bigint;
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  amountPerExecution: bigint;
+  frequency: bigint;
+  totalExecutions: bigint;
+};
+
+type ExecutionParams = {
+  strategyId: bigint;
+  user: string;
+  amountIn: bigint;
+  amountOut: bigint;
+  executionsLeft: bigint;
+};
+
+// Shared by both contracts; AutoStackDCA strategies are always BASIC (0)
+async function handleStrategyCreated(
+  context: any,
+  event: EventInfo<StrategyCreatedParams>,
+  strategyType: number
+) {
+  const { chainId, block, params } = event;
+  const strategyId = params.strategyId.toString();
+  const strategyKey = contractScopedId(chainId, event.srcAddress, strategyId);
+  const user = params.user.toLowerCase(); // Lowercase for consistent querying
+  const isSmartMoney = strategyType !== 0;
+
+  // Already indexed; counting it again would double the stats
+  if (await context.Strategy.get(strategyKey)) {
+    return;
+  }
 
   // Create the Strategy entity
   const strategy: Strategy = {
-    id: strategyId,
+    id: strategyKey,
+    chainId: chainId,
+    contract: event.srcAddress.toLowerCase(),
     strategyId: strategyId,
     user: user,
-    tokenIn: event.params.tokenIn,
-    tokenOut: event.params.tokenOut,
-    amountPerExecution: event.params.amountPerExecution,
-    frequency: event.params.frequency,
-    totalExecutions: event.params.totalExecutions,
+    strategyType: strategyType,
+    tokenIn: params.tokenIn,
+    tokenOut: params.tokenOut,
+    amountPerExecution: params.amountPerExecution,
+    frequency: params.frequency,
+    totalExecutions: params.totalExecutions,
     executionsCompleted: 0n,
     totalAmountIn: 0n,
     totalAmountOut: 0n,
+    averagePrice: 0n,
     status: "ACTIVE",
-    createdAt: BigInt(event.block.timestamp),
-    createdAtBlock: BigInt(event.block.number),
+    paused: false,
+    createdAt: BigInt(block.timestamp),
+    createdAtBlock: BigInt(block.number),
+    updatedAtBlock: BigInt(block.number),
     completedAt: undefined,
     cancelledAt: undefined,
+    signalCount: 0,
+    signalThreshold: undefined,
+    totalGasUsed: 0n,
+    totalGasCost: 0n,
   };
 
   context.Strategy.set(strategy);
 
   // Update UserStats
-  let userStats = await getOrCreateUserStats(context, user);
-  const isNewUser = userStats.totalStrategies === 0n;
-
+  let userStats = await getOrCreateUserStats(context, chainId, user);
   userStats = {
     ...userStats,
-    totalStrategies: userStats.totalStrategies + 1n,
-    activeStrategies: userStats.activeStrategies + 1n,
+    ...statusTransition(userStats, undefined, "ACTIVE"),
+    smartMoneyStrategies: isSmartMoney
+      ? userStats.smartMoneyStrategies + 1n
+      : userStats.smartMoneyStrategies,
   };
   context.UserStats.set(userStats);
 
   // Update GlobalStats
-  let globalStats = await getOrCreateGlobalStats(context);
+  let globalStats = await getOrCreateGlobalStats(context, chainId);
   globalStats = {
     ...globalStats,
-    totalStrategies: globalStats.totalStrategies + 1n,
-    activeStrategies: globalStats.activeStrategies + 1n,
-    uniqueUsers: isNewUser
-      ? globalStats.uniqueUsers + 1n
-      : globalStats.uniqueUsers,
+    ...statusTransition(globalStats, undefined, "ACTIVE"),
+    totalSmartMoneyStrategies: isSmartMoney
+      ? globalStats.totalSmartMoneyStrategies + 1n
+      : globalStats.totalSmartMoneyStrategies,
   };
   context.GlobalStats.set(globalStats);
-});
 
-// DCAExecuted event handler
-AutoStackDCA.DCAExecuted.handler(async ({ event, context }) => {
-  const strategyId = event.params.strategyId.toString();
-  const user = event.params.user.toLowerCase();
-  const amountIn = event.params.amountIn;
-  const amountOut = event.params.amountOut;
+  await trackStrategyCreated(context, chainId, params.tokenOut);
+}
+
+type SmartMoneyTrigger = { whaleWallet: string; whaleAmountUsd: bigint };
+
+// Shared by DCAExecuted on both contracts and V2's SmartMoneyTriggered (which
+// passes the whale trade behind it). Returns false if the log was already indexed.
+async function handleExecution(
+  context: any,
+  event: EventInfo<ExecutionParams>,
+  smartMoney: SmartMoneyTrigger | undefined
+): Promise<boolean> {
+  const { chainId, block, params } = event;
+  const triggeredBySmartMoney = smartMoney !== undefined;
+  const strategyId = params.strategyId.toString();
+  const strategyKey = contractScopedId(chainId, event.srcAddress, strategyId);
+  const user = params.user.toLowerCase();
+  const amountIn = params.amountIn;
+  const amountOut = params.amountOut;
+  const smartMoneyCount = triggeredBySmartMoney ? 1n : 0n;
+  const receipt = executionReceipt(event.transaction);
 
   // Create Execution entity - use block number and logIndex for unique ID
-  const executionId = `${event.block.number}-${event.logIndex}`;
+  const executionId = contractScopedId(chainId, event.srcAddress, block.number, event.logIndex);
+  if (await context.Execution.get(executionId)) {
+    return false;
+  }
+
   const execution: Execution = {
     id: executionId,
-    strategy_id: strategyId,
+    chainId: chainId,
+    contract: event.srcAddress.toLowerCase(),
+    strategy_id: strategyKey,
     strategyId: strategyId,
     user: user,
     amountIn: amountIn,
     amountOut: amountOut,
-    executionsLeft: event.params.executionsLeft,
-    executedAt: BigInt(event.block.timestamp),
-    executedAtBlock: BigInt(event.block.number),
-    transactionHash: `${event.block.hash}`,
+    executionsLeft: params.executionsLeft,
+    price: priceOf(amountIn, amountOut),
+    triggeredBySmartMoney: triggeredBySmartMoney,
+    whaleWallet: smartMoney?.whaleWallet.toLowerCase(),
+    whaleAmountUsd: smartMoney?.whaleAmountUsd,
+    executedAt: BigInt(block.timestamp),
+    executedAtBlock: BigInt(block.number),
+    ...receipt,
   };
 
   context.Execution.set(execution);
 
   // Update Strategy entity
-  let strategy = await context.Strategy.get(strategyId);
+  let strategy = await context.Strategy.get(strategyKey);
   if (strategy) {
+    const totalAmountIn = strategy.totalAmountIn + amountIn;
+    const totalAmountOut = strategy.totalAmountOut + amountOut;
     strategy = {
       ...strategy,
       executionsCompleted: strategy.executionsCompleted + 1n,
-      totalAmountIn: strategy.totalAmountIn + amountIn,
-      totalAmountOut: strategy.totalAmountOut + amountOut,
+      totalAmountIn: totalAmountIn,
+      totalAmountOut: totalAmountOut,
+      averagePrice: priceOf(totalAmountIn, totalAmountOut),
+      totalGasUsed: strategy.totalGasUsed + receipt.gasUsed,
+      totalGasCost: strategy.totalGasCost + receipt.gasCost,
+      // The contract resets its signal accumulator once it executes
+      signalCount: triggeredBySmartMoney ? 0 : strategy.signalCount,
+      updatedAtBlock: BigInt(block.number),
     };
     context.Strategy.set(strategy);
+
+    await recordTokenPrice(
+      context,
+      chainId,
+      strategy.tokenIn,
+      strategy.tokenOut,
+      amountIn,
+      amountOut,
+      block.timestamp
+    );
+    await recordUserPosition(
+      context,
+      chainId,
+      user,
+      strategy.tokenIn,
+      strategy.tokenOut,
+      amountIn,
+      amountOut,
+      BigInt(block.timestamp)
+    );
+    await recordStrategyDay(
+      context,
+      chainId,
+      event.srcAddress,
+      "",
+      { strategy_id: strategyKey, smartMoneyStrategy_id: undefined },
+      strategyId,
+      strategy,
+      amountIn,
+      amountOut,
+      receipt.gasCost,
+      block.timestamp
+    );
+
+    const tokenAnalytics = await getOrCreateTokenAnalytics(context, chainId, strategy.tokenOut);
+    context.TokenAnalytics.set({
+      ...tokenAnalytics,
+      totalVolume: tokenAnalytics.totalVolume + amountOut,
+      smartMoneyBuys: tokenAnalytics.smartMoneyBuys + smartMoneyCount,
+      lastSmartMoneyActivity: triggeredBySmartMoney
+        ? BigInt(block.timestamp)
+        : tokenAnalytics.lastSmartMoneyActivity,
+    });
+  } else {
+    context.log.warn(`Execution ${executionId} for unknown strategy ${strategyKey}`);
   }
 
   // Update UserStats
-  let userStats = await getOrCreateUserStats(context, user);
+  let userStats = await getOrCreateUserStats(context, chainId, user);
   userStats = {
     ...userStats,
     totalExecutions: userStats.totalExecutions + 1n,
     totalAmountIn: userStats.totalAmountIn + amountIn,
     totalAmountOut: userStats.totalAmountOut + amountOut,
+    smartMoneyExecutions: userStats.smartMoneyExecutions + smartMoneyCount,
+    smartMoneyTriggeredTrades: userStats.smartMoneyTriggeredTrades + smartMoneyCount,
   };
   context.UserStats.set(userStats);
 
   // Update GlobalStats
-  let globalStats = await getOrCreateGlobalStats(context);
+  let globalStats = await getOrCreateGlobalStats(context, chainId);
   globalStats = {
     ...globalStats,
     totalExecutions: globalStats.totalExecutions + 1n,
     totalAmountIn: globalStats.totalAmountIn + amountIn,
     totalAmountOut: globalStats.totalAmountOut + amountOut,
+    totalSmartMoneyExecutions: globalStats.totalSmartMoneyExecutions + smartMoneyCount,
+  };
+  context.GlobalStats.set(globalStats);
+
+  return true;
+}
+
+// Shared by StrategyCompleted and StrategyCancelled on both contracts. Stats
+// move out of the strategy's current status, so only an ACTIVE strategy can
+// close and a repeated event changes nothing.
+async function handleStrategyClosed(
+  context: any,
+  event: EventInfo<{ strategyId: bigint; user: string }>,
+  status: "COMPLETED" | "CANCELLED"
+) {
+  const { chainId, block } = event;
+  const strategyKey = contractScopedId(chainId, event.srcAddress, event.params.strategyId);
+  const timestamp = BigInt(block.timestamp);
+
+  const strategy: Strategy | undefined = await context.Strategy.get(strategyKey);
+  if (!strategy) {
+    context.log.warn(`Strategy ${strategyKey} ${status.toLowerCase()} before it was indexed`);
+    return;
+  }
+
+  const previousStatus = strategy.status as StrategyStatus;
+  if (previousStatus !== "ACTIVE") {
+    return;
+  }
+
+  // Update Strategy entity
+  context.Strategy.set({
+    ...strategy,
+    status: status,
+    paused: false,
+    updatedAtBlock: BigInt(block.number),
+    completedAt: status === "COMPLETED" ? timestamp : strategy.completedAt,
+    cancelledAt: status === "CANCELLED" ? timestamp : strategy.cancelledAt,
+  });
+
+  // Update UserStats
+  let userStats = await getOrCreateUserStats(context, chainId, strategy.user);
+  userStats = {
+    ...userStats,
+    ...statusTransition(userStats, previousStatus, status),
+  };
+  context.UserStats.set(userStats);
+
+  // Update GlobalStats
+  let globalStats = await getOrCreateGlobalStats(context, chainId);
+  globalStats = {
+    ...globalStats,
+    ...statusTransition(globalStats, previousStatus, status),
   };
   context.GlobalStats.set(globalStats);
+
+  await trackStrategyClosed(context, chainId, strategy.tokenOut);
+}
+
+// StrategyCreated event handler
+AutoStackDCA.StrategyCreated.handler(async ({ event, context }) => {
+  await handleStrategyCreated(context, event, 0);
+});
+
+// DCAExecuted event handler
+AutoStackDCA.DCAExecuted.handler(async ({ event, context }) => {
+  await handleExecution(context, event, undefined);
 });
 
 // StrategyCompleted event handler
 AutoStackDCA.StrategyCompleted.handler(async ({ event, context }) => {
-  const strategyId = event.params.strategyId.toString();
-  const user = event.params.user.toLowerCase();
+  await handleStrategyClosed(context, event, "COMPLETED");
+});
 
-  // Update Strategy entity
-  let strategy = await context.Strategy.get(strategyId);
+// StrategyCancelled event handler
+AutoStackDCA.StrategyCancelled.handler(async ({ event, context }) => {
+  await handleStrategyClosed(context, event, "CANCELLED");
+});
+
+// V2 StrategyCreated event handler
+AutoStackDCAV2.StrategyCreated.handler(async ({ event, context }) => {
+  await handleStrategyCreated(context, event, Number(event.params.strategyType));
+});
+
+// V2 DCAExecuted event handler (time-based executions)
+AutoStackDCAV2.DCAExecuted.handler(async ({ event, context }) => {
+  await handleExecution(context, event, undefined);
+});
+
+// V2 SmartMoneyTriggered event handler (emitted instead of DCAExecuted for signal executions)
+AutoStackDCAV2.SmartMoneyTriggered.handler(async ({ event, context }) => {
+  const strategy = await context.Strategy.get(contractScopedId(event.chainId, event.srcAddress, event.params.strategyId));
+  const timestamp = BigInt(event.block.timestamp);
+
+  // The event omits executionsLeft; derive it from the strategy before this execution
+  const executionsLeft = strategy
+    ? strategy.totalExecutions - strategy.executionsCompleted - 1n
+    : 0n;
+
+  const recorded = await handleExecution(
+    context,
+    { ...event, params: { ...event.params, executionsLeft } },
+    { whaleWallet: event.params.whaleWallet, whaleAmountUsd: event.params.whaleAmountUsd }
+  );
+  if (!recorded) {
+    return;
+  }
+
+  // Update the whale wallet that triggered the trade
+  const trackedWallet = await getOrCreateTrackedWallet(
+    context,
+    event.chainId,
+    event.params.whaleWallet,
+    timestamp
+  );
+  context.TrackedWallet.set({
+    ...trackedWallet,
+    totalTrades: trackedWallet.totalTrades + 1n,
+    totalVolumeUsd: trackedWallet.totalVolumeUsd + event.params.whaleAmountUsd,
+    lastSeen: timestamp,
+    triggeredExecutions: trackedWallet.triggeredExecutions + 1n,
+  });
+});
+
+// V2 SignalAccumulated event handler (signal accepted, threshold not reached yet)
+AutoStackDCAV2.SignalAccumulated.handler(async ({ event, context }) => {
+  let strategy = await context.Strategy.get(contractScopedId(event.chainId, event.srcAddress, event.params.strategyId));
   if (strategy) {
     strategy = {
       ...strategy,
-      status: "COMPLETED",
-      completedAt: BigInt(event.block.timestamp),
+      signalCount: Number(event.params.currentCount),
+      signalThreshold: Number(event.params.threshold),
+      updatedAtBlock: BigInt(event.block.number),
     };
     context.Strategy.set(strategy);
   }
+});
+
+// V2 StrategyCompleted event handler
+AutoStackDCAV2.StrategyCompleted.handler(async ({ event, context }) => {
+  await handleStrategyClosed(context, event, "COMPLETED");
+});
+
+// V2 StrategyCancelled event handler
+AutoStackDCAV2.StrategyCancelled.handler(async ({ event, context }) => {
+  await handleStrategyClosed(context, event, "CANCELLED");
+});
+
+// V2 StrategyPaused event handler
+AutoStackDCAV2.StrategyPaused.handler(async ({ event, context }) => {
+  const strategy = await context.Strategy.get(contractScopedId(event.chainId, event.srcAddress, event.params.strategyId));
+  if (strategy) {
+    context.Strategy.set({ ...strategy, paused: true, updatedAtBlock: BigInt(event.block.number) });
+  }
+});
+
+// V2 StrategyResumed event handler
+AutoStackDCAV2.StrategyResumed.handler(async ({ event, context }) => {
+  const strategy = await context.Strategy.get(contractScopedId(event.chainId, event.srcAddress, event.params.strategyId));
+  if (strategy) {
+    context.Strategy.set({ ...strategy, paused: false, updatedAtBlock: BigInt(event.block.number) });
+  }
+});
+
+// V2 StrategyToppedUp event handler (owner funded more executions). The total
+// is derived from the event's executionsLeft rather than incremented, so a
+// replayed event doesn't count the top-up twice.
+AutoStackDCAV2.StrategyToppedUp.handler(async ({ event, context }) => {
+  const strategy = await context.Strategy.get(contractScopedId(event.chainId, event.srcAddress, event.params.strategyId));
+  if (strategy) {
+    context.Strategy.set({
+      ...strategy,
+      totalExecutions: strategy.executionsCompleted + event.params.executionsLeft,
+      updatedAtBlock: BigInt(event.block.number),
+    });
+  }
+});
+
+// V2 SmartMoneyConfigUpdated event handler
+AutoStackDCAV2.SmartMoneyConfigUpdated.handler(async ({ event, context }) => {
+  const strategy = await context.Strategy.get(contractScopedId(event.chainId, event.srcAddress, event.params.strategyId));
+  if (strategy) {
+    context.Strategy.set({
+      ...strategy,
+      signalThreshold: Number(event.params.signalThreshold),
+      updatedAtBlock: BigInt(event.block.number),
+    });
+  }
+});
+
+// V2 ExecutorUpdated event handler
+AutoStackDCAV2.ExecutorUpdated.handler(async ({ event, context }) => {
+  setExecutor(
+    context,
+    event.chainId,
+    event.srcAddress,
+    event.params.executor,
+    event.params.authorized,
+    event.block
+  );
+});
+
+// ============ SmartMoneyDCA ============
+
+// StrategyCreated event handler
+SmartMoneyDCA.StrategyCreated.handler(async ({ event, context }) => {
+  const chainId = event.chainId;
+  const strategyId = event.params.strategyId.toString();
+  const strategyKey = chainScopedId(chainId, strategyId);
+  const user = event.params.user.toLowerCase();
+
+  // Already indexed; counting it again would double the stats
+  if (await context.SmartMoneyStrategy.get(strategyKey)) {
+    return;
+  }
+
+  // Limits, interval and expiry aren't emitted; maxExecutions is derived on execution
+  const strategy: SmartMoneyStrategy = {
+    id: strategyKey,
+    chainId: chainId,
+    strategyId: strategyId,
+    user: user,
+    strategyType: Number(event.params.strategyType),
+    triggerType: Number(event.params.triggerType),
+    tokenIn: event.params.tokenIn,
+    tokenOut: event.params.tokenOut,
+    amountPerExecution: event.params.amountPerExecution,
+    totalBudget: event.params.totalBudget,
+    usedBudget: 0n,
+    totalAmountOut: 0n,
+    averagePrice: 0n,
+    maxExecutions: 0n,
+    executionsCompleted: 0n,
+    minInterval: 0n,
+    lastExecution: 0n,
+    expiresAt: 0n,
+    active: true,
+    createdAt: BigInt(event.block.timestamp),
+    createdAtBlock: BigInt(event.block.number),
+    totalGasUsed: 0n,
+    totalGasCost: 0n,
+    minWhaleAmount: undefined,
+    labelScore: undefined,
+    signalThreshold: undefined,
+    cooldownPeriod: undefined,
+    targetPrice: undefined,
+    slippageBps: undefined,
+    buyBelow: undefined,
+  };
+
+  context.SmartMoneyStrategy.set(strategy);
 
   // Update UserStats
-  let userStats = await getOrCreateUserStats(context, user);
+  let userStats = await getOrCreateUserStats(context, chainId, user);
   userStats = {
     ...userStats,
-    activeStrategies: userStats.activeStrategies - 1n,
-    completedStrategies: userStats.completedStrategies + 1n,
+    smartMoneyStrategies: userStats.smartMoneyStrategies + 1n,
   };
   context.UserStats.set(userStats);
 
   // Update GlobalStats
-  let globalStats = await getOrCreateGlobalStats(context);
+  let globalStats = await getOrCreateGlobalStats(context, chainId);
   globalStats = {
     ...globalStats,
-    activeStrategies: globalStats.activeStrategies - 1n,
-    completedStrategies: globalStats.completedStrategies + 1n,
+    totalSmartMoneyStrategies: globalStats.totalSmartMoneyStrategies + 1n,
   };
   context.GlobalStats.set(globalStats);
+
+  await trackStrategyCreated(context, chainId, event.params.tokenOut);
 });
 
-// StrategyCancelled event handler
-AutoStackDCA.StrategyCancelled.handler(async ({ event, context }) => {
+// SmartMoneyConfigSet event handler
+SmartMoneyDCA.SmartMoneyConfigSet.handler(async ({ event, context }) => {
+  let strategy = await context.SmartMoneyStrategy.get(
+    chainScopedId(event.chainId, event.params.strategyId)
+  );
+  if (strategy) {
+    strategy = {
+      ...strategy,
+      minWhaleAmount: event.params.minWhaleAmount,
+      labelScore: event.params.labelScore,
+      signalThreshold: Number(event.params.signalThreshold),
+    };
+    context.SmartMoneyStrategy.set(strategy);
+  }
+});
+
+// PriceConfigSet event handler
+SmartMoneyDCA.PriceConfigSet.handler(async ({ event, context }) => {
+  let strategy = await context.SmartMoneyStrategy.get(
+    chainScopedId(event.chainId, event.params.strategyId)
+  );
+  if (strategy) {
+    strategy = {
+      ...strategy,
+      targetPrice: event.params.targetPrice,
+      slippageBps: event.params.slippageBps,
+      buyBelow: event.params.buyBelow,
+    };
+    context.SmartMoneyStrategy.set(strategy);
+  }
+});
+
+// SmartMoneySignalReceived event handler - the strategy is linked by the DCAExecuted that follows
+// in the same transaction, so the signal is keyed by transaction hash
+SmartMoneyDCA.SmartMoneySignalReceived.handler(async ({ event, context }) => {
+  const chainId = event.chainId;
+  const timestamp = BigInt(event.block.timestamp);
+  const signalId = chainScopedId(chainId, event.transaction.hash);
+
+  if (await context.SmartMoneySignal.get(signalId)) {
+    return;
+  }
+
+  const signal: SmartMoneySignal = {
+    id: signalId,
+    chainId: chainId,
+    signalHash: event.params.signalHash,
+    strategy_id: undefined,
+    walletAddress: event.params.wallet.toLowerCase(),
+    label: event.params.label,
+    score: undefined,
+    amount: event.params.amount,
+    token: event.params.token.toLowerCase(),
+    timestamp: timestamp,
+    originalTxHash: undefined,
+    transactionHash: event.transaction.hash,
+    triggeredExecution: false,
+    createdAt: timestamp,
+    createdAtBlock: BigInt(event.block.number),
+  };
+
+  context.SmartMoneySignal.set(signal);
+
+  // Update the whale wallet behind the signal
+  const trackedWallet = await getOrCreateTrackedWallet(context, chainId, event.params.wallet, timestamp);
+  context.TrackedWallet.set({
+    ...trackedWallet,
+    labels: trackedWallet.labels.includes(event.params.label)
+      ? trackedWallet.labels
+      : [...trackedWallet.labels, event.params.label],
+    totalTrades: trackedWallet.totalTrades + 1n,
+    totalVolumeUsd: trackedWallet.totalVolumeUsd + event.params.amount,
+    lastSeen: timestamp,
+  });
+
+  // Update GlobalStats
+  let globalStats = await getOrCreateGlobalStats(context, chainId);
+  globalStats = {
+    ...globalStats,
+    totalSmartMoneySignals: globalStats.totalSmartMoneySignals + 1n,
+  };
+  context.GlobalStats.set(globalStats);
+});
+
+// DCAExecuted event handler
+SmartMoneyDCA.DCAExecuted.handler(async ({ event, context }) => {
+  const chainId = event.chainId;
   const strategyId = event.params.strategyId.toString();
+  const strategyKey = chainScopedId(chainId, strategyId);
   const user = event.params.user.toLowerCase();
+  const amountIn = event.params.amountIn;
+  const amountOut = event.params.amountOut;
+  const triggerReason = Number(event.params.triggerReason);
+  const timestamp = BigInt(event.block.timestamp);
+  const receipt = executionReceipt(event.transaction);
+  const executionId = chainScopedId(chainId, event.block.number, event.logIndex);
 
-  // Update Strategy entity
-  let strategy = await context.Strategy.get(strategyId);
+  if (await context.SmartMoneyExecution.get(executionId)) {
+    return;
+  }
+
+  // The fee is taken from amountIn before the swap
+  const { protocolFeeBps } = await getOrCreateGlobalStats(context, chainId);
+  const protocolFee = (amountIn * protocolFeeBps) / 10000n;
+
+  // A signal-triggered execution follows its SmartMoneySignalReceived in the same transaction
+  let signal: SmartMoneySignal | undefined;
+  if (triggerReason === TRIGGER_SMART_MONEY_BUY || triggerReason === TRIGGER_SMART_MONEY_SELL) {
+    signal = await context.SmartMoneySignal.get(chainScopedId(chainId, event.transaction.hash));
+  }
+
+  const execution: SmartMoneyExecution = {
+    id: executionId,
+    chainId: chainId,
+    strategy_id: strategyKey,
+    strategyId: strategyId,
+    user: user,
+    amountIn: amountIn,
+    amountOut: amountOut,
+    triggerReason: triggerReason,
+    signalHash: signal?.signalHash,
+    price: priceOf(amountIn, amountOut),
+    protocolFee: protocolFee,
+    executedAt: timestamp,
+    executedAtBlock: BigInt(event.block.number),
+    ...receipt,
+  };
+
+  context.SmartMoneyExecution.set(execution);
+
+  if (signal) {
+    context.SmartMoneySignal.set({
+      ...signal,
+      strategy_id: strategyKey,
+      triggeredExecution: true,
+    });
+
+    const trackedWallet = await getOrCreateTrackedWallet(
+      context,
+      chainId,
+      signal.walletAddress,
+      timestamp
+    );
+    context.TrackedWallet.set({
+      ...trackedWallet,
+      triggeredExecutions: trackedWallet.triggeredExecutions + 1n,
+    });
+  }
+
+  // Update SmartMoneyStrategy entity
+  let strategy = await context.SmartMoneyStrategy.get(strategyKey);
   if (strategy) {
+    const executionsCompleted = strategy.executionsCompleted + 1n;
+    const usedBudget = strategy.usedBudget + amountIn;
+    const totalAmountOut = strategy.totalAmountOut + amountOut;
     strategy = {
       ...strategy,
-      status: "CANCELLED",
-      cancelledAt: BigInt(event.block.timestamp),
+      usedBudget: usedBudget,
+      totalAmountOut: totalAmountOut,
+      averagePrice: priceOf(usedBudget, totalAmountOut),
+      executionsCompleted: executionsCompleted,
+      lastExecution: timestamp,
+      maxExecutions: event.params.executionsLeft === MAX_UINT256
+        ? 0n
+        : executionsCompleted + event.params.executionsLeft,
+      totalGasUsed: strategy.totalGasUsed + receipt.gasUsed,
+      totalGasCost: strategy.totalGasCost + receipt.gasCost,
     };
-    context.Strategy.set(strategy);
+    context.SmartMoneyStrategy.set(strategy);
+
+    await recordTokenPrice(
+      context,
+      chainId,
+      strategy.tokenIn,
+      strategy.tokenOut,
+      amountIn,
+      amountOut,
+      event.block.timestamp
+    );
+    await recordUserPosition(
+      context,
+      chainId,
+      user,
+      strategy.tokenIn,
+      strategy.tokenOut,
+      amountIn,
+      amountOut,
+      timestamp
+    );
+    await recordStrategyDay(
+      context,
+      chainId,
+      event.srcAddress,
+      "sm-",
+      { strategy_id: undefined, smartMoneyStrategy_id: strategyKey },
+      strategyId,
+      { totalAmountIn: usedBudget, totalAmountOut: totalAmountOut, averagePrice: strategy.averagePrice },
+      amountIn,
+      amountOut,
+      receipt.gasCost,
+      event.block.timestamp
+    );
+
+    const tokenAnalytics = await getOrCreateTokenAnalytics(context, chainId, strategy.tokenOut);
+    context.TokenAnalytics.set({
+      ...tokenAnalytics,
+      totalVolume: tokenAnalytics.totalVolume + amountOut,
+      smartMoneyBuys: triggerReason === TRIGGER_SMART_MONEY_BUY
+        ? tokenAnalytics.smartMoneyBuys + 1n
+        : tokenAnalytics.smartMoneyBuys,
+      smartMoneySells: triggerReason === TRIGGER_SMART_MONEY_SELL
+        ? tokenAnalytics.smartMoneySells + 1n
+        : tokenAnalytics.smartMoneySells,
+      lastSmartMoneyActivity: signal ? timestamp : tokenAnalytics.lastSmartMoneyActivity,
+    });
+  } else {
+    context.log.warn(`Execution ${executionId} for unknown smart money strategy ${strategyKey}`);
   }
 
   // Update UserStats
-  let userStats = await getOrCreateUserStats(context, user);
+  let userStats = await getOrCreateUserStats(context, chainId, user);
   userStats = {
     ...userStats,
-    activeStrategies: userStats.activeStrategies - 1n,
-    cancelledStrategies: userStats.cancelledStrategies + 1n,
+    smartMoneyExecutions: userStats.smartMoneyExecutions + 1n,
+    smartMoneyTriggeredTrades: signal
+      ? userStats.smartMoneyTriggeredTrades + 1n
+      : userStats.smartMoneyTriggeredTrades,
   };
   context.UserStats.set(userStats);
 
   // Update GlobalStats
-  let globalStats = await getOrCreateGlobalStats(context);
+  let globalStats = await getOrCreateGlobalStats(context, chainId);
   globalStats = {
     ...globalStats,
-    activeStrategies: globalStats.activeStrategies - 1n,
-    cancelledStrategies: globalStats.cancelledStrategies + 1n,
+    totalSmartMoneyExecutions: globalStats.totalSmartMoneyExecutions + 1n,
+    totalProtocolFees: globalStats.totalProtocolFees + protocolFee,
   };
   context.GlobalStats.set(globalStats);
 });
+
+// StrategyCompleted event handler
+SmartMoneyDCA.StrategyCompleted.handler(async ({ event, context }) => {
+  let strategy = await context.SmartMoneyStrategy.get(
+    chainScopedId(event.chainId, event.params.strategyId)
+  );
+  if (strategy && strategy.active) {
+    strategy = { ...strategy, active: false };
+    context.SmartMoneyStrategy.set(strategy);
+
+    await trackStrategyClosed(context, event.chainId, strategy.tokenOut);
+  }
+});
+
+// StrategyCancelled event handler
+SmartMoneyDCA.StrategyCancelled.handler(async ({ event, context }) => {
+  let strategy = await context.SmartMoneyStrategy.get(
+    chainScopedId(event.chainId, event.params.strategyId)
+  );
+  if (strategy && strategy.active) {
+    strategy = { ...strategy, active: false };
+    context.SmartMoneyStrategy.set(strategy);
+
+    await trackStrategyClosed(context, event.chainId, strategy.tokenOut);
+  }
+});
+
+// ExecutorAuthorized event handler
+SmartMoneyDCA.ExecutorAuthorized.handler(async ({ event, context }) => {
+  setExecutor(
+    context,
+    event.chainId,
+    event.srcAddress,
+    event.params.executor,
+    event.params.authorized,
+    event.block
+  );
+});
+
+// ProtocolFeeUpdated event handler
+SmartMoneyDCA.ProtocolFeeUpdated.handler(async ({ event, context }) => {
+  const globalStats = await getOrCreateGlobalStats(context, event.chainId);
+  context.GlobalStats.set({
+    ...globalStats,
+    protocolFeeBps: event.params.newFeeBps,
+  });
+});
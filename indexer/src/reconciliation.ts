@@ -0,0 +1,227 @@
+/**
+ * Stats reconciliation
+ *
+ * Recomputes UserStats and GlobalStats from the raw Strategy, Execution and
+ * SmartMoney* entities and diffs them against what the handlers stored. The
+ * test suite runs it against MockDb; entities fetched from a running
+ * indexer's GraphQL API can be checked the same way.
+ */
+
+import type {
+  Strategy,
+  Execution,
+  SmartMoneyStrategy,
+  SmartMoneyExecution,
+  SmartMoneySignal,
+  UserStats,
+  GlobalStats,
+} from "../generated";
+
+// The entity fields the stats are derived from
+export type RawEntities = {
+  strategies: Pick<Strategy, "chainId" | "user" | "strategyType" | "status">[];
+  executions: Pick<
+    Execution,
+    "chainId" | "user" | "amountIn" | "amountOut" | "triggeredBySmartMoney"
+  >[];
+  smartMoneyStrategies: Pick<SmartMoneyStrategy, "chainId" | "user">[];
+  smartMoneyExecutions: Pick<
+    SmartMoneyExecution,
+    "chainId" | "user" | "signalHash" | "protocolFee"
+  >[];
+  smartMoneySignals: Pick<SmartMoneySignal, "chainId">[];
+};
+
+type Mutable<T> = { -readonly [Field in keyof T]: T[Field] };
+
+// Derived counters only; protocolFeeBps is configuration, not a total
+export type ReconciledUserStats = Mutable<Omit<UserStats, "id">>;
+export type ReconciledGlobalStats = Mutable<Omit<GlobalStats, "id" | "protocolFeeBps">>;
+
+export type StatsMismatch = {
+  entity: "UserStats" | "GlobalStats";
+  id: string;
+  field: string;
+  expected: bigint | undefined;
+  actual: bigint | undefined;
+};
+
+const STATUS_FIELDS: Record<string, "activeStrategies" | "completedStrategies" | "cancelledStrategies"> = {
+  ACTIVE: "activeStrategies",
+  COMPLETED: "completedStrategies",
+  CANCELLED: "cancelledStrategies",
+};
+
+function emptyUserStats(chainId: number, user: string): ReconciledUserStats {
+  return {
+    chainId: chainId,
+    user: user,
+    totalStrategies: 0n,
+    activeStrategies: 0n,
+    completedStrategies: 0n,
+    cancelledStrategies: 0n,
+    totalExecutions: 0n,
+    totalAmountIn: 0n,
+    totalAmountOut: 0n,
+    smartMoneyStrategies: 0n,
+    smartMoneyExecutions: 0n,
+    smartMoneyTriggeredTrades: 0n,
+  };
+}
+
+function emptyGlobalStats(chainId: number): ReconciledGlobalStats {
+  return {
+    chainId: chainId,
+    totalStrategies: 0n,
+    activeStrategies: 0n,
+    completedStrategies: 0n,
+    cancelledStrategies: 0n,
+    totalExecutions: 0n,
+    totalAmountIn: 0n,
+    totalAmountOut: 0n,
+    uniqueUsers: 0n,
+    totalSmartMoneyStrategies: 0n,
+    totalSmartMoneyExecutions: 0n,
+    totalSmartMoneySignals: 0n,
+    totalProtocolFees: 0n,
+  };
+}
+
+/**
+ * Recompute every UserStats and GlobalStats, keyed by the IDs the handlers use
+ */
+export function recomputeStats(raw: RawEntities): {
+  userStats: Map<string, ReconciledUserStats>;
+  globalStats: Map<string, ReconciledGlobalStats>;
+} {
+  const userStats = new Map<string, ReconciledUserStats>();
+  const globalStats = new Map<string, ReconciledGlobalStats>();
+
+  const user = (chainId: number, address: string) => {
+    const id = `${chainId}-${address}`;
+    let stats = userStats.get(id);
+    if (!stats) {
+      stats = emptyUserStats(chainId, address);
+      userStats.set(id, stats);
+      global(chainId).uniqueUsers += 1n;
+    }
+    return stats;
+  };
+
+  const global = (chainId: number) => {
+    const id = `${chainId}-global`;
+    let stats = globalStats.get(id);
+    if (!stats) {
+      stats = emptyGlobalStats(chainId);
+      globalStats.set(id, stats);
+    }
+    return stats;
+  };
+
+  for (const strategy of raw.strategies) {
+    const u = user(strategy.chainId, strategy.user);
+    const g = global(strategy.chainId);
+    const statusField = STATUS_FIELDS[strategy.status];
+    const smartMoney = strategy.strategyType !== 0 ? 1n : 0n;
+
+    u.totalStrategies += 1n;
+    u[statusField] += 1n;
+    u.smartMoneyStrategies += smartMoney;
+    g.totalStrategies += 1n;
+    g[statusField] += 1n;
+    g.totalSmartMoneyStrategies += smartMoney;
+  }
+
+  for (const execution of raw.executions) {
+    const u = user(execution.chainId, execution.user);
+    const g = global(execution.chainId);
+    const smartMoney = execution.triggeredBySmartMoney ? 1n : 0n;
+
+    u.totalExecutions += 1n;
+    u.totalAmountIn += execution.amountIn;
+    u.totalAmountOut += execution.amountOut;
+    u.smartMoneyExecutions += smartMoney;
+    u.smartMoneyTriggeredTrades += smartMoney;
+    g.totalExecutions += 1n;
+    g.totalAmountIn += execution.amountIn;
+    g.totalAmountOut += execution.amountOut;
+    g.totalSmartMoneyExecutions += smartMoney;
+  }
+
+  // SmartMoneyDCA strategies and executions only count in the smart money totals
+  for (const strategy of raw.smartMoneyStrategies) {
+    user(strategy.chainId, strategy.user).smartMoneyStrategies += 1n;
+    global(strategy.chainId).totalSmartMoneyStrategies += 1n;
+  }
+
+  for (const execution of raw.smartMoneyExecutions) {
+    const u = user(execution.chainId, execution.user);
+    const g = global(execution.chainId);
+
+    u.smartMoneyExecutions += 1n;
+    u.smartMoneyTriggeredTrades += execution.signalHash ? 1n : 0n;
+    g.totalSmartMoneyExecutions += 1n;
+    g.totalProtocolFees += execution.protocolFee;
+  }
+
+  for (const signal of raw.smartMoneySignals) {
+    global(signal.chainId).totalSmartMoneySignals += 1n;
+  }
+
+  return { userStats, globalStats };
+}
+
+// The bigint counters of a stats entity
+function counterFields(stats: object): string[] {
+  return Object.keys(stats).filter((field) => typeof stats[field] === "bigint");
+}
+
+const USER_COUNTERS = counterFields(emptyUserStats(0, ""));
+const GLOBAL_COUNTERS = counterFields(emptyGlobalStats(0));
+
+// A missing entity compares as all zeros
+function diff(
+  entity: StatsMismatch["entity"],
+  id: string,
+  fields: string[],
+  expected: object | undefined,
+  actual: object | undefined
+): StatsMismatch[] {
+  return fields
+    .filter((field) => (expected?.[field] ?? 0n) !== (actual?.[field] ?? 0n))
+    .map((field) => ({
+      entity,
+      id,
+      field,
+      expected: expected?.[field],
+      actual: actual?.[field],
+    }));
+}
+
+/**
+ * Compare stored stats with stats recomputed from the raw entities. Returns
+ * one mismatch per differing counter; an empty list means they agree.
+ */
+export function reconcileStats(
+  raw: RawEntities,
+  stored: { userStats: UserStats[]; globalStats: GlobalStats[] }
+): StatsMismatch[] {
+  const expected = recomputeStats(raw);
+  const mismatches: StatsMismatch[] = [];
+
+  const storedUsers = new Map(stored.userStats.map((stats) => [stats.id, stats]));
+  for (const id of new Set([...expected.userStats.keys(), ...storedUsers.keys()])) {
+    mismatches.push(
+      ...diff("UserStats", id, USER_COUNTERS, expected.userStats.get(id), storedUsers.get(id))
+    );
+  }
+
+  const storedGlobals = new Map(stored.globalStats.map((stats) => [stats.id, stats]));
+  for (const id of new Set([...expected.globalStats.keys(), ...storedGlobals.keys()])) {
+    mismatches.push(
+      ...diff("GlobalStats", id, GLOBAL_COUNTERS, expected.globalStats.get(id), storedGlobals.get(id))
+    );
+  }
+
+  return mismatches;
+}
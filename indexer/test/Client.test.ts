@@ -0,0 +1,12 @@
+import { execFileSync } from "child_process";
+import { resolve } from "path";
+
+describe("Generated GraphQL client", () => {
+  it("is up to date with schema.graphql in the frontend and worker", () => {
+    // Throws with the stale paths if generate:client wasn't run after a schema change
+    execFileSync(process.execPath, ["scripts/generate-client.mjs", "--check"], {
+      cwd: resolve(__dirname, ".."),
+      stdio: "pipe",
+    });
+  });
+});
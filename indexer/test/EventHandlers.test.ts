@@ -0,0 +1,434 @@
+import { expect } from "chai";
+import {
+  CONTRACT,
+  EXECUTOR,
+  GAS_PRICE,
+  GAS_USED,
+  OTHER_CONTRACT,
+  TOKEN_IN,
+  TOKEN_OUT,
+  USER,
+  WHALE,
+  contractEntityId,
+  dca,
+  dcaV2,
+  entityId,
+  reconcile,
+  run,
+  smartMoneyDca,
+  timestampOf,
+  txHashOf,
+} from "./helpers";
+
+const user = USER.toLowerCase();
+const tokenIn = TOKEN_IN.toLowerCase();
+const tokenOut = TOKEN_OUT.toLowerCase();
+const whale = WHALE.toLowerCase();
+const contract = CONTRACT.toLowerCase();
+
+const PRICE_SCALE = 10n ** 18n;
+const MAX_UINT256 = 2n ** 256n - 1n;
+
+function dayStart(block: number): bigint {
+  const timestamp = timestampOf(block);
+  return BigInt(timestamp - (timestamp % 86400));
+}
+
+function hourStart(block: number): bigint {
+  const timestamp = timestampOf(block);
+  return BigInt(timestamp - (timestamp % 3600));
+}
+
+describe("AutoStackDCA handlers", () => {
+  it("creates a chain-scoped Strategy", async () => {
+    const mockDb = await run(dca.StrategyCreated({ block: 1 }, { strategyId: 12n }));
+
+    const strategy = mockDb.entities.Strategy.get(contractEntityId(12))!;
+    expect(strategy).to.include({
+      chainId: 84532,
+      strategyId: "12",
+      user: user,
+      strategyType: 0,
+      status: "ACTIVE",
+      executionsCompleted: 0n,
+      createdAt: BigInt(timestampOf(1)),
+      createdAtBlock: 1n,
+      updatedAtBlock: 1n,
+    });
+
+    const tokenAnalytics = mockDb.entities.TokenAnalytics.get(entityId(tokenOut))!;
+    expect(tokenAnalytics.totalStrategies).to.equal(1n);
+    expect(tokenAnalytics.activeStrategies).to.equal(1n);
+  });
+
+  it("fills token metadata from the registry", async () => {
+    const weth = "0x4200000000000000000000000000000000000006";
+    const mockDb = await run(
+      dca.StrategyCreated({ block: 1 }, { strategyId: 1n, tokenOut: weth }),
+      dca.StrategyCreated({ block: 2 }, { strategyId: 2n })
+    );
+
+    expect(mockDb.entities.TokenAnalytics.get(entityId(weth))).to.include({
+      symbol: "WETH",
+      name: "Wrapped Ether",
+      decimals: 18,
+    });
+    expect(mockDb.entities.TokenAnalytics.get(entityId(tokenOut))!.symbol).to.equal(undefined);
+  });
+
+  it("records executions with price, receipt and running totals", async () => {
+    const mockDb = await run(
+      dca.StrategyCreated({ block: 1 }),
+      dca.DCAExecuted({ block: 2, logIndex: 3 }, { amountIn: 100n, amountOut: 50n, executionsLeft: 1n }),
+      dca.DCAExecuted({ block: 3 }, { amountIn: 100n, amountOut: 25n, executionsLeft: 0n })
+    );
+
+    const execution = mockDb.entities.Execution.get(contractEntityId(2, 3))!;
+    expect(execution).to.include({
+      strategy_id: contractEntityId(1),
+      user: user,
+      executionsLeft: 1n,
+      price: 2n * PRICE_SCALE,
+      triggeredBySmartMoney: false,
+      transactionHash: txHashOf(2),
+      executor: EXECUTOR.toLowerCase(),
+      gasUsed: GAS_USED,
+      gasCost: GAS_USED * GAS_PRICE,
+    });
+    expect(execution.whaleWallet).to.equal(undefined);
+
+    const strategy = mockDb.entities.Strategy.get(contractEntityId(1))!;
+    expect(strategy).to.include({
+      executionsCompleted: 2n,
+      totalAmountIn: 200n,
+      totalAmountOut: 75n,
+      averagePrice: (200n * PRICE_SCALE) / 75n,
+      totalGasUsed: 2n * GAS_USED,
+      totalGasCost: 2n * GAS_USED * GAS_PRICE,
+      updatedAtBlock: 3n,
+    });
+
+    const position = mockDb.entities.UserPosition.get(entityId(user, tokenIn, tokenOut))!;
+    expect(position).to.include({
+      totalAmountIn: 200n,
+      totalAmountOut: 75n,
+      executions: 2n,
+      firstExecutedAt: BigInt(timestampOf(2)),
+      lastExecutedAt: BigInt(timestampOf(3)),
+    });
+
+    const day = mockDb.entities.StrategyDaySnapshot.get(contractEntityId(1, dayStart(2)))!;
+    expect(day).to.include({
+      strategy_id: contractEntityId(1),
+      executions: 2n,
+      cumulativeAmountOut: 75n,
+      closePrice: 4n * PRICE_SCALE,
+    });
+
+    const hour = mockDb.entities.TokenPriceSnapshot.get(entityId(tokenIn, tokenOut, "HOUR", hourStart(2)))!;
+    expect(hour).to.include({
+      openPrice: 2n * PRICE_SCALE,
+      highPrice: 4n * PRICE_SCALE,
+      lowPrice: 2n * PRICE_SCALE,
+      closePrice: 4n * PRICE_SCALE,
+      volumeIn: 200n,
+      volumeOut: 75n,
+    });
+
+    expect(mockDb.entities.TokenAnalytics.get(entityId(tokenOut))!.totalVolume).to.equal(75n);
+  });
+
+  it("completes and cancels strategies", async () => {
+    const mockDb = await run(
+      dca.StrategyCreated({ block: 1 }, { strategyId: 1n }),
+      dca.StrategyCreated({ block: 2 }, { strategyId: 2n }),
+      dca.StrategyCompleted({ block: 3 }, { strategyId: 1n }),
+      dca.StrategyCancelled({ block: 4 }, { strategyId: 2n })
+    );
+
+    const completed = mockDb.entities.Strategy.get(contractEntityId(1))!;
+    expect(completed.status).to.equal("COMPLETED");
+    expect(completed.completedAt).to.equal(BigInt(timestampOf(3)));
+    expect(completed.cancelledAt).to.equal(undefined);
+    expect(completed.updatedAtBlock).to.equal(3n);
+
+    const cancelled = mockDb.entities.Strategy.get(contractEntityId(2))!;
+    expect(cancelled.status).to.equal("CANCELLED");
+    expect(cancelled.cancelledAt).to.equal(BigInt(timestampOf(4)));
+    expect(cancelled.updatedAtBlock).to.equal(4n);
+
+    expect(mockDb.entities.TokenAnalytics.get(entityId(tokenOut))!.activeStrategies).to.equal(0n);
+  });
+});
+
+describe("AutoStackDCAV2 handlers", () => {
+  it("accumulates signals and resets them on a smart money execution", async () => {
+    let mockDb = await run(
+      dcaV2.StrategyCreated({ block: 1 }, { strategyType: 1n, totalExecutions: 5n }),
+      dcaV2.SignalAccumulated({ block: 2 }, { currentCount: 2n, threshold: 3n })
+    );
+
+    let strategy = mockDb.entities.Strategy.get(contractEntityId(1))!;
+    expect(strategy.strategyType).to.equal(1);
+    expect(strategy.signalCount).to.equal(2);
+    expect(strategy.signalThreshold).to.equal(3);
+    expect(strategy.updatedAtBlock).to.equal(2n);
+
+    mockDb = await dcaV2.SmartMoneyTriggered({ block: 3 })(mockDb);
+
+    strategy = mockDb.entities.Strategy.get(contractEntityId(1))!;
+    expect(strategy.signalCount).to.equal(0);
+    expect(strategy.executionsCompleted).to.equal(1n);
+
+    const execution = mockDb.entities.Execution.get(contractEntityId(3, 0))!;
+    expect(execution).to.include({
+      triggeredBySmartMoney: true,
+      whaleWallet: whale,
+      whaleAmountUsd: 250_000_000_000n,
+      executionsLeft: 4n,
+    });
+
+    const wallet = mockDb.entities.TrackedWallet.get(entityId(whale))!;
+    expect(wallet.totalTrades).to.equal(1n);
+    expect(wallet.triggeredExecutions).to.equal(1n);
+
+    const tokenAnalytics = mockDb.entities.TokenAnalytics.get(entityId(tokenOut))!;
+    expect(tokenAnalytics.smartMoneyBuys).to.equal(1n);
+    expect(tokenAnalytics.lastSmartMoneyActivity).to.equal(BigInt(timestampOf(3)));
+  });
+
+  it("applies owner pause, resume, top-up and config updates", async () => {
+    let mockDb = await run(
+      dcaV2.StrategyCreated({ block: 1 }, { totalExecutions: 2n }),
+      dcaV2.StrategyPaused({ block: 2 })
+    );
+
+    let strategy = mockDb.entities.Strategy.get(contractEntityId(1))!;
+    expect(strategy.paused).to.equal(true);
+    expect(strategy.status).to.equal("ACTIVE");
+    expect(strategy.updatedAtBlock).to.equal(2n);
+
+    mockDb = await dcaV2.StrategyResumed({ block: 3 })(mockDb);
+    const toppedUp = dcaV2.StrategyToppedUp({ block: 4 }, { additionalExecutions: 3n, executionsLeft: 5n });
+    mockDb = await toppedUp(mockDb);
+    // Replayed: the top-up must not be counted twice
+    mockDb = await toppedUp(mockDb);
+    mockDb = await dcaV2.SmartMoneyConfigUpdated({ block: 5 }, { signalThreshold: 4n })(mockDb);
+
+    strategy = mockDb.entities.Strategy.get(contractEntityId(1))!;
+    expect(strategy.paused).to.equal(false);
+    expect(strategy.totalExecutions).to.equal(5n);
+    expect(strategy.signalThreshold).to.equal(4);
+    expect(strategy.updatedAtBlock).to.equal(5n);
+    expect(reconcile(mockDb)).to.deep.equal([]);
+  });
+
+  it("clears the paused flag when a paused strategy is cancelled", async () => {
+    const mockDb = await run(
+      dcaV2.StrategyCreated({ block: 1 }),
+      dcaV2.StrategyPaused({ block: 2 }),
+      dcaV2.StrategyCancelled({ block: 3 })
+    );
+
+    expect(mockDb.entities.Strategy.get(contractEntityId(1))).to.include({ status: "CANCELLED", paused: false });
+  });
+
+  it("records executor authorization per contract", async () => {
+    let mockDb = await run(dcaV2.ExecutorUpdated({ block: 1 }));
+    const executorId = entityId(CONTRACT.toLowerCase(), EXECUTOR.toLowerCase());
+    expect(mockDb.entities.Executor.get(executorId)!.authorized).to.equal(true);
+
+    mockDb = await dcaV2.ExecutorUpdated({ block: 2 }, { authorized: false })(mockDb);
+    expect(mockDb.entities.Executor.get(executorId)).to.include({
+      authorized: false,
+      updatedAtBlock: 2n,
+    });
+  });
+});
+
+describe("SmartMoneyDCA handlers", () => {
+  it("applies strategy configuration", async () => {
+    const mockDb = await run(
+      smartMoneyDca.StrategyCreated({ block: 1 }),
+      smartMoneyDca.SmartMoneyConfigSet({ block: 1, logIndex: 1 }),
+      smartMoneyDca.PriceConfigSet({ block: 1, logIndex: 2 })
+    );
+
+    expect(mockDb.entities.SmartMoneyStrategy.get(entityId(1))).to.include({
+      user: user,
+      active: true,
+      totalBudget: 10_000n,
+      minWhaleAmount: 100_000_000_000n,
+      labelScore: 80n,
+      signalThreshold: 2,
+      targetPrice: 2_000n,
+      slippageBps: 50n,
+      buyBelow: true,
+    });
+  });
+
+  it("links a signal to the execution in the same transaction", async () => {
+    const mockDb = await run(
+      smartMoneyDca.StrategyCreated({ block: 1 }),
+      smartMoneyDca.SmartMoneySignalReceived({ block: 2, logIndex: 0 }),
+      smartMoneyDca.DCAExecuted({ block: 2, logIndex: 1 }, { triggerReason: 1n, executionsLeft: 4n })
+    );
+
+    const signal = mockDb.entities.SmartMoneySignal.get(entityId(txHashOf(2)))!;
+    expect(signal).to.include({
+      strategy_id: entityId(1),
+      walletAddress: whale,
+      triggeredExecution: true,
+    });
+
+    const execution = mockDb.entities.SmartMoneyExecution.get(entityId(2, 1))!;
+    expect(execution.signalHash).to.equal(signal.signalHash);
+    expect(execution.protocolFee).to.equal(3n);
+
+    const strategy = mockDb.entities.SmartMoneyStrategy.get(entityId(1))!;
+    expect(strategy).to.include({
+      usedBudget: 1_000n,
+      totalAmountOut: 500n,
+      executionsCompleted: 1n,
+      maxExecutions: 5n,
+      lastExecution: BigInt(timestampOf(2)),
+    });
+
+    const wallet = mockDb.entities.TrackedWallet.get(entityId(whale))!;
+    expect(wallet.labels).to.deep.equal(["Smart Trader"]);
+    expect(wallet.triggeredExecutions).to.equal(1n);
+
+    const day = mockDb.entities.StrategyDaySnapshot.get(contractEntityId("sm-1", dayStart(2)))!;
+    expect(day.smartMoneyStrategy_id).to.equal(entityId(1));
+    expect(day.strategy_id).to.equal(undefined);
+  });
+
+  it("charges the protocol fee in effect at each execution", async () => {
+    const mockDb = await run(
+      smartMoneyDca.StrategyCreated({ block: 1 }),
+      smartMoneyDca.DCAExecuted({ block: 2 }, { amountIn: 10_000n, executionsLeft: MAX_UINT256 }),
+      smartMoneyDca.ProtocolFeeUpdated({ block: 3 }, { newFeeBps: 100n }),
+      smartMoneyDca.DCAExecuted({ block: 4 }, { amountIn: 10_000n, executionsLeft: MAX_UINT256 })
+    );
+
+    expect(mockDb.entities.SmartMoneyExecution.get(entityId(2, 0))!.protocolFee).to.equal(30n);
+    expect(mockDb.entities.SmartMoneyExecution.get(entityId(4, 0))!.protocolFee).to.equal(100n);
+    expect(mockDb.entities.GlobalStats.get(entityId("global"))).to.include({
+      protocolFeeBps: 100n,
+      totalProtocolFees: 130n,
+    });
+    // Unlimited strategies report no execution cap
+    expect(mockDb.entities.SmartMoneyStrategy.get(entityId(1))!.maxExecutions).to.equal(0n);
+  });
+
+  it("deactivates completed and cancelled strategies once", async () => {
+    const mockDb = await run(
+      smartMoneyDca.StrategyCreated({ block: 1 }, { strategyId: 1n }),
+      smartMoneyDca.StrategyCreated({ block: 2 }, { strategyId: 2n }),
+      smartMoneyDca.StrategyCompleted({ block: 3 }, { strategyId: 1n }),
+      smartMoneyDca.StrategyCancelled({ block: 4 }, { strategyId: 2n }),
+      smartMoneyDca.StrategyCancelled({ block: 5 }, { strategyId: 2n })
+    );
+
+    expect(mockDb.entities.SmartMoneyStrategy.get(entityId(1))!.active).to.equal(false);
+    expect(mockDb.entities.SmartMoneyStrategy.get(entityId(2))!.active).to.equal(false);
+
+    const tokenAnalytics = mockDb.entities.TokenAnalytics.get(entityId(tokenOut))!;
+    expect(tokenAnalytics.totalStrategies).to.equal(2n);
+    expect(tokenAnalytics.activeStrategies).to.equal(0n);
+  });
+});
+
+describe("Out-of-order and missing parents", () => {
+  it("keeps an execution that arrives before its strategy", async () => {
+    const mockDb = await run(
+      dca.DCAExecuted({ block: 1 }, { strategyId: 5n }),
+      dca.StrategyCreated({ block: 2 }, { strategyId: 5n })
+    );
+
+    const execution = mockDb.entities.Execution.get(contractEntityId(1, 0))!;
+    expect(execution.strategy_id).to.equal(contractEntityId(5));
+
+    // The strategy only sees executions that follow its creation
+    const strategy = mockDb.entities.Strategy.get(contractEntityId(5))!;
+    expect(strategy.executionsCompleted).to.equal(0n);
+    expect(mockDb.entities.StrategyDaySnapshot.getAll()).to.deep.equal([]);
+
+    expect(reconcile(mockDb)).to.deep.equal([]);
+  });
+
+  it("ignores strategy updates for unknown strategies", async () => {
+    const mockDb = await run(
+      dcaV2.SignalAccumulated({ block: 1 }, { strategyId: 9n }),
+      smartMoneyDca.SmartMoneyConfigSet({ block: 2 }, { strategyId: 9n }),
+      smartMoneyDca.PriceConfigSet({ block: 3 }, { strategyId: 9n }),
+      smartMoneyDca.StrategyCompleted({ block: 4 }, { strategyId: 9n }),
+      dcaV2.StrategyCompleted({ block: 5 }, { strategyId: 9n }),
+      dcaV2.StrategyPaused({ block: 6 }, { strategyId: 9n }),
+      dcaV2.StrategyToppedUp({ block: 7 }, { strategyId: 9n })
+    );
+
+    expect(mockDb.entities.Strategy.getAll()).to.deep.equal([]);
+    expect(mockDb.entities.SmartMoneyStrategy.getAll()).to.deep.equal([]);
+    expect(mockDb.entities.TokenAnalytics.getAll()).to.deep.equal([]);
+  });
+
+  it("records a smart money trigger for an unknown strategy with no executions left", async () => {
+    const mockDb = await run(dcaV2.SmartMoneyTriggered({ block: 1 }, { strategyId: 9n }));
+
+    expect(mockDb.entities.Execution.get(contractEntityId(1, 0))!.executionsLeft).to.equal(0n);
+    expect(reconcile(mockDb)).to.deep.equal([]);
+  });
+
+  it("leaves a signal-triggered execution unlinked when its signal is missing", async () => {
+    const mockDb = await run(
+      smartMoneyDca.StrategyCreated({ block: 1 }),
+      smartMoneyDca.SmartMoneySignalReceived({ block: 2 }),
+      smartMoneyDca.DCAExecuted({ block: 3 }, { triggerReason: 1n })
+    );
+
+    expect(mockDb.entities.SmartMoneyExecution.get(entityId(3, 0))!.signalHash).to.equal(undefined);
+    expect(mockDb.entities.SmartMoneySignal.get(entityId(txHashOf(2)))!.triggeredExecution).to.equal(false);
+    expect(reconcile(mockDb)).to.deep.equal([]);
+  });
+
+  it("keeps the same strategy ID on different chains apart", async () => {
+    const mockDb = await run(
+      dcaV2.StrategyCreated({ block: 1, chainId: 84532 }),
+      dcaV2.StrategyCreated({ block: 1, chainId: 8453 }),
+      dcaV2.DCAExecuted({ block: 2, chainId: 8453 })
+    );
+
+    expect(mockDb.entities.Strategy.get(`84532-${contract}-1`)!.executionsCompleted).to.equal(0n);
+    expect(mockDb.entities.Strategy.get(`8453-${contract}-1`)!.executionsCompleted).to.equal(1n);
+    expect(mockDb.entities.GlobalStats.get("84532-global")!.totalExecutions).to.equal(0n);
+    expect(mockDb.entities.GlobalStats.get("8453-global")!.totalExecutions).to.equal(1n);
+    expect(reconcile(mockDb)).to.deep.equal([]);
+  });
+
+  it("keeps the same strategy ID on AutoStackDCA and AutoStackDCAV2 apart", async () => {
+    const mockDb = await run(
+      dca.StrategyCreated({ block: 1, contract: OTHER_CONTRACT }, { amountPerExecution: 70n }),
+      dcaV2.StrategyCreated({ block: 1, logIndex: 1 }),
+      dca.DCAExecuted({ block: 2, contract: OTHER_CONTRACT }, { amountIn: 70n }),
+      dcaV2.StrategyPaused({ block: 3 }),
+      dcaV2.DCAExecuted({ block: 4 })
+    );
+
+    const otherContract = OTHER_CONTRACT.toLowerCase();
+    const v1Id = entityId(otherContract, 1);
+    const v1 = mockDb.entities.Strategy.get(v1Id)!;
+    expect(v1).to.include({ contract: otherContract, amountPerExecution: 70n, paused: false });
+    expect(v1.executionsCompleted).to.equal(1n);
+
+    const v2 = mockDb.entities.Strategy.get(contractEntityId(1))!;
+    expect(v2).to.include({ contract: contract, amountPerExecution: 100n, paused: true });
+    expect(v2.executionsCompleted).to.equal(1n);
+
+    expect(mockDb.entities.Execution.get(entityId(otherContract, 2, 0))!.strategy_id).to.equal(v1Id);
+    expect(mockDb.entities.Execution.get(contractEntityId(4, 0))!.strategy_id).to.equal(contractEntityId(1));
+    expect(mockDb.entities.StrategyDaySnapshot.get(entityId(otherContract, 1, dayStart(2)))!.amountIn).to.equal(70n);
+    expect(mockDb.entities.UserStats.get(entityId(user))!.totalStrategies).to.equal(2n);
+    expect(reconcile(mockDb)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,12 @@
+import { execFileSync } from "child_process";
+import { resolve } from "path";
+
+describe("Protocol package", () => {
+  it("is in sync with the copies in the frontend, worker and indexer", () => {
+    // Throws with the stale paths if protocol/ changed without running its generator
+    execFileSync(process.execPath, ["scripts/generate.mjs", "--check"], {
+      cwd: resolve(__dirname, "../../protocol"),
+      stdio: "pipe",
+    });
+  });
+});
@@ -0,0 +1,131 @@
+import { expect } from "chai";
+import {
+  CHAIN_ID,
+  MockDb,
+  OTHER_USER,
+  USER,
+  contractEntityId,
+  dca,
+  dcaV2,
+  entityId,
+  reconcile,
+  run,
+  smartMoneyDca,
+} from "./helpers";
+
+function globalStats(mockDb: MockDb) {
+  return mockDb.entities.GlobalStats.get(entityId("global"))!;
+}
+
+function userStats(mockDb: MockDb, user: string) {
+  return mockDb.entities.UserStats.get(entityId(user.toLowerCase()))!;
+}
+
+describe("Strategy stats", () => {
+  it("moves strategies between status counters", async () => {
+    const mockDb = await run(
+      dca.StrategyCreated({ block: 1 }, { strategyId: 1n }),
+      dca.StrategyCreated({ block: 2 }, { strategyId: 2n }),
+      dca.StrategyCreated({ block: 3 }, { strategyId: 3n, user: OTHER_USER }),
+      dca.DCAExecuted({ block: 4 }, { strategyId: 1n, executionsLeft: 1n }),
+      dca.DCAExecuted({ block: 5 }, { strategyId: 1n, executionsLeft: 0n }),
+      dca.StrategyCompleted({ block: 6 }, { strategyId: 1n }),
+      dca.StrategyCancelled({ block: 7 }, { strategyId: 2n })
+    );
+
+    const global = globalStats(mockDb);
+    expect(global.totalStrategies).to.equal(3n);
+    expect(global.activeStrategies).to.equal(1n);
+    expect(global.completedStrategies).to.equal(1n);
+    expect(global.cancelledStrategies).to.equal(1n);
+    expect(global.totalExecutions).to.equal(2n);
+    expect(global.uniqueUsers).to.equal(2n);
+
+    const user = userStats(mockDb, USER);
+    expect(user.activeStrategies).to.equal(0n);
+    expect(user.completedStrategies).to.equal(1n);
+    expect(user.cancelledStrategies).to.equal(1n);
+
+    expect(reconcile(mockDb)).to.deep.equal([]);
+  });
+
+  it("ignores a close for a strategy that is no longer active", async () => {
+    const mockDb = await run(
+      dca.StrategyCreated({ block: 1 }),
+      dca.StrategyCompleted({ block: 2 }),
+      dca.StrategyCompleted({ block: 3 }),
+      dca.StrategyCancelled({ block: 4 })
+    );
+
+    const global = globalStats(mockDb);
+    expect(global.activeStrategies).to.equal(0n);
+    expect(global.completedStrategies).to.equal(1n);
+    expect(global.cancelledStrategies).to.equal(0n);
+    expect(mockDb.entities.Strategy.get(contractEntityId(1))!.status).to.equal("COMPLETED");
+
+    expect(reconcile(mockDb)).to.deep.equal([]);
+  });
+
+  it("does not count a replayed event twice", async () => {
+    const created = dca.StrategyCreated({ block: 1 });
+    const executed = dca.DCAExecuted({ block: 2 });
+
+    const mockDb = await run(created, executed, created, executed);
+
+    const global = globalStats(mockDb);
+    expect(global.totalStrategies).to.equal(1n);
+    expect(global.activeStrategies).to.equal(1n);
+    expect(global.totalExecutions).to.equal(1n);
+    expect(global.totalAmountIn).to.equal(100n);
+    expect(global.uniqueUsers).to.equal(1n);
+    expect(mockDb.entities.Strategy.get(contractEntityId(1))!.executionsCompleted).to.equal(1n);
+
+    expect(reconcile(mockDb)).to.deep.equal([]);
+  });
+
+  it("leaves stats untouched when a strategy closes before it was indexed", async () => {
+    const mockDb = await run(dca.StrategyCancelled({ block: 1 }, { strategyId: 7n }));
+
+    expect(mockDb.entities.GlobalStats.getAll()).to.deep.equal([]);
+    expect(mockDb.entities.UserStats.getAll()).to.deep.equal([]);
+  });
+
+  it("reconciles V2 smart money and SmartMoneyDCA activity", async () => {
+    const mockDb = await run(
+      dcaV2.StrategyCreated({ block: 1 }, { strategyType: 1n, totalExecutions: 3n }),
+      dcaV2.SmartMoneyTriggered({ block: 2 }),
+      dcaV2.StrategyCancelled({ block: 3 }),
+      smartMoneyDca.StrategyCreated({ block: 4 }, { user: OTHER_USER }),
+      // Signal and execution share a transaction
+      smartMoneyDca.SmartMoneySignalReceived({ block: 5, logIndex: 0 }),
+      smartMoneyDca.DCAExecuted({ block: 5, logIndex: 1 }, { user: OTHER_USER, triggerReason: 1n })
+    );
+
+    const global = globalStats(mockDb);
+    expect(global.totalStrategies).to.equal(1n);
+    expect(global.cancelledStrategies).to.equal(1n);
+    expect(global.totalSmartMoneyStrategies).to.equal(2n);
+    expect(global.totalSmartMoneyExecutions).to.equal(2n);
+    expect(global.totalSmartMoneySignals).to.equal(1n);
+    expect(global.totalProtocolFees).to.equal(3n);
+    expect(global.uniqueUsers).to.equal(2n);
+    expect(userStats(mockDb, OTHER_USER).smartMoneyTriggeredTrades).to.equal(1n);
+
+    expect(reconcile(mockDb)).to.deep.equal([]);
+  });
+
+  it("reports counters that drift from the raw entities", async () => {
+    let mockDb = await run(dca.StrategyCreated({ block: 1 }));
+    mockDb = mockDb.entities.GlobalStats.set({ ...globalStats(mockDb), activeStrategies: 2n });
+
+    expect(reconcile(mockDb)).to.deep.equal([
+      {
+        entity: "GlobalStats",
+        id: `${CHAIN_ID}-global`,
+        field: "activeStrategies",
+        expected: 1n,
+        actual: 2n,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,232 @@
+/**
+ * Test harness for the event handlers
+ *
+ * Wraps Envio's TestHelpers so a test reads as a list of events: each builder
+ * takes where the event sits on chain plus any params that differ from the
+ * defaults, and returns a step that runs it through its handler. `run` plays
+ * the steps in order against a fresh MockDb.
+ */
+
+import { TestHelpers } from "../generated";
+import { reconcileStats } from "../src/reconciliation";
+
+const { MockDb, AutoStackDCA, AutoStackDCAV2, SmartMoneyDCA, Addresses } = TestHelpers;
+
+export type MockDb = ReturnType<typeof MockDb.createMockDb>;
+export type Step = (mockDb: MockDb) => Promise<MockDb>;
+
+export const CHAIN_ID = 84532;
+export const USER = Addresses.mockAddresses[0];
+export const OTHER_USER = Addresses.mockAddresses[1];
+export const EXECUTOR = Addresses.mockAddresses[2];
+export const WHALE = Addresses.mockAddresses[3];
+export const TOKEN_IN = Addresses.mockAddresses[4];
+export const TOKEN_OUT = Addresses.mockAddresses[5];
+export const CONTRACT = Addresses.mockAddresses[6];
+// A second deployment numbering its strategies the same way as CONTRACT
+export const OTHER_CONTRACT = Addresses.mockAddresses[7];
+
+export const GAS_USED = 100_000n;
+export const GAS_PRICE = 1_000_000_000n;
+export const BLOCK_TIME = 12;
+export const GENESIS_TIMESTAMP = 1_700_000_000;
+
+// Where an event sits on chain. Events in the same block share a transaction
+// unless `txHash` says otherwise; every event comes from CONTRACT unless
+// `contract` says otherwise.
+export type EventAt = {
+  block: number;
+  logIndex?: number;
+  chainId?: number;
+  txHash?: string;
+  contract?: string;
+};
+
+export function timestampOf(block: number): number {
+  return GENESIS_TIMESTAMP + block * BLOCK_TIME;
+}
+
+export function txHashOf(block: number): string {
+  return `0x${block.toString(16).padStart(64, "0")}`;
+}
+
+function mockEventData({ block, logIndex = 0, chainId = CHAIN_ID, txHash, contract = CONTRACT }: EventAt) {
+  return {
+    chainId: chainId,
+    logIndex: logIndex,
+    srcAddress: contract,
+    block: { number: block, timestamp: timestampOf(block) },
+    transaction: {
+      hash: txHash ?? txHashOf(block),
+      from: EXECUTOR,
+      gasUsed: GAS_USED,
+      effectiveGasPrice: GAS_PRICE,
+    },
+  };
+}
+
+type EventHelper<Args, Event> = {
+  createMockEvent: (args: Args) => Event;
+  processEvent: (args: { event: Event; mockDb: MockDb }) => Promise<MockDb>;
+};
+
+function builder<Args, Event>(helper: EventHelper<Args, Event>, defaults: Args) {
+  return (at: EventAt, params: Args = {} as Args): Step => {
+    const event = helper.createMockEvent({
+      ...defaults,
+      ...params,
+      mockEventData: mockEventData(at),
+    });
+    return (mockDb) => helper.processEvent({ event, mockDb });
+  };
+}
+
+const strategyDefaults = {
+  strategyId: 1n,
+  user: USER,
+  tokenIn: TOKEN_IN,
+  tokenOut: TOKEN_OUT,
+  amountPerExecution: 100n,
+  frequency: 3600n,
+  totalExecutions: 2n,
+};
+
+const executionDefaults = {
+  strategyId: 1n,
+  user: USER,
+  amountIn: 100n,
+  amountOut: 50n,
+  executionsLeft: 1n,
+};
+
+const closeDefaults = { strategyId: 1n, user: USER };
+
+export const dca = {
+  StrategyCreated: builder(AutoStackDCA.StrategyCreated, strategyDefaults),
+  DCAExecuted: builder(AutoStackDCA.DCAExecuted, executionDefaults),
+  StrategyCompleted: builder(AutoStackDCA.StrategyCompleted, closeDefaults),
+  StrategyCancelled: builder(AutoStackDCA.StrategyCancelled, closeDefaults),
+};
+
+export const dcaV2 = {
+  StrategyCreated: builder(AutoStackDCAV2.StrategyCreated, { ...strategyDefaults, strategyType: 0n }),
+  DCAExecuted: builder(AutoStackDCAV2.DCAExecuted, executionDefaults),
+  SmartMoneyTriggered: builder(AutoStackDCAV2.SmartMoneyTriggered, {
+    strategyId: 1n,
+    user: USER,
+    amountIn: 100n,
+    amountOut: 40n,
+    whaleWallet: WHALE,
+    whaleAmountUsd: 250_000_000_000n,
+  }),
+  SignalAccumulated: builder(AutoStackDCAV2.SignalAccumulated, {
+    strategyId: 1n,
+    currentCount: 1n,
+    threshold: 3n,
+  }),
+  StrategyCompleted: builder(AutoStackDCAV2.StrategyCompleted, closeDefaults),
+  StrategyCancelled: builder(AutoStackDCAV2.StrategyCancelled, closeDefaults),
+  StrategyPaused: builder(AutoStackDCAV2.StrategyPaused, closeDefaults),
+  StrategyResumed: builder(AutoStackDCAV2.StrategyResumed, closeDefaults),
+  StrategyToppedUp: builder(AutoStackDCAV2.StrategyToppedUp, {
+    strategyId: 1n,
+    user: USER,
+    additionalExecutions: 3n,
+    executionsLeft: 5n,
+  }),
+  SmartMoneyConfigUpdated: builder(AutoStackDCAV2.SmartMoneyConfigUpdated, {
+    strategyId: 1n,
+    minWhaleAmount: 100_000_000_000n,
+    minLabelScore: 80n,
+    signalThreshold: 2n,
+    signalWindow: 86400n,
+    enabled: true,
+  }),
+  ExecutorUpdated: builder(AutoStackDCAV2.ExecutorUpdated, { executor: EXECUTOR, authorized: true }),
+};
+
+export const smartMoneyDca = {
+  StrategyCreated: builder(SmartMoneyDCA.StrategyCreated, {
+    strategyId: 1n,
+    user: USER,
+    strategyType: 1n,
+    triggerType: 1n,
+    tokenIn: TOKEN_IN,
+    tokenOut: TOKEN_OUT,
+    amountPerExecution: 1_000n,
+    totalBudget: 10_000n,
+  }),
+  SmartMoneyConfigSet: builder(SmartMoneyDCA.SmartMoneyConfigSet, {
+    strategyId: 1n,
+    minWhaleAmount: 100_000_000_000n,
+    labelScore: 80n,
+    signalThreshold: 2n,
+  }),
+  PriceConfigSet: builder(SmartMoneyDCA.PriceConfigSet, {
+    strategyId: 1n,
+    targetPrice: 2_000n,
+    slippageBps: 50n,
+    buyBelow: true,
+  }),
+  SmartMoneySignalReceived: builder(SmartMoneyDCA.SmartMoneySignalReceived, {
+    signalHash: `0x${"ab".repeat(32)}`,
+    wallet: WHALE,
+    label: "Smart Trader",
+    amount: 500_000_000_000n,
+    token: TOKEN_OUT,
+  }),
+  DCAExecuted: builder(SmartMoneyDCA.DCAExecuted, {
+    strategyId: 1n,
+    user: USER,
+    amountIn: 1_000n,
+    amountOut: 500n,
+    triggerReason: 0n,
+    executionsLeft: 9n,
+  }),
+  StrategyCompleted: builder(SmartMoneyDCA.StrategyCompleted, { ...closeDefaults, totalAmountOut: 0n }),
+  StrategyCancelled: builder(SmartMoneyDCA.StrategyCancelled, { ...closeDefaults, refundAmount: 0n }),
+  ExecutorAuthorized: builder(SmartMoneyDCA.ExecutorAuthorized, { executor: EXECUTOR, authorized: true }),
+  ProtocolFeeUpdated: builder(SmartMoneyDCA.ProtocolFeeUpdated, { newFeeBps: 30n }),
+};
+
+/**
+ * Play the steps in order against a fresh MockDb
+ */
+export async function run(...steps: Step[]): Promise<MockDb> {
+  let mockDb = MockDb.createMockDb();
+  for (const step of steps) {
+    mockDb = await step(mockDb);
+  }
+  return mockDb;
+}
+
+// Entity IDs as the handlers build them
+export function entityId(...parts: (string | number | bigint)[]): string {
+  return [CHAIN_ID, ...parts].join("-");
+}
+
+// Strategy, Execution and StrategyDaySnapshot IDs, which are also scoped to
+// the emitting contract
+export function contractEntityId(...parts: (string | number | bigint)[]): string {
+  return entityId(CONTRACT.toLowerCase(), ...parts);
+}
+
+/**
+ * Recompute UserStats/GlobalStats from the raw entities and diff them with the
+ * stored ones
+ */
+export function reconcile(mockDb: MockDb) {
+  return reconcileStats(
+    {
+      strategies: mockDb.entities.Strategy.getAll(),
+      executions: mockDb.entities.Execution.getAll(),
+      smartMoneyStrategies: mockDb.entities.SmartMoneyStrategy.getAll(),
+      smartMoneyExecutions: mockDb.entities.SmartMoneyExecution.getAll(),
+      smartMoneySignals: mockDb.entities.SmartMoneySignal.getAll(),
+    },
+    {
+      userStats: mockDb.entities.UserStats.getAll(),
+      globalStats: mockDb.entities.GlobalStats.getAll(),
+    }
+  );
+}
@@ -0,0 +1,133 @@
+/**
+ * Protocol package generator
+ *
+ * Rebuilds src/abis.ts from the Foundry artifacts in contracts/out, then copies
+ * the package sources into the frontend, worker and indexer, and the replay
+ * fixtures into the apps that serve them. The apps aren't
+ * in a shared workspace and each compiles only its own tree, so they consume
+ * these copies rather than importing protocol/ directly.
+ *
+ *   node scripts/generate.mjs           regenerate ABIs (if built) and copies
+ *   node scripts/generate.mjs --check   exit 1 if the ABIs or a copy is stale
+ */
+
+import { existsSync, readFileSync, writeFileSync, mkdirSync } from "node:fs";
+import { basename, dirname, relative, resolve } from "node:path";
+import { fileURLToPath } from "node:url";
+
+const root = resolve(dirname(fileURLToPath(import.meta.url)), "..");
+const repoRoot = resolve(root, "..");
+const artifactsDir = resolve(repoRoot, "contracts/out");
+
+// Export name -> Foundry artifact (out/<File>.sol/<Contract>.json)
+const ABIS = {
+  AUTOSTACK_DCA_ABI: "AutoStackDCA.sol/AutoStackDCA.json",
+  AUTOSTACK_DCA_V2_ABI: "AutoStackDCAV2.sol/AutoStackDCAV2.json",
+  SMART_MONEY_DCA_ABI: "SmartMoneyDCA.sol/SmartMoneyDCA.json",
+  ERC20_ABI: "ERC20.sol/ERC20.json",
+  QUOTER_V2_ABI: "IQuoterV2.sol/IQuoterV2.json",
+  SWAP_ROUTER_02_ABI: "ISwapRouter02.sol/ISwapRouter02.json",
+};
+
+// Directory each consumer keeps its copy in, the modules it uses, and the
+// extension its module system needs on relative imports (the worker runs as
+// plain ESM, so "./abis" must become "./abis.js")
+const TARGETS = [
+  {
+    dir: "frontend/src/lib/protocol",
+    files: ["abis.ts", "deployments.ts", "tokens.ts", "routing.ts", "spend-governor.ts", "signal-source.ts"],
+    importExtension: "",
+  },
+  {
+    dir: "worker/src/protocol",
+    files: ["abis.ts", "deployments.ts", "tokens.ts", "routing.ts", "spend-governor.ts", "signal-source.ts"],
+    importExtension: ".js",
+  },
+  { dir: "indexer/src/protocol", files: ["tokens.ts"], importExtension: "" },
+];
+
+// Recorded Nansen responses for SIGNAL_SOURCE=replay, copied as-is to where
+// each app's SIGNAL_REPLAY_FILE default points
+const FIXTURES = {
+  "fixtures/nansen-dex-trades.json": ["frontend/fixtures", "worker/fixtures"],
+};
+
+function renderAbis() {
+  const lines = [
+    "// Generated by protocol/scripts/generate.mjs from the Foundry artifacts in contracts/out.",
+    "// Do not edit: run `forge build` in contracts/, then `pnpm generate` in protocol/.",
+    "",
+  ];
+
+  for (const [name, artifact] of Object.entries(ABIS)) {
+    const { abi } = JSON.parse(readFileSync(resolve(artifactsDir, artifact), "utf8"));
+    lines.push(`export const ${name} = [`);
+    for (const item of abi) {
+      lines.push(`  ${JSON.stringify(item)},`);
+    }
+    lines.push("] as const;", "");
+  }
+
+  return lines.join("\n");
+}
+
+function renderCopy(file, importExtension) {
+  const source = readFileSync(resolve(root, "src", file), "utf8").replace(
+    /from '(\.\/[^']+)'/g,
+    (_, specifier) => `from '${specifier}${importExtension}'`
+  );
+  return [
+    `// Copied from protocol/src/${file} by protocol/scripts/generate.mjs.`,
+    "// Do not edit: change protocol/src, then run `pnpm generate` in protocol/.",
+    "",
+    source,
+  ].join("\n");
+}
+
+const check = process.argv.includes("--check");
+let stale = false;
+
+function sync(target, output, hint) {
+  const path = relative(repoRoot, target);
+  let current = null;
+  try {
+    current = readFileSync(target, "utf8");
+  } catch {}
+
+  if (current === output) {
+    return;
+  }
+
+  if (check) {
+    console.error(`${path} is out of date; ${hint}`);
+    stale = true;
+  } else {
+    mkdirSync(dirname(target), { recursive: true });
+    writeFileSync(target, output);
+    console.log(`Wrote ${path}`);
+  }
+}
+
+// Artifacts aren't committed; without a build the checked-in ABIs are kept
+if (existsSync(artifactsDir)) {
+  sync(resolve(root, "src/abis.ts"), renderAbis(), "run forge build in contracts/, then pnpm generate");
+} else {
+  console.warn("contracts/out not found; keeping src/abis.ts (run forge build in contracts/ to refresh it)");
+}
+
+for (const { dir, files, importExtension } of TARGETS) {
+  for (const file of files) {
+    sync(resolve(repoRoot, dir, file), renderCopy(file, importExtension), "run pnpm generate in protocol/");
+  }
+}
+
+for (const [fixture, dirs] of Object.entries(FIXTURES)) {
+  const source = readFileSync(resolve(root, "src", fixture), "utf8");
+  for (const dir of dirs) {
+    sync(resolve(repoRoot, dir, basename(fixture)), source, "run pnpm generate in protocol/");
+  }
+}
+
+if (stale) {
+  process.exit(1);
+}
@@ -0,0 +1,246 @@
+// Uniswap V3 swap routing. Quotes an exact-input swap through QuoterV2 on every
+// fee tier, directly and through one intermediate token, and encodes the
+// SwapRouter02 call for the best route with a slippage-bounded minimum output.
+// The candidate quotes go out as one Multicall3 eth_call, so routing costs a
+// single RPC request however many pools it tries.
+
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  decodeFunctionResult,
+  encodeFunctionData,
+  ExecutionRevertedError,
+  multicall3Abi,
+  RawContractError,
+  type Hex,
+} from 'viem';
+import { QUOTER_V2_ABI, SWAP_ROUTER_02_ABI } from './abis';
+import { getDeployment, type Deployment } from './deployments';
+import { findToken } from './tokens';
+
+export const FEE_TIERS = [500, 3000, 10000] as const;
+
+export type FeeTier = (typeof FEE_TIERS)[number];
+
+// Registry tokens tried as the middle hop when the caller doesn't list any
+const DEFAULT_INTERMEDIATES = ['WETH', 'USDC'];
+
+const BPS = 10_000n;
+
+// Only eth_call is needed, so the worker's viem client and wagmi's both fit
+export interface QuoteClient {
+  call(args: { to: `0x${string}`; data: Hex }): Promise<{ data?: Hex }>;
+}
+
+export interface RouteRequest {
+  chainId: number;
+  tokenIn: `0x${string}`;
+  tokenOut: `0x${string}`;
+  amountIn: bigint;
+  // Middle-hop tokens to try; [] quotes direct pools only
+  intermediates?: `0x${string}`[];
+}
+
+export interface Route {
+  tokens: `0x${string}`[]; // tokenIn, [intermediate], tokenOut
+  fees: FeeTier[]; // one per hop
+  path: Hex; // Uniswap packed path
+  amountIn: bigint;
+  amountOut: bigint;
+  gasEstimate: bigint; // QuoterV2's estimate for the swap itself
+}
+
+export interface SwapPlan {
+  route: Route;
+  amountOutMinimum: bigint;
+  router: `0x${string}`;
+  calldata: Hex;
+}
+
+/**
+ * Uniswap's packed path: token, then (fee, token) for each hop
+ */
+export function encodePath(tokens: `0x${string}`[], fees: FeeTier[]): Hex {
+  let path = tokens[0].toLowerCase();
+  fees.forEach((fee, i) => {
+    path += fee.toString(16).padStart(6, '0') + tokens[i + 1].slice(2).toLowerCase();
+  });
+  return path as Hex;
+}
+
+/**
+ * Lowest acceptable output after `slippageBps` of slippage
+ */
+export function minimumAmountOut(amountOut: bigint, slippageBps: number | bigint): bigint {
+  return (amountOut * (BPS - BigInt(slippageBps))) / BPS;
+}
+
+function candidates(request: RouteRequest): { tokens: `0x${string}`[]; fees: FeeTier[] }[] {
+  const { chainId, tokenIn, tokenOut } = request;
+  const endpoints = [tokenIn.toLowerCase(), tokenOut.toLowerCase()];
+  const intermediates = (
+    request.intermediates ??
+    DEFAULT_INTERMEDIATES.flatMap((symbol) => findToken(chainId, symbol)?.address ?? [])
+  ).filter((token) => !endpoints.includes(token.toLowerCase()));
+
+  const routes = FEE_TIERS.map((fee) => ({ tokens: [tokenIn, tokenOut], fees: [fee] }));
+  for (const middle of intermediates) {
+    for (const first of FEE_TIERS) {
+      for (const second of FEE_TIERS) {
+        routes.push({ tokens: [tokenIn, middle, tokenOut], fees: [first, second] });
+      }
+    }
+  }
+  return routes;
+}
+
+// QuoterV2 reverting (no pool, not enough liquidity) as opposed to the RPC
+// failing. A raw eth_call surfaces the revert as ExecutionRevertedError or
+// RawContractError, readContract as ContractFunctionRevertedError.
+function isQuoterRevert(error: unknown): boolean {
+  return (
+    error instanceof BaseError &&
+    error.walk(
+      (e) =>
+        e instanceof ContractFunctionRevertedError ||
+        e instanceof ExecutionRevertedError ||
+        e instanceof RawContractError
+    ) !== null
+  );
+}
+
+function deploymentFor(chainId: number): Deployment {
+  const deployment = getDeployment(chainId);
+  if (!deployment) {
+    throw new Error(`No Uniswap deployment for chain ${chainId}`);
+  }
+  return deployment;
+}
+
+function quoteCalldata(path: Hex, amountIn: bigint): Hex {
+  return encodeFunctionData({ abi: QUOTER_V2_ABI, functionName: 'quoteExactInput', args: [path, amountIn] });
+}
+
+function decodeQuote(tokens: `0x${string}`[], fees: FeeTier[], path: Hex, amountIn: bigint, data: Hex): Route | null {
+  const [amountOut, , , gasEstimate] = decodeFunctionResult({
+    abi: QUOTER_V2_ABI,
+    functionName: 'quoteExactInput',
+    data,
+  });
+  return amountOut > 0n ? { tokens, fees, path, amountIn, amountOut, gasEstimate } : null;
+}
+
+/**
+ * Quote one route, or null when a hop has no pool or not enough liquidity.
+ * RPC errors (timeouts, rate limits) are thrown: they say nothing about the pool.
+ */
+export async function quoteRoute(
+  client: QuoteClient,
+  chainId: number,
+  tokens: `0x${string}`[],
+  fees: FeeTier[],
+  amountIn: bigint
+): Promise<Route | null> {
+  const path = encodePath(tokens, fees);
+  try {
+    // QuoterV2 isn't a view: it simulates the swap and reverts with the result
+    const { data } = await client.call({ to: deploymentFor(chainId).quoterV2, data: quoteCalldata(path, amountIn) });
+    return data ? decodeQuote(tokens, fees, path, amountIn, data) : null;
+  } catch (error) {
+    if (isQuoterRevert(error)) return null;
+    throw error;
+  }
+}
+
+/**
+ * Every route that quotes, best output first. All candidates are quoted in one
+ * Multicall3 aggregate3 call; a candidate whose quote reverts (no pool, not
+ * enough liquidity) is left out, while an RPC error fails the whole call.
+ */
+export async function quoteRoutes(client: QuoteClient, request: RouteRequest): Promise<Route[]> {
+  const { quoterV2, multicall3 } = deploymentFor(request.chainId);
+  const routes = candidates(request).map(({ tokens, fees }) => ({ tokens, fees, path: encodePath(tokens, fees) }));
+
+  const { data } = await client.call({
+    to: multicall3,
+    data: encodeFunctionData({
+      abi: multicall3Abi,
+      functionName: 'aggregate3',
+      args: [
+        routes.map(({ path }) => ({
+          target: quoterV2,
+          allowFailure: true,
+          callData: quoteCalldata(path, request.amountIn),
+        })),
+      ],
+    }),
+  });
+  if (!data) return [];
+
+  const results = decodeFunctionResult({ abi: multicall3Abi, functionName: 'aggregate3', data });
+  const quotes = results.map(({ success, returnData }, i) => {
+    const { tokens, fees, path } = routes[i];
+    return success ? decodeQuote(tokens, fees, path, request.amountIn, returnData) : null;
+  });
+  return quotes
+    .filter((route): route is Route => route !== null)
+    .sort((a, b) => (b.amountOut > a.amountOut ? 1 : b.amountOut < a.amountOut ? -1 : 0));
+}
+
+/**
+ * The route with the highest output, or null if no pool connects the pair
+ */
+export async function findBestRoute(client: QuoteClient, request: RouteRequest): Promise<Route | null> {
+  const [best] = await quoteRoutes(client, request);
+  return best ?? null;
+}
+
+/**
+ * SwapRouter02 calldata for a quoted route: exactInputSingle for one hop,
+ * exactInput for more
+ */
+export function encodeSwapCalldata(route: Route, recipient: `0x${string}`, amountOutMinimum: bigint): Hex {
+  if (route.fees.length === 1) {
+    return encodeFunctionData({
+      abi: SWAP_ROUTER_02_ABI,
+      functionName: 'exactInputSingle',
+      args: [
+        {
+          tokenIn: route.tokens[0],
+          tokenOut: route.tokens[1],
+          fee: route.fees[0],
+          recipient,
+          amountIn: route.amountIn,
+          amountOutMinimum,
+          sqrtPriceLimitX96: 0n,
+        },
+      ],
+    });
+  }
+
+  return encodeFunctionData({
+    abi: SWAP_ROUTER_02_ABI,
+    functionName: 'exactInput',
+    args: [{ path: route.path, recipient, amountIn: route.amountIn, amountOutMinimum }],
+  });
+}
+
+/**
+ * Find the best route and encode the swap, paying out to `recipient` and
+ * reverting below the quote less `slippageBps`. Null when no route exists.
+ */
+export async function buildSwap(
+  client: QuoteClient,
+  request: RouteRequest & { recipient: `0x${string}`; slippageBps: number | bigint }
+): Promise<SwapPlan | null> {
+  const route = await findBestRoute(client, request);
+  if (!route) return null;
+
+  const amountOutMinimum = minimumAmountOut(route.amountOut, request.slippageBps);
+  return {
+    route,
+    amountOutMinimum,
+    router: deploymentFor(request.chainId).swapRouter02,
+    calldata: encodeSwapCalldata(route, request.recipient, amountOutMinimum),
+  };
+}
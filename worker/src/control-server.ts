@@ -0,0 +1,68 @@
+/**
+ * Worker Control Server
+ *
+ * Small HTTP server for orchestration and monitoring:
+ *   GET /healthz  - process is up (liveness)
+ *   GET /readyz   - initialized and the loop is polling (readiness)
+ *   GET /metrics  - Prometheus metrics
+ */
+
+import { createServer, type Server } from 'node:http';
+import { renderMetrics } from './metrics.js';
+
+// ============ Types ============
+
+export interface Readiness {
+  ready: boolean;
+  // Why the worker isn't ready; empty when ready
+  reasons: string[];
+}
+
+export interface ControlServerOptions {
+  port: number;
+  readiness: () => Readiness;
+}
+
+// ============ Server ============
+
+export function startControlServer(options: ControlServerOptions): Server {
+  const startedAt = Date.now();
+
+  const server = createServer((req, res) => {
+    const path = (req.url ?? '/').split('?')[0];
+
+    if (req.method !== 'GET') {
+      res.writeHead(405, { Allow: 'GET' }).end();
+      return;
+    }
+
+    switch (path) {
+      case '/healthz': {
+        res.writeHead(200, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: 'ok', uptimeSeconds: Math.floor((Date.now() - startedAt) / 1000) }));
+        return;
+      }
+      case '/readyz': {
+        const { ready, reasons } = options.readiness();
+        res.writeHead(ready ? 200 : 503, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ status: ready ? 'ready' : 'not ready', reasons }));
+        return;
+      }
+      case '/metrics': {
+        res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+        res.end(renderMetrics());
+        return;
+      }
+      default: {
+        res.writeHead(404, { 'Content-Type': 'application/json' });
+        res.end(JSON.stringify({ error: 'Not found' }));
+      }
+    }
+  });
+
+  server.listen(options.port, () => {
+    console.log(`[Control] Listening on :${options.port} (/healthz, /readyz, /metrics)`);
+  });
+
+  return server;
+}
@@ -0,0 +1,426 @@
+// Generated by indexer/scripts/generate-client.mjs from indexer/schema.graphql.
+// Do not edit: run `pnpm generate:client` in indexer/ after changing the schema.
+
+/* eslint-disable */
+
+// ============ Entities ============
+
+export interface Strategy {
+  id: string;
+  chainId: number;
+  contract: string;
+  strategyId: string;
+  user: string;
+  strategyType: number;
+  tokenIn: string;
+  tokenOut: string;
+  amountPerExecution: string;
+  frequency: string;
+  totalExecutions: string;
+  executionsCompleted: string;
+  totalAmountIn: string;
+  totalAmountOut: string;
+  averagePrice: string;
+  status: string;
+  paused: boolean;
+  createdAt: string;
+  createdAtBlock: string;
+  updatedAtBlock: string;
+  completedAt: string | null;
+  cancelledAt: string | null;
+  signalCount: number;
+  signalThreshold: number | null;
+  totalGasUsed: string;
+  totalGasCost: string;
+}
+
+export interface Execution {
+  id: string;
+  chainId: number;
+  contract: string;
+  strategy_id: string;
+  strategyId: string;
+  user: string;
+  amountIn: string;
+  amountOut: string;
+  executionsLeft: string;
+  price: string;
+  triggeredBySmartMoney: boolean;
+  whaleWallet: string | null;
+  whaleAmountUsd: string | null;
+  executedAt: string;
+  executedAtBlock: string;
+  transactionHash: string;
+  executor: string;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  gasCost: string;
+}
+
+export interface SmartMoneyStrategy {
+  id: string;
+  chainId: number;
+  strategyId: string;
+  user: string;
+  strategyType: number;
+  triggerType: number;
+  tokenIn: string;
+  tokenOut: string;
+  amountPerExecution: string;
+  totalBudget: string;
+  usedBudget: string;
+  totalAmountOut: string;
+  averagePrice: string;
+  maxExecutions: string;
+  executionsCompleted: string;
+  minInterval: string;
+  lastExecution: string;
+  expiresAt: string;
+  active: boolean;
+  createdAt: string;
+  createdAtBlock: string;
+  totalGasUsed: string;
+  totalGasCost: string;
+  minWhaleAmount: string | null;
+  labelScore: string | null;
+  signalThreshold: number | null;
+  cooldownPeriod: string | null;
+  targetPrice: string | null;
+  slippageBps: string | null;
+  buyBelow: boolean | null;
+}
+
+export interface SmartMoneyExecution {
+  id: string;
+  chainId: number;
+  strategy_id: string;
+  strategyId: string;
+  user: string;
+  amountIn: string;
+  amountOut: string;
+  triggerReason: number;
+  signalHash: string | null;
+  price: string;
+  protocolFee: string;
+  executedAt: string;
+  executedAtBlock: string;
+  transactionHash: string;
+  executor: string;
+  gasUsed: string;
+  effectiveGasPrice: string;
+  gasCost: string;
+}
+
+export interface SmartMoneySignal {
+  id: string;
+  chainId: number;
+  signalHash: string;
+  strategy_id: string | null;
+  walletAddress: string;
+  label: string;
+  score: string | null;
+  amount: string;
+  token: string;
+  timestamp: string;
+  originalTxHash: string | null;
+  transactionHash: string;
+  triggeredExecution: boolean;
+  createdAt: string;
+  createdAtBlock: string;
+}
+
+export interface UserStats {
+  id: string;
+  chainId: number;
+  user: string;
+  totalStrategies: string;
+  activeStrategies: string;
+  completedStrategies: string;
+  cancelledStrategies: string;
+  totalExecutions: string;
+  totalAmountIn: string;
+  totalAmountOut: string;
+  smartMoneyStrategies: string;
+  smartMoneyExecutions: string;
+  smartMoneyTriggeredTrades: string;
+}
+
+export interface GlobalStats {
+  id: string;
+  chainId: number;
+  totalStrategies: string;
+  activeStrategies: string;
+  completedStrategies: string;
+  cancelledStrategies: string;
+  totalExecutions: string;
+  totalAmountIn: string;
+  totalAmountOut: string;
+  uniqueUsers: string;
+  totalSmartMoneyStrategies: string;
+  totalSmartMoneyExecutions: string;
+  totalSmartMoneySignals: string;
+  totalProtocolFees: string;
+  protocolFeeBps: string;
+}
+
+export interface Executor {
+  id: string;
+  chainId: number;
+  address: string;
+  contract: string;
+  authorized: boolean;
+  updatedAt: string;
+  updatedAtBlock: string;
+}
+
+export interface TrackedWallet {
+  id: string;
+  chainId: number;
+  address: string;
+  labels: string[];
+  score: string;
+  totalTrades: string;
+  totalVolumeUsd: string;
+  firstSeen: string;
+  lastSeen: string;
+  triggeredExecutions: string;
+}
+
+export interface TokenAnalytics {
+  id: string;
+  chainId: number;
+  tokenAddress: string;
+  symbol: string | null;
+  name: string | null;
+  decimals: number | null;
+  totalStrategies: string;
+  activeStrategies: string;
+  totalVolume: string;
+  smartMoneyBuys: string;
+  smartMoneySells: string;
+  lastSmartMoneyActivity: string | null;
+}
+
+export interface UserPosition {
+  id: string;
+  chainId: number;
+  user: string;
+  tokenIn: string;
+  tokenOut: string;
+  totalAmountIn: string;
+  totalAmountOut: string;
+  averagePrice: string;
+  executions: string;
+  firstExecutedAt: string;
+  lastExecutedAt: string;
+}
+
+export interface TokenPriceSnapshot {
+  id: string;
+  chainId: number;
+  tokenIn: string;
+  tokenOut: string;
+  period: string;
+  periodStart: string;
+  openPrice: string;
+  highPrice: string;
+  lowPrice: string;
+  closePrice: string;
+  averagePrice: string;
+  volumeIn: string;
+  volumeOut: string;
+  executions: string;
+}
+
+export interface StrategyDaySnapshot {
+  id: string;
+  chainId: number;
+  contract: string;
+  strategy_id: string | null;
+  smartMoneyStrategy_id: string | null;
+  strategyId: string;
+  dayStart: string;
+  executions: string;
+  amountIn: string;
+  amountOut: string;
+  gasCost: string;
+  cumulativeAmountIn: string;
+  cumulativeAmountOut: string;
+  averagePrice: string;
+  closePrice: string;
+}
+
+export interface Entities {
+  Strategy: Strategy;
+  Execution: Execution;
+  SmartMoneyStrategy: SmartMoneyStrategy;
+  SmartMoneyExecution: SmartMoneyExecution;
+  SmartMoneySignal: SmartMoneySignal;
+  UserStats: UserStats;
+  GlobalStats: GlobalStats;
+  Executor: Executor;
+  TrackedWallet: TrackedWallet;
+  TokenAnalytics: TokenAnalytics;
+  UserPosition: UserPosition;
+  TokenPriceSnapshot: TokenPriceSnapshot;
+  StrategyDaySnapshot: StrategyDaySnapshot;
+}
+
+export interface Relations {
+  Strategy: {
+    executions: { entity: 'Execution'; many: true; nullable: false };
+    daySnapshots: { entity: 'StrategyDaySnapshot'; many: true; nullable: false };
+  };
+  Execution: {
+    strategy: { entity: 'Strategy'; many: false; nullable: false };
+  };
+  SmartMoneyStrategy: {
+    smartMoneyExecutions: { entity: 'SmartMoneyExecution'; many: true; nullable: false };
+    signals: { entity: 'SmartMoneySignal'; many: true; nullable: false };
+    daySnapshots: { entity: 'StrategyDaySnapshot'; many: true; nullable: false };
+  };
+  SmartMoneyExecution: {
+    strategy: { entity: 'SmartMoneyStrategy'; many: false; nullable: false };
+  };
+  SmartMoneySignal: {
+    strategy: { entity: 'SmartMoneyStrategy'; many: false; nullable: true };
+  };
+  UserStats: {};
+  GlobalStats: {};
+  Executor: {};
+  TrackedWallet: {};
+  TokenAnalytics: {};
+  UserPosition: {};
+  TokenPriceSnapshot: {};
+  StrategyDaySnapshot: {
+    strategy: { entity: 'Strategy'; many: false; nullable: true };
+    smartMoneyStrategy: { entity: 'SmartMoneyStrategy'; many: false; nullable: true };
+  };
+}
+
+// ============ Query builder ============
+
+export type EntityName = keyof Entities;
+export type Column<E extends EntityName> = keyof Entities[E] & string;
+type RelationName<E extends EntityName> = keyof Relations[E] & string;
+type Target<E extends EntityName, R extends RelationName<E>> = Relations[E][R] extends { entity: infer T extends EntityName } ? T : never;
+
+export type Comparison<T> = {
+  _eq?: T;
+  _neq?: T;
+  _gt?: T;
+  _gte?: T;
+  _lt?: T;
+  _lte?: T;
+  _in?: T[];
+  _nin?: T[];
+  _is_null?: boolean;
+};
+
+export type Where<E extends EntityName> = {
+  [C in Column<E>]?: Comparison<NonNullable<Entities[E][C]>>;
+} & {
+  _and?: Where<E>[];
+  _or?: Where<E>[];
+  _not?: Where<E>;
+};
+
+export type OrderBy<E extends EntityName> = { [C in Column<E>]?: 'asc' | 'desc' };
+
+type RelationQueries<E extends EntityName> = {
+  [R in RelationName<E>]?: Query<Target<E, R>, readonly Column<Target<E, R>>[], any>;
+};
+
+export interface Query<E extends EntityName, F extends readonly Column<E>[], R> {
+  fields: F;
+  where?: Where<E>;
+  order_by?: OrderBy<E> | OrderBy<E>[];
+  limit?: number;
+  offset?: number;
+  relations?: R;
+}
+
+// Only the selected columns, plus the selected relations
+export type Row<E extends EntityName, F extends readonly Column<E>[], R> = Pick<Entities[E], F[number]> & {
+  -readonly [K in keyof R & RelationName<E>]: R[K] extends {
+    fields: infer RF extends readonly Column<Target<E, K>>[];
+  }
+    ? Relations[E][K] extends { many: true }
+      ? Row<Target<E, K>, RF, RelationsOf<R[K]>>[]
+      : Relations[E][K] extends { nullable: true }
+        ? Row<Target<E, K>, RF, RelationsOf<R[K]>> | null
+        : Row<Target<E, K>, RF, RelationsOf<R[K]>>
+    : never;
+};
+
+type RelationsOf<Q> = Q extends { relations: infer R } ? R : {};
+
+// Sends a document to the indexer's GraphQL endpoint and returns its `data`
+export type RequestDocument = (document: string) => Promise<unknown>;
+
+type AnyQuery = {
+  fields: readonly string[];
+  where?: object;
+  order_by?: object;
+  limit?: number;
+  offset?: number;
+  relations?: Record<string, AnyQuery>;
+};
+
+function literal(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(literal).join(', ')}]`;
+  if (value !== null && typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    return `{ ${entries.map(([key, item]) => `${key}: ${literal(item)}`).join(', ')} }`;
+  }
+  if (typeof value === 'string') return JSON.stringify(value);
+  return String(value);
+}
+
+// order_by directions are enum values, so they're written unquoted
+function orderLiteral(orderBy: object): string {
+  if (Array.isArray(orderBy)) return `[${orderBy.map(orderLiteral).join(', ')}]`;
+  return `{ ${Object.entries(orderBy).map(([key, direction]) => `${key}: ${direction}`).join(', ')} }`;
+}
+
+function selection(field: string, query: AnyQuery): string {
+  const args: string[] = [];
+  if (query.where) args.push(`where: ${literal(query.where)}`);
+  if (query.order_by) args.push(`order_by: ${orderLiteral(query.order_by)}`);
+  if (query.limit !== undefined) args.push(`limit: ${query.limit}`);
+  if (query.offset !== undefined) args.push(`offset: ${query.offset}`);
+
+  const children = [
+    ...query.fields,
+    ...Object.entries(query.relations ?? {}).map(([name, relation]) => selection(name, relation)),
+  ];
+
+  return `${field}${args.length > 0 ? `(${args.join(', ')})` : ''} { ${children.join(' ')} }`;
+}
+
+/**
+ * Build the GraphQL document for a query on one entity
+ */
+export function buildQuery<E extends EntityName>(entity: E, query: Query<E, readonly Column<E>[], unknown>): string {
+  return `query { ${selection(entity, query as AnyQuery)} }`;
+}
+
+export class EnvioClient {
+  constructor(private readonly request: RequestDocument) {}
+
+  /**
+   * Fetch rows of one entity. Unknown fields, filters or relations are type
+   * errors; GraphQL errors are thrown rather than returned as empty results.
+   */
+  async query<
+    E extends EntityName,
+    const F extends readonly Column<E>[],
+    const R extends RelationQueries<E> = {},
+  >(
+    entity: E,
+    query: Query<E, F, R & { [K in Exclude<keyof R, RelationName<E>>]: never }>
+  ): Promise<Row<E, F, R>[]> {
+    const data = (await this.request(buildQuery(entity, query))) as Record<string, unknown>;
+    return data[entity] as Row<E, F, R>[];
+  }
+}
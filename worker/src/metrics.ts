@@ -0,0 +1,94 @@
+/**
+ * Worker Metrics
+ *
+ * Minimal Prometheus registry (counters and gauges with labels) rendered in
+ * the text exposition format for the control server's /metrics endpoint.
+ * Module-level so the worker loop and signal sources can record into the same
+ * registry without threading it through every call.
+ */
+
+// ============ Types ============
+
+type MetricType = 'counter' | 'gauge';
+type Labels = Record<string, string>;
+
+// ============ Metrics ============
+
+class Metric {
+  private readonly series = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: MetricType
+  ) {}
+
+  private static key(labels: Labels): string {
+    return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+  }
+
+  inc(labels: Labels = {}, by = 1): void {
+    const key = Metric.key(labels);
+    const current = this.series.get(key);
+    this.series.set(key, { labels, value: (current?.value ?? 0) + by });
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.series.set(Metric.key(labels), { labels, value });
+  }
+
+  render(): string {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`];
+
+    // Unlabelled metrics report 0 until first recorded, so alerts see the series
+    if (this.series.size === 0) {
+      lines.push(`${this.name} 0`);
+    }
+
+    for (const { labels, value } of this.series.values()) {
+      const labelText = Object.entries(labels)
+        .map(([key, labelValue]) => `${key}="${labelValue.replace(/["\\\n]/g, '\\$&')}"`)
+        .join(',');
+      lines.push(`${this.name}${labelText ? `{${labelText}}` : ''} ${value}`);
+    }
+
+    return lines.join('\n');
+  }
+}
+
+const registry: Metric[] = [];
+
+function counter(name: string, help: string): Metric {
+  const metric = new Metric(name, help, 'counter');
+  registry.push(metric);
+  return metric;
+}
+
+function gauge(name: string, help: string): Metric {
+  const metric = new Metric(name, help, 'gauge');
+  registry.push(metric);
+  return metric;
+}
+
+export const metrics = {
+  ethBalance: gauge('autostack_worker_eth_balance', 'Executor wallet ETH balance on Base'),
+  usdcBalance: gauge('autostack_worker_x402_usdc_balance', 'Solana USDC balance available for x402 payments'),
+  indexerUp: gauge('autostack_worker_indexer_up', 'Whether the Envio indexer answered the last query (1/0)'),
+  polls: counter('autostack_worker_polls_total', 'Worker loop iterations started'),
+  pollErrors: counter('autostack_worker_poll_errors_total', 'Worker loop iterations that failed'),
+  lastPoll: gauge('autostack_worker_last_poll_timestamp_seconds', 'Unix time the last worker loop iteration finished'),
+  signalsSeen: counter('autostack_worker_signals_seen_total', 'Smart money trades that passed the label filter'),
+  signalsAccepted: counter('autostack_worker_signals_accepted_total', 'Smart money signals accepted on-chain'),
+  executions: counter('autostack_worker_executions_total', 'Execution attempts by trigger and result'),
+  x402Requests: counter('autostack_worker_x402_requests_total', 'Paid Nansen requests made via x402'),
+  x402SpendUsd: counter('autostack_worker_x402_spend_usd_total', 'USDC spent on x402 payments'),
+  x402BudgetRemaining: gauge('autostack_worker_x402_budget_remaining_usd', 'USDC left in the rolling x402 budget by window'),
+  inFlightTxs: gauge('autostack_worker_in_flight_transactions', 'Transactions sent but not yet mined'),
+};
+
+/**
+ * Render every metric in the Prometheus text exposition format
+ */
+export function renderMetrics(): string {
+  return registry.map((metric) => metric.render()).join('\n\n') + '\n';
+}
@@ -0,0 +1,106 @@
+/**
+ * Pre-flight Simulation
+ *
+ * Every execution is eth_call'd with the exact calldata before it is sent, and
+ * a revert is decoded into a typed outcome so the worker can decide whether to
+ * skip the strategy, retry on a later poll, or alert an operator, instead of
+ * paying gas for a transaction that is known to fail.
+ */
+
+import { BaseError, ContractFunctionRevertedError, parseAbi } from 'viem';
+
+// ============ Types ============
+
+export type RevertKind =
+  | 'insufficient_allowance' // token transfer/approval failed inside the swap
+  | 'slippage' // Uniswap output below amountOutMinimum
+  | 'cooldown' // time-based strategy not due yet
+  | 'not_authorized_executor' // worker wallet isn't an authorized executor
+  | 'strategy_inactive' // cancelled, completed, paused or wrong strategy type
+  | 'invalid_signal' // signal rejected by the strategy's smart money checks
+  | 'price_not_met' // limit order price moved back past its target
+  | 'unknown';
+
+export type RevertAction =
+  | 'skip' // won't succeed for this strategy/signal; don't send
+  | 'retry' // may succeed on a later poll
+  | 'alert'; // needs an operator (config, funding, permissions)
+
+export interface ClassifiedRevert {
+  kind: RevertKind;
+  action: RevertAction;
+  // Decoded revert string or custom error name
+  reason: string;
+}
+
+// Errors that can bubble out of an execution: OpenZeppelin v5 (token,
+// SafeERC20, Ownable, ReentrancyGuard). AutoStackDCAV2 and SmartMoneyDCA use
+// require strings, which viem decodes without an ABI entry.
+export const EXECUTION_ERRORS_ABI = parseAbi([
+  'error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)',
+  'error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)',
+  'error SafeERC20FailedOperation(address token)',
+  'error OwnableUnauthorizedAccount(address account)',
+  'error ReentrancyGuardReentrantCall()',
+]);
+
+// ============ Revert Classification ============
+
+const REVERT_RULES: { match: RegExp; kind: RevertKind; action: RevertAction }[] = [
+  { match: /Not authorized executor|OwnableUnauthorizedAccount/, kind: 'not_authorized_executor', action: 'alert' },
+  {
+    match: /Strategy not active|Strategy paused|No executions left|Not a smart money strategy|Not a time-based strategy|Not a limit order strategy|Smart money disabled|Budget exhausted/,
+    kind: 'strategy_inactive',
+    action: 'skip',
+  },
+  { match: /Too early to execute/, kind: 'cooldown', action: 'retry' },
+  { match: /Price above target|Price below target/, kind: 'price_not_met', action: 'retry' },
+  { match: /Too little received|Price slippage check/, kind: 'slippage', action: 'retry' },
+  {
+    match: /ERC20InsufficientAllowance|ERC20InsufficientBalance|SafeERC20FailedOperation|insufficient allowance|transfer amount exceeds|\bSTF\b|\bST\b/,
+    kind: 'insufficient_allowance',
+    action: 'alert',
+  },
+  {
+    match: /Whale amount below threshold|Label score below threshold|Invalid signal timestamp|Invalid tx hash|Duplicate signal/,
+    kind: 'invalid_signal',
+    action: 'skip',
+  },
+];
+
+/**
+ * Map a simulation/estimation error to a typed revert outcome. Uses the
+ * decoded revert reason when viem has one, otherwise the error text.
+ */
+export function classifyRevert(error: unknown): ClassifiedRevert {
+  let reason = error instanceof Error ? error.message : String(error);
+
+  if (error instanceof BaseError) {
+    const revert = error.walk((e) => e instanceof ContractFunctionRevertedError);
+    if (revert instanceof ContractFunctionRevertedError) {
+      reason = revert.reason ?? revert.data?.errorName ?? revert.shortMessage;
+    } else {
+      reason = error.shortMessage;
+    }
+  }
+
+  const rule = REVERT_RULES.find(({ match }) => match.test(reason));
+  if (rule) {
+    return { kind: rule.kind, action: rule.action, reason };
+  }
+
+  // RPC failures, out-of-gas, undecodable reverts: let an operator look
+  return { kind: 'unknown', action: 'alert', reason };
+}
+
+/**
+ * Run a simulation and return null if it succeeds, or the classified revert
+ */
+export async function simulate(run: () => Promise<unknown>): Promise<ClassifiedRevert | null> {
+  try {
+    await run();
+    return null;
+  } catch (error) {
+    return classifyRevert(error);
+  }
+}
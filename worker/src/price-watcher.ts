@@ -0,0 +1,165 @@
+/**
+ * Limit-Order Price Watcher
+ *
+ * Decides when SmartMoneyDCA LIMIT_ORDER and SMART_ACCUMULATE strategies should
+ * call executeLimitOrder. The contract only checks the price it is handed
+ * against PriceConfig.targetPrice, so without a guard a price sitting at the
+ * target would trigger an execution on every poll. The gate fires once per
+ * crossing and re-arms only after the price has moved back past the target by
+ * a hysteresis band. Fired strategies are persisted to a JSON file so a restart
+ * doesn't fire them again while the price is still past the target.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+// ============ Types ============
+
+// SmartMoneyDCA.StrategyType values the watcher executes
+export const PRICE_TRIGGERED_STRATEGY_TYPES = [2, 5]; // LIMIT_ORDER, SMART_ACCUMULATE
+
+// Mirrors SmartMoneyDCA.PriceConfig
+export interface StrategyPriceConfig {
+  targetPrice: bigint; // tokenIn base units per whole tokenOut
+  slippageBps: bigint;
+  buyBelow: boolean; // true = buy at or below target, false = at or above
+}
+
+interface PriceGateFile {
+  version: 1;
+  // targetPrice as a decimal string so it round-trips through JSON
+  disarmed: { strategyId: string; targetPrice: string }[];
+}
+
+const BPS = 10_000n;
+
+// ============ Pricing ============
+
+/**
+ * Price of one whole tokenOut in tokenIn base units, the unit targetPrice is
+ * set in, from a quote for swapping `amountIn` to `amountOut`
+ */
+export function priceFromQuote(amountIn: bigint, amountOut: bigint, tokenOutDecimals: number): bigint {
+  if (amountOut === 0n) {
+    throw new Error('Quote returned no output');
+  }
+  return (amountIn * 10n ** BigInt(tokenOutDecimals)) / amountOut;
+}
+
+/**
+ * The same check executeLimitOrder makes on-chain
+ */
+export function isPriceConditionMet(price: bigint, config: StrategyPriceConfig): boolean {
+  return config.buyBelow ? price <= config.targetPrice : price >= config.targetPrice;
+}
+
+/**
+ * Whether the price has moved far enough back across the target to allow
+ * another execution: above it by `rearmBps` for buy-below orders, below it by
+ * `rearmBps` for buy-above ones
+ */
+export function isPastRearmBand(price: bigint, config: StrategyPriceConfig, rearmBps: bigint): boolean {
+  return config.buyBelow
+    ? price * BPS > config.targetPrice * (BPS + rearmBps)
+    : price * BPS < config.targetPrice * (BPS - rearmBps);
+}
+
+// ============ Trigger Gate ============
+
+export class PriceTriggerGate {
+  // Strategies that fired and wait to re-arm, with the target they fired at
+  private readonly disarmed = new Map<string, bigint>();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly rearmBps: bigint
+  ) {
+    this.load();
+  }
+
+  get size(): number {
+    return this.disarmed.size;
+  }
+
+  /**
+   * Whether a strategy should execute at `price`. Re-arms a fired strategy
+   * once the price leaves the band, or if its owner changed the target.
+   */
+  shouldFire(strategyId: string, price: bigint, config: StrategyPriceConfig): boolean {
+    const firedAt = this.disarmed.get(strategyId);
+    if (firedAt !== undefined) {
+      if (firedAt === config.targetPrice && !isPastRearmBand(price, config, this.rearmBps)) {
+        return false;
+      }
+      this.disarmed.delete(strategyId);
+      this.persist();
+    }
+
+    return isPriceConditionMet(price, config);
+  }
+
+  /**
+   * Record an execution before it is sent; the strategy stays quiet until it
+   * re-arms, including while the transaction is still in flight
+   */
+  markFired(strategyId: string, config: StrategyPriceConfig): void {
+    this.disarmed.set(strategyId, config.targetPrice);
+    this.persist();
+  }
+
+  /**
+   * Undo markFired after a failed execution so the next poll tries again
+   */
+  release(strategyId: string): void {
+    if (this.disarmed.delete(strategyId)) {
+      this.persist();
+    }
+  }
+
+  /**
+   * Forget strategies that are no longer active
+   */
+  retain(strategyIds: Iterable<string>): void {
+    const keep = new Set(strategyIds);
+    let changed = false;
+    for (const strategyId of this.disarmed.keys()) {
+      if (!keep.has(strategyId)) {
+        this.disarmed.delete(strategyId);
+        changed = true;
+      }
+    }
+    if (changed) {
+      this.persist();
+    }
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) return;
+
+    try {
+      const file = JSON.parse(readFileSync(this.filePath, 'utf8')) as PriceGateFile;
+      for (const { strategyId, targetPrice } of file.disarmed ?? []) {
+        this.disarmed.set(strategyId, BigInt(targetPrice));
+      }
+    } catch (error: any) {
+      // Starting empty would re-fire every order still past its target
+      throw new Error(`Failed to read price gate ${this.filePath}: ${error.message}`);
+    }
+  }
+
+  private persist(): void {
+    const file: PriceGateFile = {
+      version: 1,
+      disarmed: [...this.disarmed].map(([strategyId, targetPrice]) => ({
+        strategyId,
+        targetPrice: targetPrice.toString(),
+      })),
+    };
+
+    // Write to a temp file and rename so a crash never leaves a truncated file
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(file, null, 2));
+    renameSync(tmpPath, this.filePath);
+  }
+}
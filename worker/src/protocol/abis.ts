@@ -0,0 +1,186 @@
+// Copied from protocol/src/abis.ts by protocol/scripts/generate.mjs.
+// Do not edit: change protocol/src, then run `pnpm generate` in protocol/.
+
+// Generated by protocol/scripts/generate.mjs from the Foundry artifacts in contracts/out.
+// Do not edit: run `forge build` in contracts/, then `pnpm generate` in protocol/.
+
+export const AUTOSTACK_DCA_ABI = [
+  {"inputs":[],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[{"internalType":"address","name":"target","type":"address"}],"name":"AddressEmptyCode","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"AddressInsufficientBalance","type":"error"},
+  {"inputs":[],"name":"FailedInnerCall","type":"error"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"inputs":[{"internalType":"address","name":"token","type":"address"}],"name":"SafeERC20FailedOperation","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"amountIn","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"amountOut","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"executionsLeft","type":"uint256"}],"name":"DCAExecuted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"}],"name":"StrategyCancelled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"}],"name":"StrategyCompleted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"address","name":"tokenIn","type":"address"},{"indexed":false,"internalType":"address","name":"tokenOut","type":"address"},{"indexed":false,"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"frequency","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"totalExecutions","type":"uint256"}],"name":"StrategyCreated","type":"event"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"canExecute","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"cancelStrategy","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"frequency","type":"uint256"},{"internalType":"uint256","name":"totalExecutions","type":"uint256"}],"name":"createStrategy","outputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"token","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"emergencyWithdraw","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"executeDCA","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"getStrategy","outputs":[{"components":[{"internalType":"address","name":"user","type":"address"},{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"frequency","type":"uint256"},{"internalType":"uint256","name":"executionsLeft","type":"uint256"},{"internalType":"uint256","name":"lastExecution","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"}],"internalType":"struct AutoStackDCA.Strategy","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getUserStrategies","outputs":[{"internalType":"uint256[]","name":"","type":"uint256[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"nextStrategyId","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"strategies","outputs":[{"internalType":"address","name":"user","type":"address"},{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"frequency","type":"uint256"},{"internalType":"uint256","name":"executionsLeft","type":"uint256"},{"internalType":"uint256","name":"lastExecution","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"userStrategies","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+] as const;
+
+export const AUTOSTACK_DCA_V2_ABI = [
+  {"inputs":[],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[{"internalType":"address","name":"target","type":"address"}],"name":"AddressEmptyCode","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"AddressInsufficientBalance","type":"error"},
+  {"inputs":[],"name":"FailedInnerCall","type":"error"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"inputs":[{"internalType":"address","name":"token","type":"address"}],"name":"SafeERC20FailedOperation","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"amountIn","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"amountOut","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"executionsLeft","type":"uint256"}],"name":"DCAExecuted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"executor","type":"address"},{"indexed":false,"internalType":"bool","name":"authorized","type":"bool"}],"name":"ExecutorUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":false,"internalType":"uint8","name":"currentCount","type":"uint8"},{"indexed":false,"internalType":"uint8","name":"threshold","type":"uint8"}],"name":"SignalAccumulated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"indexed":false,"internalType":"uint8","name":"minLabelScore","type":"uint8"},{"indexed":false,"internalType":"uint8","name":"signalThreshold","type":"uint8"},{"indexed":false,"internalType":"uint256","name":"signalWindow","type":"uint256"},{"indexed":false,"internalType":"bool","name":"enabled","type":"bool"}],"name":"SmartMoneyConfigUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"amountIn","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"amountOut","type":"uint256"},{"indexed":false,"internalType":"address","name":"whaleWallet","type":"address"},{"indexed":false,"internalType":"uint256","name":"whaleAmountUsd","type":"uint256"}],"name":"SmartMoneyTriggered","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"}],"name":"StrategyCancelled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"}],"name":"StrategyCompleted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"address","name":"tokenIn","type":"address"},{"indexed":false,"internalType":"address","name":"tokenOut","type":"address"},{"indexed":false,"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"frequency","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"totalExecutions","type":"uint256"},{"indexed":false,"internalType":"enum AutoStackDCAV2.StrategyType","name":"strategyType","type":"uint8"}],"name":"StrategyCreated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"}],"name":"StrategyPaused","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"}],"name":"StrategyResumed","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"additionalExecutions","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"executionsLeft","type":"uint256"}],"name":"StrategyToppedUp","type":"event"},
+  {"inputs":[],"name":"FEE_HIGH","outputs":[{"internalType":"uint24","name":"","type":"uint24"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"FEE_LOW","outputs":[{"internalType":"uint24","name":"","type":"uint24"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"FEE_MEDIUM","outputs":[{"internalType":"uint24","name":"","type":"uint24"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"QUOTER","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"SWAP_ROUTER","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"authorizedExecutors","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"canExecuteSmartMoney","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"canExecuteTimeBased","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"cancelStrategy","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"frequency","type":"uint256"},{"internalType":"uint256","name":"totalExecutions","type":"uint256"},{"internalType":"uint24","name":"poolFee","type":"uint24"},{"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"internalType":"uint8","name":"minLabelScore","type":"uint8"},{"internalType":"uint8","name":"signalThreshold","type":"uint8"},{"internalType":"uint256","name":"signalWindow","type":"uint256"}],"name":"createHybridStrategy","outputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"frequency","type":"uint256"},{"internalType":"uint256","name":"totalExecutions","type":"uint256"},{"internalType":"uint24","name":"poolFee","type":"uint24"},{"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"internalType":"uint8","name":"minLabelScore","type":"uint8"},{"internalType":"uint8","name":"signalThreshold","type":"uint8"},{"internalType":"uint256","name":"signalWindow","type":"uint256"}],"name":"createSmartMoneyStrategy","outputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"frequency","type":"uint256"},{"internalType":"uint256","name":"totalExecutions","type":"uint256"},{"internalType":"uint24","name":"poolFee","type":"uint24"}],"name":"createStrategy","outputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"token","type":"address"},{"internalType":"uint256","name":"amount","type":"uint256"}],"name":"emergencyWithdraw","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"executeDCA","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"},{"components":[{"internalType":"address","name":"wallet","type":"address"},{"internalType":"uint256","name":"amountUsd","type":"uint256"},{"internalType":"uint8","name":"labelScore","type":"uint8"},{"internalType":"bytes32","name":"txHash","type":"bytes32"},{"internalType":"uint256","name":"timestamp","type":"uint256"}],"internalType":"struct AutoStackDCAV2.SmartMoneySignal","name":"signal","type":"tuple"}],"name":"executeWithSmartMoneySignal","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"feeRecipient","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"getSignalAccumulator","outputs":[{"internalType":"uint8","name":"signalCount","type":"uint8"},{"internalType":"uint256","name":"windowStart","type":"uint256"},{"internalType":"uint256","name":"processedCount","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"getSmartMoneyConfig","outputs":[{"components":[{"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"internalType":"uint8","name":"minLabelScore","type":"uint8"},{"internalType":"uint8","name":"signalThreshold","type":"uint8"},{"internalType":"uint256","name":"signalWindow","type":"uint256"},{"internalType":"bool","name":"enabled","type":"bool"}],"internalType":"struct AutoStackDCAV2.SmartMoneyConfig","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"getStrategy","outputs":[{"components":[{"internalType":"address","name":"user","type":"address"},{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint24","name":"poolFee","type":"uint24"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"frequency","type":"uint256"},{"internalType":"uint256","name":"executionsLeft","type":"uint256"},{"internalType":"uint256","name":"lastExecution","type":"uint256"},{"internalType":"uint256","name":"totalAmountIn","type":"uint256"},{"internalType":"uint256","name":"totalAmountOut","type":"uint256"},{"internalType":"enum AutoStackDCAV2.StrategyType","name":"strategyType","type":"uint8"},{"components":[{"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"internalType":"uint8","name":"minLabelScore","type":"uint8"},{"internalType":"uint8","name":"signalThreshold","type":"uint8"},{"internalType":"uint256","name":"signalWindow","type":"uint256"},{"internalType":"bool","name":"enabled","type":"bool"}],"internalType":"struct AutoStackDCAV2.SmartMoneyConfig","name":"smartMoneyConfig","type":"tuple"},{"internalType":"bool","name":"active","type":"bool"}],"internalType":"struct AutoStackDCAV2.Strategy","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getUserStrategies","outputs":[{"internalType":"uint256[]","name":"","type":"uint256[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"maxSlippageBps","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"nextStrategyId","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"pauseStrategy","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"pausedStrategies","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"protocolFeeBps","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"resumeStrategy","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"executor","type":"address"},{"internalType":"bool","name":"authorized","type":"bool"}],"name":"setAuthorizedExecutor","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"_recipient","type":"address"}],"name":"setFeeRecipient","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_slippageBps","type":"uint256"}],"name":"setMaxSlippage","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"_feeBps","type":"uint256"}],"name":"setProtocolFee","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"signalAccumulators","outputs":[{"internalType":"uint8","name":"signalCount","type":"uint8"},{"internalType":"uint256","name":"windowStart","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"strategies","outputs":[{"internalType":"address","name":"user","type":"address"},{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint24","name":"poolFee","type":"uint24"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"frequency","type":"uint256"},{"internalType":"uint256","name":"executionsLeft","type":"uint256"},{"internalType":"uint256","name":"lastExecution","type":"uint256"},{"internalType":"uint256","name":"totalAmountIn","type":"uint256"},{"internalType":"uint256","name":"totalAmountOut","type":"uint256"},{"internalType":"enum AutoStackDCAV2.StrategyType","name":"strategyType","type":"uint8"},{"components":[{"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"internalType":"uint8","name":"minLabelScore","type":"uint8"},{"internalType":"uint8","name":"signalThreshold","type":"uint8"},{"internalType":"uint256","name":"signalWindow","type":"uint256"},{"internalType":"bool","name":"enabled","type":"bool"}],"internalType":"struct AutoStackDCAV2.SmartMoneyConfig","name":"smartMoneyConfig","type":"tuple"},{"internalType":"bool","name":"active","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"},{"internalType":"uint256","name":"additionalExecutions","type":"uint256"}],"name":"topUpStrategy","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"},{"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"internalType":"uint8","name":"minLabelScore","type":"uint8"},{"internalType":"uint8","name":"signalThreshold","type":"uint8"},{"internalType":"uint256","name":"signalWindow","type":"uint256"},{"internalType":"bool","name":"enabled","type":"bool"}],"name":"updateSmartMoneyConfig","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"userStrategies","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+] as const;
+
+export const SMART_MONEY_DCA_ABI = [
+  {"inputs":[{"internalType":"address","name":"_dexRouter","type":"address"},{"internalType":"address","name":"_feeRecipient","type":"address"}],"stateMutability":"nonpayable","type":"constructor"},
+  {"inputs":[{"internalType":"address","name":"target","type":"address"}],"name":"AddressEmptyCode","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"AddressInsufficientBalance","type":"error"},
+  {"inputs":[],"name":"FailedInnerCall","type":"error"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"}],"name":"OwnableInvalidOwner","type":"error"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"OwnableUnauthorizedAccount","type":"error"},
+  {"inputs":[],"name":"ReentrancyGuardReentrantCall","type":"error"},
+  {"inputs":[{"internalType":"address","name":"token","type":"address"}],"name":"SafeERC20FailedOperation","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"amountIn","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"amountOut","type":"uint256"},{"indexed":false,"internalType":"enum SmartMoneyDCA.TriggerType","name":"triggerReason","type":"uint8"},{"indexed":false,"internalType":"uint256","name":"executionsLeft","type":"uint256"}],"name":"DCAExecuted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"executor","type":"address"},{"indexed":false,"internalType":"bool","name":"authorized","type":"bool"}],"name":"ExecutorAuthorized","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"previousOwner","type":"address"},{"indexed":true,"internalType":"address","name":"newOwner","type":"address"}],"name":"OwnershipTransferred","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"targetPrice","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"slippageBps","type":"uint256"},{"indexed":false,"internalType":"bool","name":"buyBelow","type":"bool"}],"name":"PriceConfigSet","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":false,"internalType":"uint256","name":"newFeeBps","type":"uint256"}],"name":"ProtocolFeeUpdated","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"labelScore","type":"uint256"},{"indexed":false,"internalType":"uint8","name":"signalThreshold","type":"uint8"}],"name":"SmartMoneyConfigSet","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"bytes32","name":"signalHash","type":"bytes32"},{"indexed":true,"internalType":"address","name":"wallet","type":"address"},{"indexed":false,"internalType":"string","name":"label","type":"string"},{"indexed":false,"internalType":"uint256","name":"amount","type":"uint256"},{"indexed":false,"internalType":"address","name":"token","type":"address"}],"name":"SmartMoneySignalReceived","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"refundAmount","type":"uint256"}],"name":"StrategyCancelled","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"uint256","name":"totalAmountOut","type":"uint256"}],"name":"StrategyCompleted","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"uint256","name":"strategyId","type":"uint256"},{"indexed":true,"internalType":"address","name":"user","type":"address"},{"indexed":false,"internalType":"enum SmartMoneyDCA.StrategyType","name":"strategyType","type":"uint8"},{"indexed":false,"internalType":"enum SmartMoneyDCA.TriggerType","name":"triggerType","type":"uint8"},{"indexed":false,"internalType":"address","name":"tokenIn","type":"address"},{"indexed":false,"internalType":"address","name":"tokenOut","type":"address"},{"indexed":false,"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"indexed":false,"internalType":"uint256","name":"totalBudget","type":"uint256"}],"name":"StrategyCreated","type":"event"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"authorizedExecutors","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"canExecute","outputs":[{"internalType":"bool","name":"","type":"bool"},{"internalType":"string","name":"reason","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"cancelStrategy","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"frequency","type":"uint256"},{"internalType":"uint256","name":"totalExecutions","type":"uint256"}],"name":"createBasicDCA","outputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"totalBudget","type":"uint256"},{"internalType":"uint256","name":"maxExecutions","type":"uint256"},{"components":[{"internalType":"uint256","name":"targetPrice","type":"uint256"},{"internalType":"uint256","name":"slippageBps","type":"uint256"},{"internalType":"bool","name":"buyBelow","type":"bool"}],"internalType":"struct SmartMoneyDCA.PriceConfig","name":"config","type":"tuple"}],"name":"createLimitOrderDCA","outputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"totalBudget","type":"uint256"},{"internalType":"uint256","name":"maxExecutions","type":"uint256"},{"components":[{"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"internalType":"uint256","name":"labelScore","type":"uint256"},{"internalType":"string[]","name":"requiredLabels","type":"string[]"},{"internalType":"uint8","name":"signalThreshold","type":"uint8"},{"internalType":"uint256","name":"cooldownPeriod","type":"uint256"}],"internalType":"struct SmartMoneyDCA.SmartMoneyConfig","name":"smConfig","type":"tuple"},{"components":[{"internalType":"uint256","name":"targetPrice","type":"uint256"},{"internalType":"uint256","name":"slippageBps","type":"uint256"},{"internalType":"bool","name":"buyBelow","type":"bool"}],"internalType":"struct SmartMoneyDCA.PriceConfig","name":"priceConfig","type":"tuple"}],"name":"createSmartAccumulate","outputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"totalBudget","type":"uint256"},{"internalType":"uint256","name":"maxExecutions","type":"uint256"},{"internalType":"uint256","name":"minInterval","type":"uint256"},{"internalType":"uint256","name":"expiresAt","type":"uint256"},{"components":[{"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"internalType":"uint256","name":"labelScore","type":"uint256"},{"internalType":"string[]","name":"requiredLabels","type":"string[]"},{"internalType":"uint8","name":"signalThreshold","type":"uint8"},{"internalType":"uint256","name":"cooldownPeriod","type":"uint256"}],"internalType":"struct SmartMoneyDCA.SmartMoneyConfig","name":"config","type":"tuple"}],"name":"createSmartMoneyDCA","outputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"dexRouter","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"},{"internalType":"uint256","name":"currentPrice","type":"uint256"},{"internalType":"bytes","name":"swapData","type":"bytes"}],"name":"executeLimitOrder","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"},{"internalType":"bytes","name":"swapData","type":"bytes"}],"name":"executeTimeBased","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"},{"components":[{"internalType":"address","name":"wallet","type":"address"},{"internalType":"string","name":"label","type":"string"},{"internalType":"uint256","name":"score","type":"uint256"},{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"bytes32","name":"txHash","type":"bytes32"}],"internalType":"struct SmartMoneyDCA.SmartMoneySignal","name":"signal","type":"tuple"},{"internalType":"bytes","name":"swapData","type":"bytes"}],"name":"executeWithSmartMoneySignal","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[],"name":"feeRecipient","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"getPriceConfig","outputs":[{"components":[{"internalType":"uint256","name":"targetPrice","type":"uint256"},{"internalType":"uint256","name":"slippageBps","type":"uint256"},{"internalType":"bool","name":"buyBelow","type":"bool"}],"internalType":"struct SmartMoneyDCA.PriceConfig","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"count","type":"uint256"}],"name":"getRecentSignals","outputs":[{"components":[{"internalType":"address","name":"wallet","type":"address"},{"internalType":"string","name":"label","type":"string"},{"internalType":"uint256","name":"score","type":"uint256"},{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"bytes32","name":"txHash","type":"bytes32"}],"internalType":"struct SmartMoneyDCA.SmartMoneySignal[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"getSmartMoneyConfig","outputs":[{"components":[{"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"internalType":"uint256","name":"labelScore","type":"uint256"},{"internalType":"string[]","name":"requiredLabels","type":"string[]"},{"internalType":"uint8","name":"signalThreshold","type":"uint8"},{"internalType":"uint256","name":"cooldownPeriod","type":"uint256"}],"internalType":"struct SmartMoneyDCA.SmartMoneyConfig","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"getStrategy","outputs":[{"components":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"address","name":"user","type":"address"},{"internalType":"enum SmartMoneyDCA.StrategyType","name":"strategyType","type":"uint8"},{"internalType":"enum SmartMoneyDCA.TriggerType","name":"triggerType","type":"uint8"},{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"totalBudget","type":"uint256"},{"internalType":"uint256","name":"usedBudget","type":"uint256"},{"internalType":"uint256","name":"maxExecutions","type":"uint256"},{"internalType":"uint256","name":"executionsCompleted","type":"uint256"},{"internalType":"uint256","name":"minInterval","type":"uint256"},{"internalType":"uint256","name":"lastExecution","type":"uint256"},{"internalType":"uint256","name":"expiresAt","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"bytes32","name":"smartMoneyConfigHash","type":"bytes32"},{"internalType":"bytes32","name":"priceConfigHash","type":"bytes32"}],"internalType":"struct SmartMoneyDCA.Strategy","name":"","type":"tuple"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"}],"name":"getStrategyExecutions","outputs":[{"components":[{"internalType":"uint256","name":"strategyId","type":"uint256"},{"internalType":"uint256","name":"amountIn","type":"uint256"},{"internalType":"uint256","name":"amountOut","type":"uint256"},{"internalType":"enum SmartMoneyDCA.TriggerType","name":"triggerReason","type":"uint8"},{"internalType":"bytes32","name":"signalHash","type":"bytes32"},{"internalType":"uint256","name":"executedAt","type":"uint256"},{"internalType":"uint256","name":"gasUsed","type":"uint256"}],"internalType":"struct SmartMoneyDCA.Execution[]","name":"","type":"tuple[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"user","type":"address"}],"name":"getUserStrategies","outputs":[{"internalType":"uint256[]","name":"","type":"uint256[]"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"nextStrategyId","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"owner","outputs":[{"internalType":"address","name":"","type":"address"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"priceConfigs","outputs":[{"internalType":"uint256","name":"targetPrice","type":"uint256"},{"internalType":"uint256","name":"slippageBps","type":"uint256"},{"internalType":"bool","name":"buyBelow","type":"bool"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"protocolFeeBps","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"recentSignals","outputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"renounceOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"executor","type":"address"},{"internalType":"bool","name":"authorized","type":"bool"}],"name":"setAuthorizedExecutor","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newRouter","type":"address"}],"name":"setDexRouter","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newRecipient","type":"address"}],"name":"setFeeRecipient","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"newFeeBps","type":"uint256"}],"name":"setProtocolFee","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"bytes32","name":"","type":"bytes32"}],"name":"signals","outputs":[{"internalType":"address","name":"wallet","type":"address"},{"internalType":"string","name":"label","type":"string"},{"internalType":"uint256","name":"score","type":"uint256"},{"internalType":"uint256","name":"amount","type":"uint256"},{"internalType":"uint256","name":"timestamp","type":"uint256"},{"internalType":"bytes32","name":"txHash","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"smartMoneyConfigs","outputs":[{"internalType":"uint256","name":"minWhaleAmount","type":"uint256"},{"internalType":"uint256","name":"labelScore","type":"uint256"},{"internalType":"uint8","name":"signalThreshold","type":"uint8"},{"internalType":"uint256","name":"cooldownPeriod","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"}],"name":"strategies","outputs":[{"internalType":"uint256","name":"id","type":"uint256"},{"internalType":"address","name":"user","type":"address"},{"internalType":"enum SmartMoneyDCA.StrategyType","name":"strategyType","type":"uint8"},{"internalType":"enum SmartMoneyDCA.TriggerType","name":"triggerType","type":"uint8"},{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountPerExecution","type":"uint256"},{"internalType":"uint256","name":"totalBudget","type":"uint256"},{"internalType":"uint256","name":"usedBudget","type":"uint256"},{"internalType":"uint256","name":"maxExecutions","type":"uint256"},{"internalType":"uint256","name":"executionsCompleted","type":"uint256"},{"internalType":"uint256","name":"minInterval","type":"uint256"},{"internalType":"uint256","name":"lastExecution","type":"uint256"},{"internalType":"uint256","name":"expiresAt","type":"uint256"},{"internalType":"bool","name":"active","type":"bool"},{"internalType":"uint256","name":"createdAt","type":"uint256"},{"internalType":"bytes32","name":"smartMoneyConfigHash","type":"bytes32"},{"internalType":"bytes32","name":"priceConfigHash","type":"bytes32"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"","type":"uint256"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"strategyExecutions","outputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"},{"internalType":"uint256","name":"amountIn","type":"uint256"},{"internalType":"uint256","name":"amountOut","type":"uint256"},{"internalType":"enum SmartMoneyDCA.TriggerType","name":"triggerReason","type":"uint8"},{"internalType":"bytes32","name":"signalHash","type":"bytes32"},{"internalType":"uint256","name":"executedAt","type":"uint256"},{"internalType":"uint256","name":"gasUsed","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalExecutions","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalFeesCollected","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalStrategiesCreated","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalVolumeUSD","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"newOwner","type":"address"}],"name":"transferOwnership","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"uint256","name":"strategyId","type":"uint256"},{"internalType":"uint256","name":"additionalBudget","type":"uint256"}],"name":"updateStrategyBudget","outputs":[],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"},{"internalType":"uint256","name":"","type":"uint256"}],"name":"userStrategies","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"","type":"address"}],"name":"userTotalInvested","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+] as const;
+
+export const ERC20_ABI = [
+  {"inputs":[{"internalType":"address","name":"spender","type":"address"},{"internalType":"uint256","name":"allowance","type":"uint256"},{"internalType":"uint256","name":"needed","type":"uint256"}],"name":"ERC20InsufficientAllowance","type":"error"},
+  {"inputs":[{"internalType":"address","name":"sender","type":"address"},{"internalType":"uint256","name":"balance","type":"uint256"},{"internalType":"uint256","name":"needed","type":"uint256"}],"name":"ERC20InsufficientBalance","type":"error"},
+  {"inputs":[{"internalType":"address","name":"approver","type":"address"}],"name":"ERC20InvalidApprover","type":"error"},
+  {"inputs":[{"internalType":"address","name":"receiver","type":"address"}],"name":"ERC20InvalidReceiver","type":"error"},
+  {"inputs":[{"internalType":"address","name":"sender","type":"address"}],"name":"ERC20InvalidSender","type":"error"},
+  {"inputs":[{"internalType":"address","name":"spender","type":"address"}],"name":"ERC20InvalidSpender","type":"error"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"owner","type":"address"},{"indexed":true,"internalType":"address","name":"spender","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Approval","type":"event"},
+  {"anonymous":false,"inputs":[{"indexed":true,"internalType":"address","name":"from","type":"address"},{"indexed":true,"internalType":"address","name":"to","type":"address"},{"indexed":false,"internalType":"uint256","name":"value","type":"uint256"}],"name":"Transfer","type":"event"},
+  {"inputs":[{"internalType":"address","name":"owner","type":"address"},{"internalType":"address","name":"spender","type":"address"}],"name":"allowance","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"spender","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"}],"name":"approve","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"account","type":"address"}],"name":"balanceOf","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"decimals","outputs":[{"internalType":"uint8","name":"","type":"uint8"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"name","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"symbol","outputs":[{"internalType":"string","name":"","type":"string"}],"stateMutability":"view","type":"function"},
+  {"inputs":[],"name":"totalSupply","outputs":[{"internalType":"uint256","name":"","type":"uint256"}],"stateMutability":"view","type":"function"},
+  {"inputs":[{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"}],"name":"transfer","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"internalType":"address","name":"from","type":"address"},{"internalType":"address","name":"to","type":"address"},{"internalType":"uint256","name":"value","type":"uint256"}],"name":"transferFrom","outputs":[{"internalType":"bool","name":"","type":"bool"}],"stateMutability":"nonpayable","type":"function"},
+] as const;
+
+export const QUOTER_V2_ABI = [
+  {"inputs":[{"internalType":"bytes","name":"path","type":"bytes"},{"internalType":"uint256","name":"amountIn","type":"uint256"}],"name":"quoteExactInput","outputs":[{"internalType":"uint256","name":"amountOut","type":"uint256"},{"internalType":"uint160[]","name":"sqrtPriceX96AfterList","type":"uint160[]"},{"internalType":"uint32[]","name":"initializedTicksCrossedList","type":"uint32[]"},{"internalType":"uint256","name":"gasEstimate","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+  {"inputs":[{"components":[{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint256","name":"amountIn","type":"uint256"},{"internalType":"uint24","name":"fee","type":"uint24"},{"internalType":"uint160","name":"sqrtPriceLimitX96","type":"uint160"}],"internalType":"struct IQuoterV2.QuoteExactInputSingleParams","name":"params","type":"tuple"}],"name":"quoteExactInputSingle","outputs":[{"internalType":"uint256","name":"amountOut","type":"uint256"},{"internalType":"uint160","name":"sqrtPriceX96After","type":"uint160"},{"internalType":"uint32","name":"initializedTicksCrossed","type":"uint32"},{"internalType":"uint256","name":"gasEstimate","type":"uint256"}],"stateMutability":"nonpayable","type":"function"},
+] as const;
+
+export const SWAP_ROUTER_02_ABI = [
+  {"inputs":[{"components":[{"internalType":"bytes","name":"path","type":"bytes"},{"internalType":"address","name":"recipient","type":"address"},{"internalType":"uint256","name":"amountIn","type":"uint256"},{"internalType":"uint256","name":"amountOutMinimum","type":"uint256"}],"internalType":"struct ISwapRouter02.ExactInputParams","name":"params","type":"tuple"}],"name":"exactInput","outputs":[{"internalType":"uint256","name":"amountOut","type":"uint256"}],"stateMutability":"payable","type":"function"},
+  {"inputs":[{"components":[{"internalType":"address","name":"tokenIn","type":"address"},{"internalType":"address","name":"tokenOut","type":"address"},{"internalType":"uint24","name":"fee","type":"uint24"},{"internalType":"address","name":"recipient","type":"address"},{"internalType":"uint256","name":"amountIn","type":"uint256"},{"internalType":"uint256","name":"amountOutMinimum","type":"uint256"},{"internalType":"uint160","name":"sqrtPriceLimitX96","type":"uint160"}],"internalType":"struct ISwapRouter02.ExactInputSingleParams","name":"params","type":"tuple"}],"name":"exactInputSingle","outputs":[{"internalType":"uint256","name":"amountOut","type":"uint256"}],"stateMutability":"payable","type":"function"},
+] as const;
@@ -0,0 +1,55 @@
+// Copied from protocol/src/deployments.ts by protocol/scripts/generate.mjs.
+// Do not edit: change protocol/src, then run `pnpm generate` in protocol/.
+
+// Per-chain contract addresses. AutoStackDCAV2 and SmartMoneyDCA are deployed
+// per environment, so they're only listed once there's a canonical deployment;
+// consumers fall back to their own env configuration otherwise.
+
+export const CHAIN_IDS = {
+  sepolia: 11155111,
+  baseSepolia: 84532,
+  base: 8453,
+} as const;
+
+export type ChainId = (typeof CHAIN_IDS)[keyof typeof CHAIN_IDS];
+
+export interface Deployment {
+  autoStackDca?: `0x${string}`;
+  autoStackDcaV2?: `0x${string}`;
+  smartMoneyDca?: `0x${string}`;
+  // Uniswap V3 periphery
+  swapRouter02: `0x${string}`;
+  quoterV2: `0x${string}`;
+  // Batches route quotes into one eth_call
+  multicall3: `0x${string}`;
+}
+
+// Multicall3 is deployed at the same address on every chain
+const MULTICALL3 = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export const DEPLOYMENTS: Record<ChainId, Deployment> = {
+  [CHAIN_IDS.sepolia]: {
+    swapRouter02: '0x3bFA4769FB09eefC5a80d6E87c3B9C650f7Ae48E',
+    quoterV2: '0xEd1f6473345F45b75F8179591dd5bA1888cf2FB3',
+    multicall3: MULTICALL3,
+  },
+  [CHAIN_IDS.baseSepolia]: {
+    autoStackDca: '0x29846754737248d7d81998762B32471967B0c862',
+    swapRouter02: '0x94cC0AaC535CCDB3C01d6787D6413C739ae12bc4',
+    quoterV2: '0xC5290058841028F1614F3A6F0F5816cAd0df5E27',
+    multicall3: MULTICALL3,
+  },
+  [CHAIN_IDS.base]: {
+    // AutoStackDCAV2 hardcodes these as SWAP_ROUTER and QUOTER
+    swapRouter02: '0x2626664c2603336E57B271c5C0b26F421741e481',
+    quoterV2: '0x3d4e44Eb1374240CE5F1B871ab261CD16335B76a',
+    multicall3: MULTICALL3,
+  },
+};
+
+/**
+ * Addresses for a chain, or undefined if the protocol isn't deployed there
+ */
+export function getDeployment(chainId: number): Deployment | undefined {
+  return DEPLOYMENTS[chainId as ChainId];
+}
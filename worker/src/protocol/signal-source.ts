@@ -0,0 +1,192 @@
+// Copied from protocol/src/signal-source.ts by protocol/scripts/generate.mjs.
+// Do not edit: change protocol/src, then run `pnpm generate` in protocol/.
+
+// Smart money signal sources. The worker and the frontend's /api/smart-money
+// route both read whale activity through SignalSource: each supplies its own
+// Nansen source (paid per request with x402), and both share the replay source
+// here, which serves recorded trades from fixtures/nansen-dex-trades.json so
+// either app runs without a funded Solana wallet or network access.
+//
+// Selected with SIGNAL_SOURCE=nansen|replay (default: nansen).
+
+import { readFile } from 'node:fs/promises';
+
+// ============ Types ============
+
+// One row of Nansen's /api/v1/smart-money/dex-trades response
+export interface NansenDexTrade {
+  chain: string;
+  block_timestamp: string;
+  transaction_hash: string;
+  trader_address: string;
+  trader_address_label: string;
+  token_bought_address: string;
+  token_sold_address: string;
+  token_bought_amount: number;
+  token_sold_amount: number;
+  token_bought_symbol: string;
+  token_sold_symbol: string;
+  trade_value_usd?: number;
+}
+
+export interface TradeQuery {
+  chain: string;
+  limit: number;
+  minAmountUsd: number;
+  // Only trades buying this token; every token when omitted
+  tokenAddress?: string;
+  // Only trades this recent; everything the source returns when omitted
+  timeRange?: '1h' | '24h';
+}
+
+export interface TokenFlowQuery {
+  chain: string;
+  tokenAddress: string;
+}
+
+export interface TokenFlows {
+  netFlow: number;
+  buyVolume: number;
+  sellVolume: number;
+  uniqueBuyers: number;
+  uniqueSellers: number;
+}
+
+// Nansen's token-flow response, also the shape of a fixture's tokenFlows entry
+export interface NansenTokenFlows {
+  net_flow_24h: number;
+  buy_volume_24h: number;
+  sell_volume_24h: number;
+  unique_buyers: number;
+  unique_sellers: number;
+}
+
+export type SignalSourceKind = 'nansen' | 'replay';
+
+export interface SignalSource {
+  readonly name: SignalSourceKind;
+  // Cost per request in USD (x402 micropayment), 0 for free sources
+  readonly costPerRequestUsd: number;
+  // Null when ready, otherwise why the source can't serve requests
+  configurationError(): string | null;
+  fetchTrades(query: TradeQuery): Promise<NansenDexTrade[]>;
+  fetchTokenFlows(query: TokenFlowQuery): Promise<TokenFlows>;
+}
+
+// Thrown when the upstream API answers with a non-2xx status
+export class SignalSourceError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly details?: string
+  ) {
+    super(message);
+    this.name = 'SignalSourceError';
+  }
+}
+
+export const TIME_RANGE_MS = {
+  '1h': 60 * 60 * 1000,
+  '24h': 24 * 60 * 60 * 1000,
+} as const;
+
+export function parseSignalSourceKind(value: string | undefined): SignalSourceKind {
+  const kind = (value || 'nansen').toLowerCase();
+  if (kind !== 'nansen' && kind !== 'replay') {
+    throw new Error(`Unknown SIGNAL_SOURCE "${value}". Use "nansen" or "replay".`);
+  }
+  return kind;
+}
+
+/**
+ * A trade's USD value; Nansen omits it when it couldn't price the trade
+ */
+export function tradeValueUsd(trade: NansenDexTrade): number {
+  return trade.trade_value_usd ?? 0;
+}
+
+export function toTokenFlows(flows: NansenTokenFlows | undefined): TokenFlows {
+  return {
+    netFlow: flows?.net_flow_24h ?? 0,
+    buyVolume: flows?.buy_volume_24h ?? 0,
+    sellVolume: flows?.sell_volume_24h ?? 0,
+    uniqueBuyers: flows?.unique_buyers ?? 0,
+    uniqueSellers: flows?.unique_sellers ?? 0,
+  };
+}
+
+// ============ Replay Source ============
+
+// Fixture format: recorded dex-trades rows plus token-flow responses keyed by
+// lowercase token address
+interface ReplayFixture {
+  trades: NansenDexTrade[];
+  tokenFlows?: Record<string, NansenTokenFlows>;
+}
+
+export interface ReplaySourceOptions {
+  // Resolved against the working directory
+  fixturePath: string;
+  // Shift recorded timestamps so the newest trade happened "now". Without this,
+  // recorded trades fall outside every signal window.
+  rebaseTimestamps: boolean;
+}
+
+export class ReplaySource implements SignalSource {
+  readonly name = 'replay' as const;
+  readonly costPerRequestUsd = 0;
+
+  private fixture: Promise<ReplayFixture> | null = null;
+
+  constructor(private readonly options: ReplaySourceOptions) {}
+
+  configurationError(): string | null {
+    return null;
+  }
+
+  private load(): Promise<ReplayFixture> {
+    if (!this.fixture) {
+      const { fixturePath } = this.options;
+      this.fixture = readFile(fixturePath, 'utf8').then((raw) => {
+        const fixture = JSON.parse(raw) as ReplayFixture;
+        if (!Array.isArray(fixture.trades)) {
+          throw new Error(`Replay fixture ${fixturePath} has no "trades" array`);
+        }
+        console.log(`[Replay] Loaded ${fixture.trades.length} recorded trades from ${fixturePath}`);
+        return fixture;
+      });
+      // Allow a fixed file to be picked up on the next request
+      this.fixture.catch(() => {
+        this.fixture = null;
+      });
+    }
+    return this.fixture;
+  }
+
+  async fetchTrades(query: TradeQuery): Promise<NansenDexTrade[]> {
+    const { trades } = await this.load();
+    if (trades.length === 0) return [];
+
+    const newest = Math.max(...trades.map((t) => new Date(t.block_timestamp).getTime()));
+    const offsetMs = this.options.rebaseTimestamps ? Date.now() - newest : 0;
+    const since = query.timeRange ? Date.now() - TIME_RANGE_MS[query.timeRange] : -Infinity;
+    const token = query.tokenAddress?.toLowerCase();
+
+    return trades
+      .filter((trade) => trade.chain === query.chain)
+      .filter((trade) => !token || trade.token_bought_address.toLowerCase() === token)
+      .filter((trade) => tradeValueUsd(trade) >= query.minAmountUsd)
+      .map((trade) => ({
+        ...trade,
+        block_timestamp: new Date(new Date(trade.block_timestamp).getTime() + offsetMs).toISOString(),
+      }))
+      .filter((trade) => new Date(trade.block_timestamp).getTime() >= since)
+      .sort((a, b) => tradeValueUsd(b) - tradeValueUsd(a))
+      .slice(0, query.limit);
+  }
+
+  async fetchTokenFlows(query: TokenFlowQuery): Promise<TokenFlows> {
+    const { tokenFlows } = await this.load();
+    return toTokenFlows(tokenFlows?.[query.tokenAddress.toLowerCase()]);
+  }
+}
@@ -0,0 +1,230 @@
+// Copied from protocol/src/spend-governor.ts by protocol/scripts/generate.mjs.
+// Do not edit: change protocol/src, then run `pnpm generate` in protocol/.
+
+// x402 spend governor. Caps what a process spends on paid Nansen requests:
+// every x402 payment is written to a ledger (endpoint, amount, Solana
+// signature) persisted as JSON, and new requests are checked against rolling
+// hourly/daily USDC budgets and per-endpoint hourly request quotas. Near the
+// budget it reports a degraded mode so callers can fetch less often.
+//
+// The ledger file is re-read and merged before every check and write, so the
+// worker and the frontend's API route share one budget when they point at the
+// same file. By default each uses data/x402-spend.json under its own working
+// directory, i.e. separate ledgers and separate budgets.
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+// ============ Types ============
+
+export interface SpendBudget {
+  hourlyBudgetUsd: number;
+  dailyBudgetUsd: number;
+  // Max paid requests per endpoint in any rolling hour (unlisted = unlimited)
+  endpointQuotas: Record<string, number>;
+  // Fraction of either budget at which to start degrading (e.g. 0.8)
+  degradeAtRatio: number;
+}
+
+export type BudgetMode = 'normal' | 'degraded' | 'exhausted';
+
+export interface BudgetStatus {
+  mode: BudgetMode;
+  spentLastHourUsd: number;
+  spentLastDayUsd: number;
+  hourlyBudgetUsd: number;
+  dailyBudgetUsd: number;
+  // Unix ms of the most recent payment, null if none in the last day
+  lastPaymentAt: number | null;
+}
+
+export interface PaymentRecord {
+  endpoint: string;
+  amountUsd: number;
+  // Solana transaction signature of the x402 payment
+  signature: string;
+  paidAt: number;
+}
+
+interface SpendLedgerFile {
+  version: 1;
+  payments: PaymentRecord[];
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+function paymentKey(payment: PaymentRecord): string {
+  return `${payment.signature}:${payment.paidAt}`;
+}
+
+// Thrown before a request that would exceed a budget or quota
+export class BudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public readonly retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Parse "endpoint=count,endpoint=count" (X402_ENDPOINT_QUOTAS) into a quota map
+ */
+export function parseEndpointQuotas(value: string | undefined): Record<string, number> {
+  const quotas: Record<string, number> = {};
+  for (const entry of (value ?? '').split(',')) {
+    const [endpoint, count] = entry.split('=').map((part) => part.trim());
+    if (!endpoint || !count) continue;
+
+    const limit = parseInt(count);
+    if (Number.isNaN(limit)) {
+      throw new Error(`Invalid X402_ENDPOINT_QUOTAS entry "${entry}"`);
+    }
+    quotas[endpoint] = limit;
+  }
+  return quotas;
+}
+
+// ============ Governor ============
+
+export class SpendGovernor {
+  private payments: PaymentRecord[] = [];
+
+  constructor(
+    private readonly ledgerPath: string,
+    private readonly budget: SpendBudget
+  ) {
+    this.sync();
+    console.log(`[x402 Budget] Loaded ${this.payments.length} x402 payments from the last 24h`);
+  }
+
+  status(now: number = Date.now()): BudgetStatus {
+    this.sync();
+    const spentLastHourUsd = this.spentSince(now - HOUR_MS);
+    const spentLastDayUsd = this.spentSince(now - DAY_MS);
+
+    const utilization = Math.max(
+      spentLastHourUsd / this.budget.hourlyBudgetUsd,
+      spentLastDayUsd / this.budget.dailyBudgetUsd
+    );
+
+    let mode: BudgetMode = 'normal';
+    if (utilization >= 1) {
+      mode = 'exhausted';
+    } else if (utilization >= this.budget.degradeAtRatio) {
+      mode = 'degraded';
+    }
+
+    return {
+      mode,
+      spentLastHourUsd,
+      spentLastDayUsd,
+      hourlyBudgetUsd: this.budget.hourlyBudgetUsd,
+      dailyBudgetUsd: this.budget.dailyBudgetUsd,
+      lastPaymentAt: this.payments.length > 0 ? Math.max(...this.payments.map((p) => p.paidAt)) : null,
+    };
+  }
+
+  /**
+   * Throw BudgetExceededError if paying `costUsd` for `endpoint` now would
+   * exceed the hourly or daily budget or the endpoint's hourly quota
+   */
+  assertCanSpend(endpoint: string, costUsd: number, now: number = Date.now()): void {
+    this.sync();
+    const hourAgo = now - HOUR_MS;
+    const dayAgo = now - DAY_MS;
+
+    if (this.spentSince(hourAgo) + costUsd > this.budget.hourlyBudgetUsd) {
+      throw new BudgetExceededError(
+        `x402 hourly budget of $${this.budget.hourlyBudgetUsd} reached`,
+        this.retryAfter(this.payments.filter((p) => p.paidAt > hourAgo), HOUR_MS, now)
+      );
+    }
+
+    if (this.spentSince(dayAgo) + costUsd > this.budget.dailyBudgetUsd) {
+      throw new BudgetExceededError(
+        `x402 daily budget of $${this.budget.dailyBudgetUsd} reached`,
+        this.retryAfter(this.payments.filter((p) => p.paidAt > dayAgo), DAY_MS, now)
+      );
+    }
+
+    const quota = this.budget.endpointQuotas[endpoint];
+    if (quota !== undefined) {
+      const recent = this.payments.filter((p) => p.endpoint === endpoint && p.paidAt > hourAgo);
+      if (recent.length >= quota) {
+        throw new BudgetExceededError(
+          `x402 quota of ${quota} requests/hour reached for ${endpoint}`,
+          this.retryAfter(recent, HOUR_MS, now)
+        );
+      }
+    }
+  }
+
+  /**
+   * Record a completed x402 payment
+   */
+  recordPayment(endpoint: string, amountUsd: number, signature: string): void {
+    this.sync();
+    this.payments.push({ endpoint, amountUsd, signature, paidAt: Date.now() });
+    this.persist();
+  }
+
+  private spentSince(since: number): number {
+    const total = this.payments
+      .filter((p) => p.paidAt > since)
+      .reduce((sum, p) => sum + p.amountUsd, 0);
+    // Round to USDC's 6 decimals so float drift doesn't skew threshold checks
+    return Math.round(total * 1e6) / 1e6;
+  }
+
+  /**
+   * Seconds until the oldest payment in a window ages out of it
+   */
+  private retryAfter(windowPayments: PaymentRecord[], windowMs: number, now: number): number {
+    if (windowPayments.length === 0) return 0;
+    const oldest = Math.min(...windowPayments.map((p) => p.paidAt));
+    return Math.max(1, Math.ceil((oldest + windowMs - now) / 1000));
+  }
+
+  /**
+   * Merge the ledger file into memory, keeping only the last day (all any
+   * budget looks at). Another process may have paid since the last read.
+   */
+  private sync(): void {
+    const cutoff = Date.now() - DAY_MS;
+    const merged = new Map<string, PaymentRecord>();
+    for (const payment of [...this.read(), ...this.payments]) {
+      if (payment.paidAt > cutoff) merged.set(paymentKey(payment), payment);
+    }
+    this.payments = [...merged.values()];
+  }
+
+  private read(): PaymentRecord[] {
+    if (!existsSync(this.ledgerPath)) return [];
+
+    try {
+      const file = JSON.parse(readFileSync(this.ledgerPath, 'utf8')) as SpendLedgerFile;
+      return file.payments ?? [];
+    } catch (error) {
+      // Resetting to empty would silently re-open a spent budget
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(`Failed to read x402 spend ledger ${this.ledgerPath}: ${reason}`);
+    }
+  }
+
+  private persist(): void {
+    const file: SpendLedgerFile = {
+      version: 1,
+      payments: this.payments,
+    };
+
+    // Write to a temp file and rename so a crash never leaves a truncated
+    // ledger; the temp name is per process since others may share the ledger
+    mkdirSync(dirname(this.ledgerPath), { recursive: true });
+    const tmpPath = `${this.ledgerPath}.${process.pid}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(file, null, 2));
+    renameSync(tmpPath, this.ledgerPath);
+  }
+}
@@ -0,0 +1,138 @@
+/**
+ * Signal Ledger
+ *
+ * Durable record of which smart money signals have already been submitted to
+ * which strategy. Entries are keyed by strategyId + Nansen transaction_hash and
+ * persisted to a JSON file, so neither the next poll nor a restart replays a
+ * signal the worker has already paid gas for.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+
+// ============ Types ============
+
+export type SignalOutcome = 'pending' | 'succeeded' | 'failed';
+
+export interface SignalLedgerEntry {
+  strategyId: string;
+  signalTxHash: string;
+  outcome: SignalOutcome;
+  executionTxHash?: string;
+  error?: string;
+  submittedAt: number;
+  updatedAt: number;
+}
+
+interface SignalLedgerFile {
+  version: 1;
+  entries: SignalLedgerEntry[];
+}
+
+// Entries older than this are dropped on load; Nansen trades are only
+// considered for 30 minutes, so a week is far beyond any replay window.
+const DEFAULT_RETENTION_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ============ Ledger ============
+
+export class SignalLedger {
+  private readonly entries = new Map<string, SignalLedgerEntry>();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly retentionMs: number = DEFAULT_RETENTION_MS
+  ) {
+    this.load();
+  }
+
+  private static key(strategyId: string, signalTxHash: string): string {
+    return `${strategyId}:${signalTxHash.toLowerCase()}`;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Whether this signal was already submitted for the strategy (in any outcome)
+   */
+  has(strategyId: string, signalTxHash: string): boolean {
+    return this.entries.has(SignalLedger.key(strategyId, signalTxHash));
+  }
+
+  get(strategyId: string, signalTxHash: string): SignalLedgerEntry | undefined {
+    return this.entries.get(SignalLedger.key(strategyId, signalTxHash));
+  }
+
+  /**
+   * Record a signal as in-flight. Called right before the transaction is sent,
+   * so a crash between send and receipt still prevents a replay.
+   */
+  markSubmitted(strategyId: string, signalTxHash: string): void {
+    const now = Date.now();
+    this.entries.set(SignalLedger.key(strategyId, signalTxHash), {
+      strategyId,
+      signalTxHash,
+      outcome: 'pending',
+      submittedAt: now,
+      updatedAt: now,
+    });
+    this.persist();
+  }
+
+  /**
+   * Record the final outcome of a submitted signal
+   */
+  recordOutcome(
+    strategyId: string,
+    signalTxHash: string,
+    result: { success: boolean; txHash?: string; error?: string }
+  ): void {
+    const key = SignalLedger.key(strategyId, signalTxHash);
+    const now = Date.now();
+    const existing = this.entries.get(key);
+
+    this.entries.set(key, {
+      strategyId,
+      signalTxHash,
+      submittedAt: existing?.submittedAt ?? now,
+      outcome: result.success ? 'succeeded' : 'failed',
+      executionTxHash: result.txHash ?? existing?.executionTxHash,
+      error: result.error,
+      updatedAt: now,
+    });
+    this.persist();
+  }
+
+  private load(): void {
+    if (!existsSync(this.filePath)) return;
+
+    try {
+      const file = JSON.parse(readFileSync(this.filePath, 'utf8')) as SignalLedgerFile;
+      const cutoff = Date.now() - this.retentionMs;
+
+      for (const entry of file.entries ?? []) {
+        if (entry.updatedAt < cutoff) continue;
+        this.entries.set(SignalLedger.key(entry.strategyId, entry.signalTxHash), entry);
+      }
+
+      console.log(`[Ledger] Loaded ${this.entries.size} submitted signals from ${this.filePath}`);
+    } catch (error: any) {
+      // A corrupt ledger must not silently reset to empty, or every signal gets replayed
+      throw new Error(`Failed to read signal ledger ${this.filePath}: ${error.message}`);
+    }
+  }
+
+  private persist(): void {
+    const file: SignalLedgerFile = {
+      version: 1,
+      entries: [...this.entries.values()],
+    };
+
+    // Write to a temp file and rename so a crash never leaves a truncated ledger
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(file, null, 2));
+    renameSync(tmpPath, this.filePath);
+  }
+}
@@ -0,0 +1,41 @@
+/**
+ * Signal Sources
+ *
+ * Where the worker gets smart money data from. The production source is Nansen
+ * via the Corbits x402 proxy; the replay source (shared with the frontend, see
+ * protocol/signal-source.ts) serves recorded NansenDexTrade fixtures so the
+ * worker can run without a funded Solana wallet or network.
+ *
+ * Selected with SIGNAL_SOURCE=nansen|replay (default: nansen).
+ */
+
+import { ReplaySource, type ReplaySourceOptions, type SignalSource, type SignalSourceKind } from './protocol/signal-source.js';
+import { NansenX402Source, type NansenX402SourceOptions } from './sources/nansen-x402-source.js';
+
+export {
+  SignalSourceError,
+  parseSignalSourceKind,
+  type NansenDexTrade,
+  type SignalSource,
+  type SignalSourceKind,
+  type TokenFlowQuery,
+  type TokenFlows,
+  type TradeQuery,
+} from './protocol/signal-source.js';
+
+// ============ Factory ============
+
+export interface SignalSourceConfig {
+  kind: SignalSourceKind;
+  nansen: NansenX402SourceOptions;
+  replay: ReplaySourceOptions;
+}
+
+export function createSignalSource(config: SignalSourceConfig): SignalSource {
+  switch (config.kind) {
+    case 'replay':
+      return new ReplaySource(config.replay);
+    case 'nansen':
+      return new NansenX402Source(config.nansen);
+  }
+}
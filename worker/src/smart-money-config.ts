@@ -0,0 +1,117 @@
+/**
+ * Per-Strategy Smart Money Config
+ *
+ * Loads each strategy's on-chain SmartMoneyConfig (the thresholds users pick in
+ * the create flow) and selects which Nansen trades satisfy them. Configs are
+ * cached per block so one poll reads each strategy at most once.
+ */
+
+import { tradeValueUsd, type NansenDexTrade } from './protocol/signal-source.js';
+
+// ============ Types ============
+
+// Mirrors AutoStackDCAV2.SmartMoneyConfig
+export interface StrategySmartMoneyConfig {
+  minWhaleAmount: bigint; // USD, 6 decimals
+  minLabelScore: number; // 0-100
+  signalThreshold: number; // signals needed to trigger
+  signalWindow: bigint; // seconds
+  enabled: boolean;
+}
+
+export type SmartMoneyConfigLoader = (
+  strategyId: string,
+  blockNumber: bigint
+) => Promise<StrategySmartMoneyConfig>;
+
+// ============ Config Cache ============
+
+export class SmartMoneyConfigCache {
+  private blockNumber: bigint | null = null;
+  private readonly configs = new Map<string, Promise<StrategySmartMoneyConfig>>();
+
+  constructor(private readonly load: SmartMoneyConfigLoader) {}
+
+  /**
+   * Get a strategy's config as of `blockNumber`. Moving to a new block drops
+   * every cached entry, so config updates are picked up on the next poll.
+   */
+  get(strategyId: string, blockNumber: bigint): Promise<StrategySmartMoneyConfig> {
+    if (this.blockNumber !== blockNumber) {
+      this.blockNumber = blockNumber;
+      this.configs.clear();
+    }
+
+    let config = this.configs.get(strategyId);
+    if (!config) {
+      config = this.load(strategyId, blockNumber);
+      // Don't cache failures; the next caller retries the read
+      config.catch(() => this.configs.delete(strategyId));
+      this.configs.set(strategyId, config);
+    }
+
+    return config;
+  }
+}
+
+// ============ Signal Selection ============
+
+// Score (0-100) submitted on-chain for a Nansen trader label. Matched as a
+// substring, so "30D Smart Trader" scores as "Smart Trader"; labels not listed
+// aren't smart money.
+export const LABEL_SCORES: readonly (readonly [label: string, score: number])[] = [
+  ['Fund', 90],
+  ['Institutional', 85],
+  ['Smart Trader', 80],
+  ['Smart Money', 80],
+  ['Whale', 70],
+  ['Market Maker', 60],
+];
+
+/**
+ * Score a trade by its trader's Nansen label, 0 if it isn't a smart money label
+ */
+export function labelScore(trade: NansenDexTrade): number {
+  const label = (trade.trader_address_label ?? '').toLowerCase();
+  return Math.max(0, ...LABEL_SCORES.filter(([name]) => label.includes(name.toLowerCase())).map(([, score]) => score));
+}
+
+/**
+ * Convert a Nansen USD amount to the contract's 6-decimal representation
+ */
+export function usdToUnits(amountUsd: number): bigint {
+  return BigInt(Math.floor(amountUsd * 1e6));
+}
+
+/**
+ * Check a trade against one strategy's thresholds: whale size, label score
+ * and recency within the strategy's signal window
+ */
+export function tradeMatchesConfig(
+  trade: NansenDexTrade,
+  config: StrategySmartMoneyConfig,
+  nowMs: number = Date.now()
+): boolean {
+  if (!config.enabled) return false;
+
+  const meetsMinAmount = usdToUnits(tradeValueUsd(trade)) >= config.minWhaleAmount;
+  const meetsMinScore = labelScore(trade) >= config.minLabelScore;
+
+  const tradeTime = new Date(trade.block_timestamp).getTime();
+  const isWithinWindow = nowMs - tradeTime < Number(config.signalWindow) * 1000;
+
+  return meetsMinAmount && meetsMinScore && isWithinWindow;
+}
+
+/**
+ * Select the trades that satisfy a strategy's config, largest first
+ */
+export function selectTradesForStrategy(
+  trades: NansenDexTrade[],
+  config: StrategySmartMoneyConfig,
+  nowMs: number = Date.now()
+): NansenDexTrade[] {
+  return trades
+    .filter((trade) => tradeMatchesConfig(trade, config, nowMs))
+    .sort((a, b) => tradeValueUsd(b) - tradeValueUsd(a));
+}
@@ -3,7 +3,10 @@
  *
  * Production-level worker that monitors smart money activity via Nansen API
  * using x402 micropayments (~$0.01 USDC per request via Solana) and triggers DCA
- * executions when whale wallets make significant buys.
+ * executions when whale wallets make significant buys. It also runs the
+ * time-based path (executeDCA) for basic and hybrid strategies once their
+ * frequency has elapsed, and fills SmartMoneyDCA limit orders when the Uniswap
+ * price reaches their target (executeLimitOrder).
  *
  * x402 Payment Flow:
  * 1. Request Nansen API via Corbits proxy
@@ -12,14 +15,39 @@
  * 4. Retry and receive data
  */
 
-import { createPublicClient, createWalletClient, http, parseAbi, formatUnits, parseUnits, encodeFunctionData } from 'viem';
+import { createPublicClient, http, formatUnits, parseUnits, encodeFunctionData } from 'viem';
 import { privateKeyToAccount } from 'viem/accounts';
 import { base } from 'viem/chains';
 import { GraphQLClient, gql } from 'graphql-request';
-import { wrap } from '@faremeter/fetch';
-import { createPaymentHandler } from '@faremeter/payment-solana/exact';
-import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { Connection, Keypair } from '@solana/web3.js';
 import 'dotenv/config';
+import { startControlServer, type Readiness } from './control-server.js';
+import { metrics } from './metrics.js';
+import { EXECUTION_ERRORS_ABI, classifyRevert, simulate, type ClassifiedRevert } from './preflight.js';
+import { SignalLedger } from './signal-ledger.js';
+import { BudgetExceededError, SpendGovernor, parseEndpointQuotas } from './protocol/spend-governor.js';
+import { TxPipeline } from './tx-pipeline.js';
+import { createSignalSource, parseSignalSourceKind, type NansenDexTrade } from './signal-source.js';
+import { tradeValueUsd } from './protocol/signal-source.js';
+import { USDC_MINT } from './sources/nansen-x402-source.js';
+import {
+  SmartMoneyConfigCache,
+  labelScore,
+  selectTradesForStrategy,
+  usdToUnits,
+  type StrategySmartMoneyConfig,
+} from './smart-money-config.js';
+import {
+  PRICE_TRIGGERED_STRATEGY_TYPES,
+  PriceTriggerGate,
+  priceFromQuote,
+  type StrategyPriceConfig,
+} from './price-watcher.js';
+import { EnvioClient } from './generated/envio.js';
+import { AUTOSTACK_DCA_V2_ABI, ERC20_ABI, SMART_MONEY_DCA_ABI } from './protocol/abis.js';
+import { getDeployment } from './protocol/deployments.js';
+import { encodeSwapCalldata, findBestRoute, minimumAmountOut, type Route } from './protocol/routing.js';
+import { getToken } from './protocol/tokens.js';
 
 // ============ Configuration ============
 
@@ -33,6 +61,11 @@ const CONFIG = {
   envioGraphqlUrl: process.env.ENVIO_GRAPHQL_URL || 'http://localhost:8080/v1/graphql',
   hasuraSecret: process.env.HASURA_ADMIN_SECRET || 'testing',
 
+  // Smart money data source: 'nansen' (x402, paid) or 'replay' (recorded fixtures)
+  signalSource: parseSignalSourceKind(process.env.SIGNAL_SOURCE),
+  replayFixturePath: process.env.SIGNAL_REPLAY_FILE || './fixtures/nansen-dex-trades.json',
+  replayRebaseTimestamps: process.env.SIGNAL_REPLAY_REBASE !== 'false',
+
   // x402 / Nansen Configuration
   corbitsProxyUrl: process.env.CORBITS_PROXY_URL || 'https://nansen.api.corbits.dev',
   x402Enabled: process.env.X402_ENABLED === 'true',
@@ -41,31 +74,64 @@ const CONFIG = {
   solanaRpcUrl: process.env.SOLANA_RPC_URL || 'https://api.mainnet-beta.solana.com',
   solanaPrivateKey: process.env.SOLANA_PRIVATE_KEY,
 
+  // x402 spend governor: rolling USDC budgets, hourly per-endpoint request quotas
+  spendLedgerPath: process.env.X402_SPEND_LEDGER_PATH || './data/x402-spend.json',
+  x402HourlyBudgetUsd: parseFloat(process.env.X402_HOURLY_BUDGET_USD || '0.5'),
+  x402DailyBudgetUsd: parseFloat(process.env.X402_DAILY_BUDGET_USD || '5'),
+  x402EndpointQuotas: parseEndpointQuotas(process.env.X402_ENDPOINT_QUOTAS),
+  x402DegradeAt: parseFloat(process.env.X402_DEGRADE_AT || '0.8'),
+  // When degraded: fetch signals every N polls, for the N most-followed tokens
+  degradedPollMultiplier: 4,
+  degradedMaxTokens: 3,
+
+  // Submitted signal ledger (prevents replaying the same trade across polls/restarts)
+  signalLedgerPath: process.env.SIGNAL_LEDGER_PATH || './data/signal-ledger.json',
+
+  // Transaction pipeline (local nonce manager, parallel submissions, fee bumps)
+  pendingTxPath: process.env.PENDING_TX_PATH || './data/pending-txs.json',
+  maxInFlightTxs: parseInt(process.env.MAX_IN_FLIGHT_TXS || '8'),
+  txStuckAfterMs: parseInt(process.env.TX_STUCK_AFTER_MS || '30000'),
+  feeBumpPercent: 15, // nodes require >= 10% to accept a replacement
+  maxFeeBumps: 5,
+
+  // Control server (/healthz, /readyz, /metrics)
+  httpPort: parseInt(process.env.WORKER_HTTP_PORT || '9464'),
+
+  // SmartMoneyDCA limit orders; the price watcher is off without an address
+  smartMoneyDcaAddress: (process.env.SMART_MONEY_DCA_ADDRESS || getDeployment(base.id)?.smartMoneyDca) as
+    | `0x${string}`
+    | undefined,
+  // A filled limit order re-arms once the price is this far back past its target
+  priceRearmBps: BigInt(process.env.PRICE_TRIGGER_REARM_BPS || '100'),
+  // Fired limit orders waiting to re-arm (survives restarts)
+  priceGatePath: process.env.PRICE_GATE_PATH || './data/price-gate.json',
+
   // Smart Money Settings
   pollInterval: 30, // seconds
-  minWhaleAmountUsd: 10000, // $10k minimum transaction
-  smartMoneyLabels: ['Smart Money', 'Fund', 'Whale', 'Institutional', 'Market Maker'],
   maxRetries: 3,
   retryDelayMs: 1000,
 };
 
-// Solana USDC mint address
-const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
-
 // ============ Contract ABI ============
 
-const SMART_MONEY_DCA_ABI = parseAbi([
-  'function executeWithSmartMoneySignal(uint256 strategyId, tuple(address wallet, uint256 amountUsd, uint8 labelScore, bytes32 txHash, uint256 timestamp) signal) external',
-  'function executeDCA(uint256 strategyId) external',
-  'function canExecuteTimeBased(uint256 strategyId) external view returns (bool)',
-  'function canExecuteSmartMoney(uint256 strategyId) external view returns (bool)',
-  'function getStrategy(uint256 strategyId) external view returns (tuple(address user, address tokenIn, address tokenOut, uint24 poolFee, uint256 amountPerExecution, uint256 frequency, uint256 executionsLeft, uint256 lastExecution, uint256 totalAmountIn, uint256 totalAmountOut, uint8 strategyType, tuple(uint256 minWhaleAmount, uint8 minLabelScore, uint8 signalThreshold, uint256 signalWindow, bool enabled) smartMoneyConfig, bool active))',
-  'function getSmartMoneyConfig(uint256 strategyId) external view returns (tuple(uint256 minWhaleAmount, uint8 minLabelScore, uint8 signalThreshold, uint256 signalWindow, bool enabled))',
-  'function getSignalAccumulator(uint256 strategyId) external view returns (uint8 signalCount, uint256 windowStart, uint256 processedCount)',
-]);
+// The worker executes against AutoStackDCAV2, whose ABI is generated from the
+// Foundry build (src/protocol/abis.ts).
+// Simulations decode against this so OpenZeppelin custom errors come back named
+const SIMULATION_ABI = [...AUTOSTACK_DCA_V2_ABI, ...EXECUTION_ERRORS_ABI];
+const LIMIT_ORDER_SIMULATION_ABI = [...SMART_MONEY_DCA_ABI, ...EXECUTION_ERRORS_ABI];
 
 // ============ Types ============
 
+interface ExecutionResult {
+  success: boolean;
+  txHash?: string;
+  error?: string;
+  // Set when the execution was (or would have been) reverted
+  revert?: ClassifiedRevert;
+  // Not sent: the pre-flight simulation reverted
+  skipped?: boolean;
+}
+
 interface SmartMoneySignal {
   wallet: `0x${string}`;
   amountUsd: bigint;
@@ -74,42 +140,6 @@ interface SmartMoneySignal {
   timestamp: bigint;
 }
 
-interface NansenDexTrade {
-  wallet_address: string;
-  token_bought_address: string;
-  token_sold_address: string;
-  amount_bought: string;
-  amount_sold: string;
-  amount_usd: number;
-  block_timestamp: string;
-  transaction_hash: string;
-  labels: string[];
-  smart_money_score: number;
-}
-
-interface NansenSmartMoneyResponse {
-  data: NansenDexTrade[];
-  pagination: {
-    total: number;
-    page: number;
-    limit: number;
-  };
-}
-
-interface Strategy {
-  id: string;
-  strategyId: string;
-  user: string;
-  tokenIn: string;
-  tokenOut: string;
-  amountPerExecution: string;
-  frequency: string;
-  totalExecutions: string;
-  executionsCompleted: string;
-  status: string;
-  createdAt: string;
-}
-
 // ============ EVM Clients ============
 
 const account = privateKeyToAccount(CONFIG.privateKey as `0x${string}`);
@@ -119,269 +149,358 @@ const publicClient = createPublicClient({
   transport: http(CONFIG.rpcUrl),
 });
 
-const walletClient = createWalletClient({
-  account,
-  chain: base,
-  transport: http(CONFIG.rpcUrl),
-});
-
 const graphqlClient = new GraphQLClient(CONFIG.envioGraphqlUrl, {
   headers: {
     'x-hasura-admin-secret': CONFIG.hasuraSecret,
   },
 });
 
-// ============ x402 Payment Integration via Faremeter ============
+const envio = new EnvioClient((document) => graphqlClient.request(document));
 
-let x402Fetch: typeof fetch | null = null;
+const signalLedger = new SignalLedger(CONFIG.signalLedgerPath);
 
-/**
- * Initialize x402 payment-enabled fetch client using Faremeter SDK
- * Handles automatic Solana USDC payments for Nansen API access
- */
-async function initializeX402Client(): Promise<typeof fetch> {
-  if (x402Fetch) return x402Fetch;
+// Liveness/readiness state reported by the control server
+const workerState = {
+  initialized: false,
+  indexerReachable: false,
+  lastPollAt: 0,
+};
 
-  if (!CONFIG.solanaPrivateKey) {
-    throw new Error('SOLANA_PRIVATE_KEY not set. Required for x402 payments.');
-  }
+const txPipeline = new TxPipeline({
+  account,
+  chain: base,
+  rpcUrl: CONFIG.rpcUrl,
+  pendingTxPath: CONFIG.pendingTxPath,
+  maxInFlight: CONFIG.maxInFlightTxs,
+  stuckAfterMs: CONFIG.txStuckAfterMs,
+  feeBumpPercent: CONFIG.feeBumpPercent,
+  maxFeeBumps: CONFIG.maxFeeBumps,
+  pollIntervalMs: 2000,
+});
 
-  // Parse Solana keypair from array format
-  const secretKeyArray = JSON.parse(CONFIG.solanaPrivateKey);
-  const solanaKeypair = Keypair.fromSecretKey(Uint8Array.from(secretKeyArray));
+const spendGovernor = new SpendGovernor(CONFIG.spendLedgerPath, {
+  hourlyBudgetUsd: CONFIG.x402HourlyBudgetUsd,
+  dailyBudgetUsd: CONFIG.x402DailyBudgetUsd,
+  endpointQuotas: CONFIG.x402EndpointQuotas,
+  degradeAtRatio: CONFIG.x402DegradeAt,
+});
 
-  console.log(`[x402] Solana wallet: ${solanaKeypair.publicKey.toBase58()}`);
+const priceGate = new PriceTriggerGate(CONFIG.priceGatePath, CONFIG.priceRearmBps);
+
+// Last time paid signals were fetched; used to stretch the interval when degraded
+let lastSignalFetchAt = 0;
+
+const signalSource = createSignalSource({
+  kind: CONFIG.signalSource,
+  nansen: {
+    corbitsProxyUrl: CONFIG.corbitsProxyUrl,
+    x402Enabled: CONFIG.x402Enabled,
+    solanaRpcUrl: CONFIG.solanaRpcUrl,
+    solanaPrivateKey: CONFIG.solanaPrivateKey,
+    maxRetries: CONFIG.maxRetries,
+    retryDelayMs: CONFIG.retryDelayMs,
+    governor: spendGovernor,
+  },
+  replay: {
+    fixturePath: CONFIG.replayFixturePath,
+    rebaseTimestamps: CONFIG.replayRebaseTimestamps,
+  },
+});
 
-  // Create Solana connection
-  const connection = new Connection(CONFIG.solanaRpcUrl, 'confirmed');
+// ============ Smart Money Data ============
 
-  // Check USDC balance
-  const tokenAccounts = await connection.getParsedTokenAccountsByOwner(
-    solanaKeypair.publicKey,
-    { mint: USDC_MINT }
-  );
+/**
+ * Check if a trade qualifies as a smart money signal at all.
+ * Amount, score and recency thresholds are per strategy (see smart-money-config.ts).
+ */
+function isValidSmartMoneySignal(trade: NansenDexTrade): boolean {
+  // Must have a smart money label (see LABEL_SCORES)
+  const hasRelevantLabel = labelScore(trade) > 0;
 
-  if (tokenAccounts.value.length > 0) {
-    const balance = tokenAccounts.value[0].account.data.parsed.info.tokenAmount.uiAmount;
-    console.log(`[x402] USDC balance: ${balance} USDC`);
+  // Must have a parseable timestamp
+  const hasTimestamp = !Number.isNaN(new Date(trade.block_timestamp).getTime());
 
-    if (balance < 0.01) {
-      throw new Error(`Insufficient USDC balance: ${balance}. Need at least 0.01 USDC.`);
-    }
-  } else {
-    console.warn('[x402] No USDC token account found. Please fund wallet with USDC.');
-  }
+  return hasRelevantLabel && hasTimestamp;
+}
 
-  // Transaction sending function compatible with Faremeter SDK
-  async function sendTransaction(transaction: any) {
-    transaction.sign([solanaKeypair]);
-    const signature = await connection.sendRawTransaction(transaction.serialize());
-    await connection.confirmTransaction(signature, 'confirmed');
-    console.log(`[x402] Payment tx: ${signature}`);
-    return signature;
-  }
+/**
+ * Convert Nansen trade to SmartMoneySignal for contract execution
+ */
+function tradeToSignal(trade: NansenDexTrade): SmartMoneySignal {
+  return {
+    wallet: trade.trader_address as `0x${string}`,
+    amountUsd: usdToUnits(tradeValueUsd(trade)), // Convert to 6 decimals
+    labelScore: labelScore(trade),
+    txHash: trade.transaction_hash as `0x${string}`,
+    timestamp: BigInt(Math.floor(new Date(trade.block_timestamp).getTime() / 1000)),
+  };
+}
 
-  // Create Solana payment handler for x402
-  const paymentHandler = await createPaymentHandler(
-    {
-      network: 'mainnet-beta',
-      publicKey: solanaKeypair.publicKey,
-      sendTransaction: sendTransaction as any,
-    },
-    USDC_MINT,
-    connection
-  );
+// ============ GraphQL Queries ============
 
-  // Wrap fetch with automatic x402 payment handling
-  x402Fetch = wrap(fetch, {
-    handlers: [paymentHandler],
-    payerChooser: async (executers) => executers[0],
-    retryCount: CONFIG.maxRetries,
-    initialRetryDelay: CONFIG.retryDelayMs,
+// The indexer covers several networks and both AutoStackDCA contracts; only
+// strategies on the worker's chain and contract are executable
+function getActiveStrategies() {
+  return envio.query('Strategy', {
+    fields: [
+      'id',
+      'strategyId',
+      'user',
+      'tokenIn',
+      'tokenOut',
+      'amountPerExecution',
+      'frequency',
+      'totalExecutions',
+      'executionsCompleted',
+      'status',
+      'createdAt',
+    ],
+    where: {
+      chainId: { _eq: base.id },
+      contract: { _eq: CONFIG.contractAddress.toLowerCase() },
+      status: { _eq: 'ACTIVE' },
+      // Paused strategies revert on execution until their owner resumes them
+      paused: { _eq: false },
+    },
+    relations: {
+      // Most recent execution only
+      executions: { fields: ['executedAt'], order_by: { executedAt: 'desc' }, limit: 1 },
+    },
   });
+}
 
-  console.log('[x402] Payment client initialized');
-  return x402Fetch;
+type Strategy = Awaited<ReturnType<typeof getActiveStrategies>>[number];
+
+// SmartMoneyDCA strategies that execute on a price target
+function getLimitOrderStrategies() {
+  return envio.query('SmartMoneyStrategy', {
+    fields: [
+      'id',
+      'strategyId',
+      'strategyType',
+      'user',
+      'tokenIn',
+      'tokenOut',
+      'amountPerExecution',
+      'totalBudget',
+      'usedBudget',
+    ],
+    where: {
+      chainId: { _eq: base.id },
+      active: { _eq: true },
+      strategyType: { _in: PRICE_TRIGGERED_STRATEGY_TYPES },
+    },
+  });
 }
 
+type LimitOrderStrategy = Awaited<ReturnType<typeof getLimitOrderStrategies>>[number];
+
+// ============ Strategy Config ============
+
+const smartMoneyConfigCache = new SmartMoneyConfigCache(async (strategyId, blockNumber) => {
+  const config = await publicClient.readContract({
+    address: CONFIG.contractAddress,
+    abi: AUTOSTACK_DCA_V2_ABI,
+    functionName: 'getSmartMoneyConfig',
+    args: [BigInt(strategyId)],
+    blockNumber,
+  }) as StrategySmartMoneyConfig;
+
+  return {
+    minWhaleAmount: config.minWhaleAmount,
+    minLabelScore: config.minLabelScore,
+    signalThreshold: config.signalThreshold,
+    signalWindow: config.signalWindow,
+    enabled: config.enabled,
+  };
+});
+
 /**
- * Makes an x402 authenticated request to Nansen API via Corbits proxy
- * Each request costs ~$0.01 USDC paid via Solana
+ * How many more signals a strategy needs in its current window before it swaps
  */
-async function makeNansenRequest<T>(
-  endpoint: string,
-  params: Record<string, string> = {}
-): Promise<T> {
-  if (!CONFIG.x402Enabled) {
-    throw new Error('x402 is disabled. Set X402_ENABLED=true in .env');
-  }
+async function getSignalsNeeded(
+  strategyId: string,
+  config: StrategySmartMoneyConfig,
+  blockNumber: bigint
+): Promise<number> {
+  const [signalCount, windowStart] = await publicClient.readContract({
+    address: CONFIG.contractAddress,
+    abi: AUTOSTACK_DCA_V2_ABI,
+    functionName: 'getSignalAccumulator',
+    args: [BigInt(strategyId)],
+    blockNumber,
+  }) as [number, bigint, bigint];
+
+  // An expired window is reset on-chain by the next signal
+  const windowExpired = BigInt(Math.floor(Date.now() / 1000)) > windowStart + config.signalWindow;
+  const accumulated = windowExpired ? 0 : signalCount;
+
+  return Math.max(1, config.signalThreshold - accumulated);
+}
 
-  const paywalledFetch = await initializeX402Client();
+// ============ Limit Order Pricing ============
 
-  const url = new URL(`${CONFIG.corbitsProxyUrl}${endpoint}`);
-  Object.entries(params).forEach(([key, value]) => url.searchParams.set(key, value));
+const tokenDecimals = new Map<string, number>();
 
-  console.log(`[Nansen] Requesting: ${endpoint}`);
-  console.log(`[Nansen] Full URL: ${url.toString()}`);
+async function getTokenDecimals(token: `0x${string}`): Promise<number> {
+  const known = getToken(base.id, token)?.decimals ?? tokenDecimals.get(token.toLowerCase());
+  if (known !== undefined) return known;
 
-  try {
-    const response = await paywalledFetch(url.toString(), {
-      method: 'GET',
-      headers: {
-        'Content-Type': 'application/json',
-        'Accept': 'application/json',
-      },
-    });
+  const decimals = await publicClient.readContract({ address: token, abi: ERC20_ABI, functionName: 'decimals' });
+  tokenDecimals.set(token.toLowerCase(), decimals);
+  return decimals;
+}
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      throw new Error(`Nansen API error ${response.status}: ${errorText}`);
-    }
+async function getPriceConfig(strategyId: string): Promise<StrategyPriceConfig> {
+  const config = await publicClient.readContract({
+    address: CONFIG.smartMoneyDcaAddress!,
+    abi: SMART_MONEY_DCA_ABI,
+    functionName: 'getPriceConfig',
+    args: [BigInt(strategyId)],
+  });
 
-    const data = await response.json() as T;
-    console.log(`[Nansen] Request successful (payment processed via x402)`);
-    return data;
-  } catch (error: any) {
-    console.error(`[Nansen] Request failed: ${error.message}`);
-    throw error;
-  }
+  return { targetPrice: config.targetPrice, slippageBps: config.slippageBps, buyBelow: config.buyBelow };
 }
 
-// ============ Nansen API Functions ============
-
 /**
- * Fetch recent smart money DEX trades for a specific token
+ * The best Uniswap route for one execution and what it pays per whole
+ * tokenOut. Sized like SmartMoneyDCA._executeDCA: capped by the remaining
+ * budget, less the protocol fee. Quoting the execution size rather than a unit
+ * amount includes the price impact the swap would actually see.
  */
-async function fetchSmartMoneyTrades(tokenAddress: string, chain = 'base'): Promise<NansenDexTrade[]> {
-  console.log(`[Nansen] Fetching smart money trades for ${tokenAddress.slice(0, 10)}...`);
-
-  const response = await makeNansenRequest<NansenSmartMoneyResponse>(
-    '/v1/smart-money/dex-trades',
-    {
-      token_address: tokenAddress,
-      chain: chain,
-      limit: '50',
-      min_amount_usd: CONFIG.minWhaleAmountUsd.toString(),
-      time_range: '1h',
-      sort_by: 'amount_usd',
-      sort_order: 'desc',
-    }
-  );
+async function quoteExecution(strategy: LimitOrderStrategy): Promise<{ route: Route; price: bigint }> {
+  const tokenIn = strategy.tokenIn as `0x${string}`;
+  const tokenOut = strategy.tokenOut as `0x${string}`;
+  const remaining = BigInt(strategy.totalBudget) - BigInt(strategy.usedBudget);
+  const perExecution = BigInt(strategy.amountPerExecution);
+  const amountIn = perExecution < remaining ? perExecution : remaining;
+
+  const feeBps = await publicClient.readContract({
+    address: CONFIG.smartMoneyDcaAddress!,
+    abi: SMART_MONEY_DCA_ABI,
+    functionName: 'protocolFeeBps',
+  });
+  const amountToSwap = amountIn - (amountIn * feeBps) / 10_000n;
 
-  console.log(`[Nansen] Found ${response.data.length} trades`);
-  return response.data;
+  const route = await findBestRoute(publicClient, { chainId: base.id, tokenIn, tokenOut, amountIn: amountToSwap });
+  if (!route) {
+    throw new Error(`No Uniswap V3 route for ${tokenIn} -> ${tokenOut}`);
+  }
+
+  return { route, price: priceFromQuote(amountToSwap, route.amountOut, await getTokenDecimals(tokenOut)) };
 }
 
+// ============ Strategy Execution ============
+
 /**
- * Fetch smart money token flows
+ * Log a simulated revert and turn it into a failed result. Reverts that need
+ * an operator (permissions, funding) are logged as alerts.
  */
-async function fetchTokenFlows(tokenAddress: string, chain = 'base'): Promise<{
-  netFlow: number;
-  buyVolume: number;
-  sellVolume: number;
-  uniqueBuyers: number;
-  uniqueSellers: number;
-}> {
-  console.log(`[Nansen] Fetching token flows for ${tokenAddress.slice(0, 10)}...`);
-
-  const response = await makeNansenRequest<{
-    net_flow_24h: number;
-    buy_volume_24h: number;
-    sell_volume_24h: number;
-    unique_buyers: number;
-    unique_sellers: number;
-  }>('/v1/smart-money/token-flow', {
-    token_address: tokenAddress,
-    chain: chain,
-    time_range: '24h',
-  });
+function revertResult(strategyId: string, revert: ClassifiedRevert): ExecutionResult {
+  if (revert.action === 'alert') {
+    console.error(`  🚨 ALERT Strategy #${strategyId}: ${revert.kind} (${revert.reason})`);
+  } else {
+    console.log(`  ⏭️ Simulation reverted: ${revert.kind} (${revert.reason}), will ${revert.action}`);
+  }
+  return { success: false, error: revert.reason, revert, skipped: true };
+}
 
-  return {
-    netFlow: response.net_flow_24h,
-    buyVolume: response.buy_volume_24h,
-    sellVolume: response.sell_volume_24h,
-    uniqueBuyers: response.unique_buyers,
-    uniqueSellers: response.unique_sellers,
-  };
+function recordExecution(trigger: 'time' | 'smart_money' | 'price', result: ExecutionResult): void {
+  const outcome = result.success ? 'success' : result.skipped ? 'skipped' : 'failed';
+  metrics.executions.inc({ trigger, result: outcome });
 }
 
 /**
- * Check if a trade qualifies as a valid smart money signal
+ * Whether the indexer says a strategy's next time-based execution is due.
+ * Mirrors the contract's frequency check; canExecuteTimeBased has the final say.
  */
-function isValidSmartMoneySignal(trade: NansenDexTrade): boolean {
-  // Must have relevant label
-  const hasRelevantLabel = trade.labels.some((label) =>
-    CONFIG.smartMoneyLabels.some((smLabel) =>
-      label.toLowerCase().includes(smLabel.toLowerCase())
-    )
-  );
+function isDueForTimeBased(strategy: Strategy, nowSeconds: bigint): boolean {
+  if (BigInt(strategy.executionsCompleted) >= BigInt(strategy.totalExecutions)) return false;
 
-  // Must meet minimum amount threshold
-  const meetsMinAmount = trade.amount_usd >= CONFIG.minWhaleAmountUsd;
+  const lastExecution = strategy.executions[0];
+  if (!lastExecution) return true;
 
-  // Must have good smart money score (0-100)
-  const hasGoodScore = trade.smart_money_score >= 60;
+  return nowSeconds >= BigInt(lastExecution.executedAt) + BigInt(strategy.frequency);
+}
 
-  // Trade must be recent (within last 30 minutes)
-  const tradeTime = new Date(trade.block_timestamp).getTime();
-  const isRecent = Date.now() - tradeTime < 30 * 60 * 1000;
+async function executeTimeBasedStrategy(
+  strategyId: string
+): Promise<ExecutionResult> {
+  console.log(`\n[Execute] Time-Based Strategy #${strategyId}`);
 
-  return hasRelevantLabel && meetsMinAmount && hasGoodScore && isRecent;
-}
+  try {
+    // Confirm on-chain: also rules out smart-money-only strategies
+    const canExec = await publicClient.readContract({
+      address: CONFIG.contractAddress,
+      abi: AUTOSTACK_DCA_V2_ABI,
+      functionName: 'canExecuteTimeBased',
+      args: [BigInt(strategyId)],
+    }) as boolean;
 
-/**
- * Convert Nansen trade to SmartMoneySignal for contract execution
- */
-function tradeToSignal(trade: NansenDexTrade): SmartMoneySignal {
-  return {
-    wallet: trade.wallet_address as `0x${string}`,
-    amountUsd: BigInt(Math.floor(trade.amount_usd * 1e6)), // Convert to 6 decimals
-    labelScore: Math.floor(trade.smart_money_score),
-    txHash: trade.transaction_hash as `0x${string}`,
-    timestamp: BigInt(Math.floor(new Date(trade.block_timestamp).getTime() / 1000)),
-  };
-}
+    if (!canExec) {
+      console.log(`  ⏭️ Not executable: not time-based or not yet due on-chain`);
+      return { success: false, error: 'Not eligible for time-based execution' };
+    }
 
-// ============ GraphQL Queries ============
+    // Simulate the exact call before paying for it
+    const revert = await simulate(() =>
+      publicClient.simulateContract({
+        account,
+        address: CONFIG.contractAddress,
+        abi: SIMULATION_ABI,
+        functionName: 'executeDCA',
+        args: [BigInt(strategyId)],
+      })
+    );
 
-const GET_ACTIVE_STRATEGIES = gql`
-  query GetActiveStrategies {
-    Strategy(
-      where: {
-        status: { _eq: "ACTIVE" }
-      }
-    ) {
-      id
-      strategyId
-      user
-      tokenIn
-      tokenOut
-      amountPerExecution
-      frequency
-      totalExecutions
-      executionsCompleted
-      status
-      createdAt
+    if (revert) {
+      return revertResult(strategyId, revert);
     }
-  }
-`;
 
-// ============ Strategy Execution ============
+    // Sent through the pipeline so other strategies don't wait on this receipt
+    const { hash, receipt } = await txPipeline.submit({
+      label: `executeDCA #${strategyId}`,
+      to: CONFIG.contractAddress,
+      data: encodeFunctionData({
+        abi: AUTOSTACK_DCA_V2_ABI,
+        functionName: 'executeDCA',
+        args: [BigInt(strategyId)],
+      }),
+    });
+
+    console.log(`  📝 Transaction: ${hash}`);
+
+    if (receipt.status === 'reverted') {
+      console.log(`  ❌ Reverted in block ${receipt.blockNumber}`);
+      return { success: false, txHash: hash, error: 'Transaction reverted' };
+    }
+
+    console.log(`  ✅ Confirmed in block ${receipt.blockNumber}`);
+    return { success: true, txHash: hash };
+  } catch (error: any) {
+    // e.g. state changed between simulation and gas estimation
+    const revert = classifyRevert(error);
+    console.error(`  ❌ Error: ${revert.reason}`);
+    return { success: false, error: revert.reason, revert };
+  }
+}
 
 async function executeSmartMoneyStrategy(
   strategyId: string,
   signal: SmartMoneySignal
-): Promise<{ success: boolean; txHash?: string; error?: string }> {
+): Promise<ExecutionResult> {
   console.log(`\n[Execute] Smart Money Strategy #${strategyId}`);
   console.log(`  Whale: ${signal.wallet.slice(0, 10)}...${signal.wallet.slice(-6)}`);
   console.log(`  Score: ${signal.labelScore}`);
   console.log(`  Amount: $${formatUnits(signal.amountUsd, 6)}`);
 
+  let submitted = false;
+
   try {
     // Check if strategy can be executed with smart money
     const canExec = await publicClient.readContract({
       address: CONFIG.contractAddress,
-      abi: SMART_MONEY_DCA_ABI,
+      abi: AUTOSTACK_DCA_V2_ABI,
       functionName: 'canExecuteSmartMoney',
       args: [BigInt(strategyId)],
     }) as boolean;
@@ -394,66 +513,337 @@ async function executeSmartMoneyStrategy(
     // Get current signal accumulator state
     const [signalCount, windowStart, processedCount] = await publicClient.readContract({
       address: CONFIG.contractAddress,
-      abi: SMART_MONEY_DCA_ABI,
+      abi: AUTOSTACK_DCA_V2_ABI,
       functionName: 'getSignalAccumulator',
       args: [BigInt(strategyId)],
     }) as [number, bigint, bigint];
 
     console.log(`  Signal accumulator: ${signalCount} signals in window`);
 
-    // Execute with smart money signal
-    const hash = await walletClient.writeContract({
-      address: CONFIG.contractAddress,
-      abi: SMART_MONEY_DCA_ABI,
-      functionName: 'executeWithSmartMoneySignal',
-      args: [BigInt(strategyId), signal],
+    // Simulate the exact call before paying for it
+    const revert = await simulate(() =>
+      publicClient.simulateContract({
+        account,
+        address: CONFIG.contractAddress,
+        abi: SIMULATION_ABI,
+        functionName: 'executeWithSmartMoneySignal',
+        args: [BigInt(strategyId), signal],
+      })
+    );
+
+    if (revert) {
+      // The contract will never accept this signal for this strategy; don't retry it
+      if (revert.kind === 'invalid_signal') {
+        signalLedger.recordOutcome(strategyId, signal.txHash, { success: false, error: revert.reason });
+      }
+      return revertResult(strategyId, revert);
+    }
+
+    // Record before sending so a crash mid-flight never replays this signal
+    signalLedger.markSubmitted(strategyId, signal.txHash);
+    submitted = true;
+
+    // Execute with smart money signal (resolves once mined, after any fee bumps)
+    const { hash, receipt } = await txPipeline.submit({
+      label: `executeWithSmartMoneySignal #${strategyId}`,
+      to: CONFIG.contractAddress,
+      data: encodeFunctionData({
+        abi: AUTOSTACK_DCA_V2_ABI,
+        functionName: 'executeWithSmartMoneySignal',
+        args: [BigInt(strategyId), signal],
+      }),
     });
 
     console.log(`  📝 Transaction: ${hash}`);
 
-    // Wait for confirmation
-    const receipt = await publicClient.waitForTransactionReceipt({ hash });
+    if (receipt.status === 'reverted') {
+      console.log(`  ❌ Reverted in block ${receipt.blockNumber}`);
+      const result = { success: false, txHash: hash, error: 'Transaction reverted' };
+      signalLedger.recordOutcome(strategyId, signal.txHash, result);
+      return result;
+    }
+
     console.log(`  ✅ Confirmed in block ${receipt.blockNumber}`);
 
+    const result = { success: true, txHash: hash };
+    signalLedger.recordOutcome(strategyId, signal.txHash, result);
+    return result;
+  } catch (error: any) {
+    const revert = classifyRevert(error);
+    console.error(`  ❌ Error: ${revert.reason}`);
+    const result = { success: false, error: revert.reason, revert };
+    if (submitted) {
+      signalLedger.recordOutcome(strategyId, signal.txHash, result);
+    }
+    return result;
+  }
+}
+
+async function executeLimitOrderStrategy(
+  strategyId: string,
+  currentPrice: bigint,
+  swapData: `0x${string}`
+): Promise<ExecutionResult> {
+  console.log(`\n[Execute] Limit Order Strategy #${strategyId} at price ${currentPrice}`);
+
+  const args = [BigInt(strategyId), currentPrice, swapData] as const;
+
+  try {
+    // Simulate the exact call before paying for it
+    const revert = await simulate(() =>
+      publicClient.simulateContract({
+        account,
+        address: CONFIG.smartMoneyDcaAddress!,
+        abi: LIMIT_ORDER_SIMULATION_ABI,
+        functionName: 'executeLimitOrder',
+        args,
+      })
+    );
+
+    if (revert) {
+      return revertResult(strategyId, revert);
+    }
+
+    const { hash, receipt } = await txPipeline.submit({
+      label: `executeLimitOrder #${strategyId}`,
+      to: CONFIG.smartMoneyDcaAddress!,
+      data: encodeFunctionData({
+        abi: SMART_MONEY_DCA_ABI,
+        functionName: 'executeLimitOrder',
+        args,
+      }),
+    });
+
+    console.log(`  📝 Transaction: ${hash}`);
+
+    if (receipt.status === 'reverted') {
+      console.log(`  ❌ Reverted in block ${receipt.blockNumber}`);
+      return { success: false, txHash: hash, error: 'Transaction reverted' };
+    }
+
+    console.log(`  ✅ Confirmed in block ${receipt.blockNumber}`);
     return { success: true, txHash: hash };
   } catch (error: any) {
-    console.error(`  ❌ Error: ${error.message}`);
-    return { success: false, error: error.message };
+    const revert = classifyRevert(error);
+    console.error(`  ❌ Error: ${revert.reason}`);
+    return { success: false, error: revert.reason, revert };
   }
 }
 
 // ============ Main Worker Loop ============
 
-async function runSmartMoneyWorker(): Promise<void> {
+/**
+ * Execute basic/hybrid strategies whose frequency has elapsed
+ */
+async function runTimeBasedDCA(strategies: Strategy[]): Promise<void> {
+  const nowSeconds = BigInt(Math.floor(Date.now() / 1000));
+  const dueStrategies = strategies.filter((strategy) => isDueForTimeBased(strategy, nowSeconds));
+
+  if (dueStrategies.length === 0) {
+    console.log('⏰ No strategies due for time-based execution');
+    return;
+  }
+
+  console.log(`⏰ ${dueStrategies.length} strategies due for time-based execution`);
+
+  // Submitted in parallel; the pipeline assigns nonces and caps in-flight txs
+  await Promise.all(
+    dueStrategies.map(async (strategy) => {
+      const result = await executeTimeBasedStrategy(strategy.strategyId);
+      recordExecution('time', result);
+
+      if (result.success) {
+        console.log(`  ✅ Strategy #${strategy.strategyId} executed: ${result.txHash}`);
+      } else {
+        console.log(`  ⚠️ Strategy #${strategy.strategyId} skipped: ${result.error}`);
+      }
+    })
+  );
+}
+
+async function runWorker(): Promise<void> {
   const timestamp = new Date().toISOString();
   console.log(`\n${'═'.repeat(60)}`);
-  console.log(`[${timestamp}] Smart Money Check`);
+  console.log(`[${timestamp}] Strategy Check`);
   console.log(`${'═'.repeat(60)}`);
 
+  metrics.polls.inc();
+
   try {
     // Fetch all active strategies from indexer
-    const { Strategy: strategies } = await graphqlClient.request<{ Strategy: Strategy[] }>(
-      GET_ACTIVE_STRATEGIES
-    );
+    let strategies: Strategy[];
+    try {
+      strategies = await getActiveStrategies();
+      workerState.indexerReachable = true;
+    } catch (error) {
+      workerState.indexerReachable = false;
+      throw error;
+    } finally {
+      metrics.indexerUp.set(workerState.indexerReachable ? 1 : 0);
+    }
 
     if (!strategies || strategies.length === 0) {
       console.log('📭 No active strategies found');
+    } else {
+      console.log(`📊 Found ${strategies.length} active strategies`);
+
+      await runTimeBasedDCA(strategies);
+      await runSmartMoneyWorker(strategies);
+    }
+
+    await runLimitOrders();
+  } catch (error: any) {
+    metrics.pollErrors.inc();
+    console.error('❌ Worker error:', error.message);
+
+    if (error.message?.includes('ECONNREFUSED')) {
+      console.error('🔌 Connection refused. Is the Envio indexer running?');
+    }
+  } finally {
+    workerState.lastPollAt = Date.now();
+    metrics.lastPoll.set(Math.floor(workerState.lastPollAt / 1000));
+  }
+}
+
+/**
+ * Fill SmartMoneyDCA limit orders whose target the current Uniswap price has
+ * reached. Each order fires once per crossing (see price-watcher.ts).
+ */
+async function runLimitOrders(): Promise<void> {
+  if (!CONFIG.smartMoneyDcaAddress) return;
+
+  const strategies = await getLimitOrderStrategies();
+  priceGate.retain(strategies.map((strategy) => strategy.strategyId));
+
+  if (strategies.length === 0) {
+    console.log('🎯 No limit orders to watch');
+    return;
+  }
+
+  console.log(`🎯 Watching ${strategies.length} limit orders`);
+
+  await Promise.all(
+    strategies.map(async (strategy) => {
+      const { strategyId } = strategy;
+
+      try {
+        const [config, { route, price }] = await Promise.all([getPriceConfig(strategyId), quoteExecution(strategy)]);
+        if (!priceGate.shouldFire(strategyId, price, config)) {
+          return;
+        }
+
+        // SwapRouter02 call paying the user, bounded by the order's own slippage
+        const swapData = encodeSwapCalldata(
+          route,
+          strategy.user as `0x${string}`,
+          minimumAmountOut(route.amountOut, config.slippageBps)
+        );
+
+        // Held until the price re-arms; a failure releases it for the next poll
+        priceGate.markFired(strategyId, config);
+        const result = await executeLimitOrderStrategy(strategyId, price, swapData);
+        recordExecution('price', result);
+
+        if (result.success) {
+          console.log(`  ✅ Strategy #${strategyId} filled at ${price} (target ${config.targetPrice}): ${result.txHash}`);
+        } else {
+          priceGate.release(strategyId);
+          console.log(`  ⚠️ Strategy #${strategyId} skipped: ${result.error}`);
+        }
+      } catch (error: any) {
+        console.error(`  ❌ Price check failed for #${strategyId}: ${error.message}`);
+      }
+    })
+  );
+}
+
+async function runSmartMoneyWorker(strategies: Strategy[]): Promise<void> {
+  try {
+    // Load each strategy's on-chain smart money config as of this block
+    const blockNumber = await publicClient.getBlockNumber();
+    const configured = await Promise.all(
+      strategies.map(async (strategy) => {
+        try {
+          const config = await smartMoneyConfigCache.get(strategy.strategyId, blockNumber);
+          return { strategy, config };
+        } catch (error: any) {
+          console.error(`  ❌ Config read failed for #${strategy.strategyId}: ${error.message}`);
+          return null;
+        }
+      })
+    );
+
+    // Basic strategies have smart money disabled and only run through runTimeBasedDCA
+    const smartMoneyStrategies = configured.filter(
+      (entry): entry is { strategy: Strategy; config: StrategySmartMoneyConfig } =>
+        entry !== null && entry.config.enabled
+    );
+
+    if (smartMoneyStrategies.length === 0) {
+      console.log('📭 No smart money strategies enabled');
       return;
     }
 
-    console.log(`📊 Found ${strategies.length} active strategies`);
+    // Get unique tokens being tracked, most-followed first
+    const strategiesPerToken = new Map<string, number>();
+    for (const { strategy } of smartMoneyStrategies) {
+      const token = strategy.tokenOut.toLowerCase();
+      strategiesPerToken.set(token, (strategiesPerToken.get(token) ?? 0) + 1);
+    }
+    let trackedTokens = [...strategiesPerToken.keys()].sort(
+      (a, b) => strategiesPerToken.get(b)! - strategiesPerToken.get(a)!
+    );
+
+    // Each paid fetch costs USDC: back off as the budget runs out
+    if (signalSource.costPerRequestUsd > 0) {
+      const budget = spendGovernor.status();
+      metrics.x402BudgetRemaining.set(budget.hourlyBudgetUsd - budget.spentLastHourUsd, { window: 'hour' });
+      metrics.x402BudgetRemaining.set(budget.dailyBudgetUsd - budget.spentLastDayUsd, { window: 'day' });
+
+      if (budget.mode === 'exhausted') {
+        console.log(`💸 x402 budget exhausted ($${budget.spentLastHourUsd.toFixed(2)}/h, $${budget.spentLastDayUsd.toFixed(2)}/day), skipping signal fetch`);
+        return;
+      }
+
+      if (budget.mode === 'degraded') {
+        const degradedIntervalMs = CONFIG.pollInterval * CONFIG.degradedPollMultiplier * 1000;
+        if (Date.now() - lastSignalFetchAt < degradedIntervalMs) {
+          console.log(`💸 x402 budget degraded, next signal fetch in ${Math.ceil((lastSignalFetchAt + degradedIntervalMs - Date.now()) / 1000)}s`);
+          return;
+        }
+        trackedTokens = trackedTokens.slice(0, CONFIG.degradedMaxTokens);
+        console.log(`💸 x402 budget degraded: fetching ${trackedTokens.length} most-followed tokens`);
+      }
+
+      lastSignalFetchAt = Date.now();
+    }
 
-    // Get unique tokens being tracked
-    const trackedTokens = [...new Set(strategies.map((s) => s.tokenOut.toLowerCase()))];
     console.log(`🎯 Tracking ${trackedTokens.length} tokens for smart money activity`);
 
     // Process each tracked token
     for (const tokenOut of trackedTokens) {
       console.log(`\n[Token] ${tokenOut}`);
 
+      // Find strategies interested in this token
+      const matchingStrategies = smartMoneyStrategies.filter(
+        ({ strategy }) => strategy.tokenOut.toLowerCase() === tokenOut
+      );
+
       try {
-        // Fetch smart money trades via x402 Nansen API
-        const trades = await fetchSmartMoneyTrades(tokenOut);
+        // Query wide enough to satisfy the loosest strategy on this token
+        const minAmountUsd = Math.min(
+          ...matchingStrategies.map(({ config }) => Number(config.minWhaleAmount) / 1e6)
+        );
+        const maxWindow = Math.max(...matchingStrategies.map(({ config }) => Number(config.signalWindow)));
+
+        // Fetch smart money trades (x402 Nansen API, or recorded fixtures in replay mode)
+        const trades = await signalSource.fetchTrades({
+          chain: 'base',
+          limit: 50,
+          tokenAddress: tokenOut,
+          minAmountUsd,
+          timeRange: maxWindow > 3600 ? '24h' : '1h',
+        });
 
         // Filter for valid signals
         const validSignals = trades.filter(isValidSmartMoneySignal);
@@ -463,58 +853,82 @@ async function runSmartMoneyWorker(): Promise<void> {
           continue;
         }
 
+        metrics.signalsSeen.inc({}, validSignals.length);
         console.log(`  🐋 Found ${validSignals.length} smart money signals!`);
-
-        // Log top signal details
-        const topSignal = validSignals[0];
-        console.log(`  Top signal: ${topSignal.wallet_address.slice(0, 10)}...`);
-        console.log(`    Labels: ${topSignal.labels.join(', ')}`);
-        console.log(`    Amount: $${topSignal.amount_usd.toLocaleString()}`);
-        console.log(`    Score: ${topSignal.smart_money_score}`);
-
-        // Find strategies interested in this token
-        const matchingStrategies = strategies.filter(
-          (s) => s.tokenOut.toLowerCase() === tokenOut
-        );
-
         console.log(`  📋 ${matchingStrategies.length} strategies targeting this token`);
 
-        // Execute matching strategies with the smart money signal
-        for (const strategy of matchingStrategies) {
-          const signal = tradeToSignal(topSignal);
-          const result = await executeSmartMoneyStrategy(strategy.strategyId, signal);
-
-          if (result.success) {
-            console.log(`  ✅ Strategy #${strategy.strategyId} executed: ${result.txHash}`);
-          } else {
-            console.log(`  ⚠️ Strategy #${strategy.strategyId} skipped: ${result.error}`);
-          }
-        }
+        // Execute each strategy with the fresh trades that meet its own thresholds.
+        // Strategies run in parallel; signals within one strategy stay sequential
+        // so a failure stops the rest of that strategy's batch.
+        await Promise.all(
+          matchingStrategies.map(async ({ strategy, config }) => {
+            const freshTrades = selectTradesForStrategy(validSignals, config).filter(
+              (trade) => !signalLedger.has(strategy.strategyId, trade.transaction_hash)
+            );
+
+            if (freshTrades.length === 0) {
+              console.log(`  ⏭️ Strategy #${strategy.strategyId}: no new signals meet its thresholds`);
+              return;
+            }
+
+            // Submit only as many signals as the strategy's threshold still needs
+            const signalsNeeded = await getSignalsNeeded(strategy.strategyId, config, blockNumber);
+
+            for (const trade of freshTrades.slice(0, signalsNeeded)) {
+              const signal = tradeToSignal(trade);
+              const result = await executeSmartMoneyStrategy(strategy.strategyId, signal);
+              recordExecution('smart_money', result);
+
+              if (result.success) {
+                metrics.signalsAccepted.inc();
+                console.log(`  ✅ Strategy #${strategy.strategyId} executed: ${result.txHash}`);
+              } else {
+                console.log(`  ⚠️ Strategy #${strategy.strategyId} skipped: ${result.error}`);
+                // A rejected signal says nothing about the next one
+                if (result.revert?.kind === 'invalid_signal') continue;
+                break;
+              }
+            }
+          })
+        );
       } catch (error: any) {
+        if (error instanceof BudgetExceededError) {
+          // Every remaining token would hit the same limit
+          console.log(`  💸 ${error.message}, retry in ${error.retryAfterSeconds}s`);
+          break;
+        }
         console.error(`  ❌ Error processing token: ${error.message}`);
       }
     }
   } catch (error: any) {
-    console.error('❌ Worker error:', error.message);
+    console.error('❌ Smart money error:', error.message);
 
     if (error.message?.includes('x402') || error.message?.includes('Payment') || error.message?.includes('USDC')) {
       console.error('💰 x402 payment issue. Check Solana wallet USDC balance.');
       console.error(`   Wallet: Fund with USDC on Solana mainnet`);
-    } else if (error.message?.includes('ECONNREFUSED')) {
-      console.error('🔌 Connection refused. Is the Envio indexer running?');
     }
   }
 }
 
 // ============ Health Check ============
 
-async function checkWorkerHealth(): Promise<void> {
-  console.log('\n🏥 Worker Health Check');
-  console.log('─'.repeat(40));
+interface HealthSnapshot {
+  ethBalance: bigint;
+  solBalance?: number; // SOL
+  usdcBalance?: number; // USDC, unset when there's no token account
+  solanaError?: string;
+  indexerReachable: boolean;
+}
 
+/**
+ * Read wallet balances and indexer reachability, and publish them as metrics
+ */
+async function collectHealth(): Promise<HealthSnapshot> {
   // Check EVM wallet balance (Base Mainnet)
   const ethBalance = await publicClient.getBalance({ address: account.address });
-  console.log(`  ETH Balance (Base): ${formatUnits(ethBalance, 18)} ETH`);
+  metrics.ethBalance.set(Number(formatUnits(ethBalance, 18)));
+
+  const snapshot: HealthSnapshot = { ethBalance, indexerReachable: false };
 
   // Check Solana wallet for x402 payments
   if (CONFIG.solanaPrivateKey) {
@@ -523,8 +937,7 @@ async function checkWorkerHealth(): Promise<void> {
       const solanaKeypair = Keypair.fromSecretKey(Uint8Array.from(secretKeyArray));
       const connection = new Connection(CONFIG.solanaRpcUrl, 'confirmed');
 
-      const solBalance = await connection.getBalance(solanaKeypair.publicKey);
-      console.log(`  SOL Balance (Mainnet): ${(solBalance / 1e9).toFixed(6)} SOL`);
+      snapshot.solBalance = (await connection.getBalance(solanaKeypair.publicKey)) / 1e9;
 
       const tokenAccounts = await connection.getParsedTokenAccountsByOwner(
         solanaKeypair.publicKey,
@@ -532,24 +945,56 @@ async function checkWorkerHealth(): Promise<void> {
       );
 
       if (tokenAccounts.value.length > 0) {
-        const usdcBalance = tokenAccounts.value[0].account.data.parsed.info.tokenAmount.uiAmount;
-        console.log(`  USDC Balance (Solana Mainnet): ${usdcBalance} USDC`);
-
-        const requestsAvailable = Math.floor(usdcBalance / 0.01);
-        console.log(`  Available API requests: ~${requestsAvailable}`);
-      } else {
-        console.warn('  ⚠️ No USDC token account found');
+        snapshot.usdcBalance = tokenAccounts.value[0].account.data.parsed.info.tokenAmount.uiAmount as number;
       }
+      metrics.usdcBalance.set(snapshot.usdcBalance ?? 0);
     } catch (error: any) {
-      console.error(`  ❌ Solana wallet check failed: ${error.message}`);
+      snapshot.solanaError = error.message;
     }
   }
 
   // Check indexer connectivity
   try {
     await graphqlClient.request(gql`query { __typename }`);
-    console.log('  ✅ Envio indexer connected');
+    snapshot.indexerReachable = true;
   } catch (error) {
+    snapshot.indexerReachable = false;
+  }
+  workerState.indexerReachable = snapshot.indexerReachable;
+  metrics.indexerUp.set(snapshot.indexerReachable ? 1 : 0);
+  metrics.inFlightTxs.set(txPipeline.inFlight);
+
+  return snapshot;
+}
+
+async function checkWorkerHealth(): Promise<void> {
+  console.log('\n🏥 Worker Health Check');
+  console.log('─'.repeat(40));
+
+  const health = await collectHealth();
+
+  console.log(`  ETH Balance (Base): ${formatUnits(health.ethBalance, 18)} ETH`);
+
+  if (CONFIG.solanaPrivateKey) {
+    if (health.solanaError) {
+      console.error(`  ❌ Solana wallet check failed: ${health.solanaError}`);
+    } else {
+      console.log(`  SOL Balance (Mainnet): ${health.solBalance?.toFixed(6)} SOL`);
+
+      if (health.usdcBalance !== undefined) {
+        console.log(`  USDC Balance (Solana Mainnet): ${health.usdcBalance} USDC`);
+
+        const requestsAvailable = Math.floor(health.usdcBalance / 0.01);
+        console.log(`  Available API requests: ~${requestsAvailable}`);
+      } else {
+        console.warn('  ⚠️ No USDC token account found');
+      }
+    }
+  }
+
+  if (health.indexerReachable) {
+    console.log('  ✅ Envio indexer connected');
+  } else {
     console.error('  ❌ Envio indexer not reachable');
   }
 
@@ -559,6 +1004,28 @@ async function checkWorkerHealth(): Promise<void> {
   console.log('─'.repeat(40));
 }
 
+/**
+ * Readiness for /readyz: initialized, indexer reachable and the loop not stalled
+ */
+function readiness(): Readiness {
+  const reasons: string[] = [];
+
+  if (!workerState.initialized) {
+    reasons.push('initializing');
+  }
+  if (!workerState.indexerReachable) {
+    reasons.push('indexer unreachable');
+  }
+
+  // Three missed polls means the loop is stuck (e.g. hung RPC call)
+  const stalledAfterMs = CONFIG.pollInterval * 3 * 1000;
+  if (workerState.initialized && Date.now() - workerState.lastPollAt > stalledAfterMs) {
+    reasons.push(`no poll completed in ${Math.floor((Date.now() - workerState.lastPollAt) / 1000)}s`);
+  }
+
+  return { ready: reasons.length === 0, reasons };
+}
+
 // ============ Entry Point ============
 
 async function main(): Promise<void> {
@@ -569,9 +1036,14 @@ async function main(): Promise<void> {
   console.log();
   console.log(`🔑 EVM Worker: ${account.address}`);
   console.log(`📄 Contract: ${CONFIG.contractAddress}`);
+  console.log(`📡 Signal Source: ${signalSource.name}`);
   console.log(`💰 x402 Enabled: ${CONFIG.x402Enabled}`);
+  console.log(`💵 x402 Budget: $${CONFIG.x402HourlyBudgetUsd}/hour, $${CONFIG.x402DailyBudgetUsd}/day`);
   console.log(`⏰ Poll Interval: ${CONFIG.pollInterval}s`);
-  console.log(`💵 Min Whale Amount: $${CONFIG.minWhaleAmountUsd.toLocaleString()}`);
+  console.log(`📒 Signal Ledger: ${CONFIG.signalLedgerPath} (${signalLedger.size} entries)`);
+  console.log(`🚦 Max In-Flight Txs: ${CONFIG.maxInFlightTxs}`);
+  console.log(`🎯 Limit Orders: ${CONFIG.smartMoneyDcaAddress ?? 'disabled (SMART_MONEY_DCA_ADDRESS not set)'}`);
+  console.log(`🩺 Control Server: :${CONFIG.httpPort}`);
   console.log();
 
   // Validate configuration
@@ -585,34 +1057,46 @@ async function main(): Promise<void> {
     process.exit(1);
   }
 
-  if (!CONFIG.x402Enabled) {
-    console.error('❌ x402 is disabled. Set X402_ENABLED=true in .env');
+  // x402 payments are only needed when pulling live data from Nansen
+  const signalSourceError = signalSource.configurationError();
+  if (signalSourceError) {
+    console.error(`❌ ${signalSourceError}`);
     process.exit(1);
   }
 
-  if (!CONFIG.solanaPrivateKey) {
-    console.error('❌ SOLANA_PRIVATE_KEY not set. Required for x402 payments.');
-    process.exit(1);
-  }
+  // Serve /healthz right away; /readyz reports not ready until initialized
+  startControlServer({ port: CONFIG.httpPort, readiness });
 
   // Run health check
   await checkWorkerHealth();
 
-  // Initialize x402 client
-  console.log('\n[x402] Initializing payment client...');
-  await initializeX402Client();
+  // Sync nonces and resume any transactions left in flight by a previous run
+  await txPipeline.init();
+
+  workerState.initialized = true;
+  workerState.lastPollAt = Date.now();
 
   // Run immediately on startup
-  await runSmartMoneyWorker();
+  await runWorker();
 
   // Schedule periodic runs
   const intervalMs = CONFIG.pollInterval * 1000;
-  console.log(`\n📅 Scheduled: Every ${CONFIG.pollInterval} seconds`);
+  console.log(`\n📅 Scheduled: ${CONFIG.pollInterval} seconds after each poll`);
   console.log('🚀 Worker running. Press Ctrl+C to stop.\n');
 
-  setInterval(async () => {
-    await runSmartMoneyWorker();
-  }, intervalMs);
+  // A poll waits for its transactions to be mined, so the next one is only
+  // scheduled once it finishes rather than on a fixed interval
+  const poll = async () => {
+    await runWorker();
+
+    // Balances and indexer status for /metrics; failures must not stop the loop
+    await collectHealth().catch((error: any) => {
+      console.error(`  ❌ Health metrics refresh failed: ${error.message}`);
+    });
+
+    setTimeout(poll, intervalMs);
+  };
+  setTimeout(poll, intervalMs);
 }
 
 main().catch((error) => {
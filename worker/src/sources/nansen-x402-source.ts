@@ -0,0 +1,236 @@
+/**
+ * Nansen x402 Signal Source
+ *
+ * Fetches smart money data from Nansen via the Corbits proxy, paying each
+ * request (~$0.01 USDC) with an x402 micropayment on Solana.
+ *
+ * x402 Payment Flow:
+ * 1. Request Nansen API via Corbits proxy
+ * 2. Receive 402 Payment Required
+ * 3. Automatically pay 0.01 USDC via Solana
+ * 4. Retry and receive data
+ */
+
+import { AsyncLocalStorage } from 'node:async_hooks';
+import { wrap } from '@faremeter/fetch';
+import { createPaymentHandler } from '@faremeter/payment-solana/exact';
+import { Connection, Keypair, PublicKey } from '@solana/web3.js';
+import { metrics } from '../metrics.js';
+import {
+  SignalSourceError,
+  toTokenFlows,
+  type NansenDexTrade,
+  type NansenTokenFlows,
+  type SignalSource,
+  type TokenFlowQuery,
+  type TokenFlows,
+  type TradeQuery,
+} from '../protocol/signal-source.js';
+import type { SpendGovernor } from '../protocol/spend-governor.js';
+
+// Solana USDC mint address
+export const USDC_MINT = new PublicKey('EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v');
+
+// Price of one Nansen request through the Corbits proxy, in USDC
+export const NANSEN_REQUEST_COST_USD = 0.01;
+
+// The paid request a payment belongs to. Carried through the x402 fetch's async
+// context rather than a field, since polls can have requests in flight at once.
+interface PaymentContext {
+  endpoint: string;
+}
+
+export interface NansenX402SourceOptions {
+  corbitsProxyUrl: string;
+  x402Enabled: boolean;
+  solanaRpcUrl: string;
+  solanaPrivateKey?: string;
+  maxRetries: number;
+  retryDelayMs: number;
+  // Enforces x402 budgets/quotas and records each payment signature
+  governor?: SpendGovernor;
+}
+
+export class NansenX402Source implements SignalSource {
+  readonly name = 'nansen' as const;
+  readonly costPerRequestUsd = NANSEN_REQUEST_COST_USD;
+
+  private x402Fetch: typeof fetch | null = null;
+  private readonly paymentContext = new AsyncLocalStorage<PaymentContext>();
+
+  constructor(private readonly options: NansenX402SourceOptions) {}
+
+  configurationError(): string | null {
+    if (!this.options.x402Enabled) {
+      return 'x402 is disabled. Set X402_ENABLED=true in .env (or SIGNAL_SOURCE=replay)';
+    }
+    if (!this.options.solanaPrivateKey) {
+      return 'SOLANA_PRIVATE_KEY not set. Required for x402 payments.';
+    }
+    return null;
+  }
+
+  /**
+   * Initialize x402 payment-enabled fetch client using Faremeter SDK
+   * Handles automatic Solana USDC payments for Nansen API access
+   */
+  private async initializeX402Client(): Promise<typeof fetch> {
+    if (this.x402Fetch) return this.x402Fetch;
+
+    if (!this.options.solanaPrivateKey) {
+      throw new Error('SOLANA_PRIVATE_KEY not set. Required for x402 payments.');
+    }
+
+    // Parse Solana keypair from array format
+    const secretKeyArray = JSON.parse(this.options.solanaPrivateKey);
+    const solanaKeypair = Keypair.fromSecretKey(Uint8Array.from(secretKeyArray));
+
+    console.log(`[x402] Solana wallet: ${solanaKeypair.publicKey.toBase58()}`);
+
+    // Create Solana connection
+    const connection = new Connection(this.options.solanaRpcUrl, 'confirmed');
+
+    // Check USDC balance
+    const tokenAccounts = await connection.getParsedTokenAccountsByOwner(
+      solanaKeypair.publicKey,
+      { mint: USDC_MINT }
+    );
+
+    if (tokenAccounts.value.length > 0) {
+      const balance = tokenAccounts.value[0].account.data.parsed.info.tokenAmount.uiAmount;
+      console.log(`[x402] USDC balance: ${balance} USDC`);
+
+      if (balance < 0.01) {
+        throw new Error(`Insufficient USDC balance: ${balance}. Need at least 0.01 USDC.`);
+      }
+    } else {
+      console.warn('[x402] No USDC token account found. Please fund wallet with USDC.');
+    }
+
+    // Transaction sending function compatible with Faremeter SDK
+    const sendTransaction = async (transaction: any) => {
+      transaction.sign([solanaKeypair]);
+      const signature = await connection.sendRawTransaction(transaction.serialize());
+      await connection.confirmTransaction(signature, 'confirmed');
+      console.log(`[x402] Payment tx: ${signature}`);
+
+      metrics.x402SpendUsd.inc({}, NANSEN_REQUEST_COST_USD);
+      this.options.governor?.recordPayment(
+        this.paymentContext.getStore()?.endpoint ?? 'unknown',
+        NANSEN_REQUEST_COST_USD,
+        signature
+      );
+      return signature;
+    };
+
+    // Create Solana payment handler for x402
+    const paymentHandler = await createPaymentHandler(
+      {
+        network: 'mainnet-beta',
+        publicKey: solanaKeypair.publicKey,
+        sendTransaction: sendTransaction as any,
+      },
+      USDC_MINT,
+      connection
+    );
+
+    // Wrap fetch with automatic x402 payment handling
+    this.x402Fetch = wrap(fetch, {
+      handlers: [paymentHandler],
+      payerChooser: async (executers) => executers[0],
+      retryCount: this.options.maxRetries,
+      initialRetryDelay: this.options.retryDelayMs,
+    });
+
+    console.log('[x402] Payment client initialized');
+    return this.x402Fetch;
+  }
+
+  /**
+   * Makes an x402 authenticated POST to the Nansen API via Corbits proxy
+   * Each request costs ~$0.01 USDC paid via Solana
+   */
+  private async makeNansenRequest<T>(endpoint: string, body: unknown): Promise<T> {
+    if (!this.options.x402Enabled) {
+      throw new Error('x402 is disabled. Set X402_ENABLED=true in .env');
+    }
+
+    // Refuse before paying if this would exceed the budget or endpoint quota
+    this.options.governor?.assertCanSpend(endpoint, NANSEN_REQUEST_COST_USD);
+
+    const paywalledFetch = await this.initializeX402Client();
+
+    const url = `${this.options.corbitsProxyUrl}${endpoint}`;
+
+    console.log(`[Nansen] Requesting: ${endpoint}`);
+    console.log(`[Nansen] Full URL: ${url}`);
+
+    try {
+      const response = await this.paymentContext.run({ endpoint }, () =>
+        paywalledFetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            'Accept': 'application/json',
+          },
+          body: JSON.stringify(body),
+        })
+      );
+
+      metrics.x402Requests.inc({ endpoint });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new SignalSourceError(`Nansen API error ${response.status}: ${errorText}`, response.status, errorText);
+      }
+
+      const data = await response.json() as T;
+      console.log(`[Nansen] Request successful (payment processed via x402)`);
+      return data;
+    } catch (error: any) {
+      console.error(`[Nansen] Request failed: ${error.message}`);
+      throw error;
+    }
+  }
+
+  /**
+   * Fetch recent smart money DEX trades for a specific token
+   */
+  async fetchTrades(query: TradeQuery): Promise<NansenDexTrade[]> {
+    console.log(`[Nansen] Fetching smart money trades for ${query.tokenAddress?.slice(0, 10) ?? 'all tokens'}...`);
+
+    const response = await this.makeNansenRequest<{ data?: NansenDexTrade[] }>('/api/v1/smart-money/dex-trades', {
+      chains: [query.chain],
+      pagination: {
+        page: 1,
+        per_page: query.limit,
+      },
+      filters: {
+        trade_value_usd: { min: query.minAmountUsd },
+        ...(query.tokenAddress && { token_bought_address: query.tokenAddress }),
+      },
+      order_by: [{ field: 'trade_value_usd', direction: 'DESC' }],
+    });
+
+    const trades = response.data ?? [];
+    console.log(`[Nansen] Found ${trades.length} trades`);
+    return trades;
+  }
+
+  /**
+   * Fetch smart money token flows
+   */
+  async fetchTokenFlows(query: TokenFlowQuery): Promise<TokenFlows> {
+    console.log(`[Nansen] Fetching token flows for ${query.tokenAddress.slice(0, 10)}...`);
+
+    const response = await this.makeNansenRequest<NansenTokenFlows>('/api/v1/smart-money/token-flow', {
+      chains: [query.chain],
+      filters: {
+        token_address: query.tokenAddress,
+      },
+      time_range: '24h',
+    });
+
+    return toTokenFlows(response);
+  }
+}
@@ -0,0 +1,399 @@
+/**
+ * Transaction Pipeline
+ *
+ * Local nonce manager for the executor account. Nonces are handed out in
+ * memory so several executions can be in flight at once instead of waiting on
+ * each receipt. Every transaction is watched until mined and re-broadcast with
+ * bumped fees if it sits in the mempool too long. In-flight transactions are
+ * persisted to a JSON file so a restart resumes them instead of colliding with
+ * its own nonces.
+ */
+
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import {
+  createPublicClient,
+  createWalletClient,
+  http,
+  type Account,
+  type Chain,
+  type Hex,
+  type PublicClient,
+  type TransactionReceipt,
+  type Transport,
+  type WalletClient,
+} from 'viem';
+
+// ============ Types ============
+
+export interface TxRequest {
+  to: `0x${string}`;
+  data: Hex;
+  // Shown in logs, e.g. "executeDCA #12"
+  label: string;
+}
+
+export interface TxOutcome {
+  // Hash of the broadcast that was mined (may be a fee-bumped replacement)
+  hash: Hex;
+  receipt: TransactionReceipt;
+}
+
+export interface TxPipelineOptions {
+  account: Account;
+  chain: Chain;
+  rpcUrl: string;
+  pendingTxPath: string;
+  maxInFlight: number;
+  stuckAfterMs: number;
+  feeBumpPercent: number;
+  maxFeeBumps: number;
+  pollIntervalMs: number;
+}
+
+interface PendingTx {
+  nonce: number;
+  label: string;
+  to: `0x${string}`;
+  data: Hex;
+  // bigints are stored as decimal strings so the record round-trips through JSON
+  gas: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  // Every broadcast for this nonce, oldest first
+  hashes: Hex[];
+  bumps: number;
+  lastSentAt: number;
+}
+
+interface PendingTxFile {
+  version: 1;
+  txs: PendingTx[];
+}
+
+// Ceiling for watch()'s backoff while the RPC keeps failing
+const MAX_RPC_BACKOFF_MS = 60_000;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// ============ Pipeline ============
+
+export class TxPipeline {
+  private nextNonce: number | null = null;
+  private readonly pending = new Map<number, PendingTx>();
+
+  // Concurrency limit: slots in use and callers waiting for one
+  private slotsInUse = 0;
+  private readonly waiting: (() => void)[] = [];
+
+  private readonly publicClient: PublicClient<Transport, Chain>;
+  private readonly walletClient: WalletClient<Transport, Chain, Account>;
+
+  constructor(private readonly options: TxPipelineOptions) {
+    // Typed against the generic Chain so chain-specific formatters (e.g. OP
+    // Stack deposit transactions on Base) don't leak into the request types
+    this.publicClient = createPublicClient({
+      chain: options.chain,
+      transport: http(options.rpcUrl),
+    });
+    this.walletClient = createWalletClient({
+      account: options.account,
+      chain: options.chain,
+      transport: http(options.rpcUrl),
+    });
+  }
+
+  get inFlight(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Sync the local nonce with the chain and resume transactions left in flight
+   * by a previous run. Must be called before submit().
+   */
+  async init(): Promise<void> {
+    const address = this.walletClient.account.address;
+    const [confirmed, pendingCount] = await Promise.all([
+      this.publicClient.getTransactionCount({ address, blockTag: 'latest' }),
+      this.publicClient.getTransactionCount({ address, blockTag: 'pending' }),
+    ]);
+
+    // Anything below the confirmed nonce was mined (or replaced) while we were down
+    for (const tx of this.load()) {
+      if (tx.nonce >= confirmed) this.pending.set(tx.nonce, tx);
+    }
+
+    // Nonces in the mempool we have no record of: cancel them with a no-op
+    // self-transfer if they don't confirm, so they can't block our queue
+    for (let nonce = confirmed; nonce < pendingCount; nonce++) {
+      if (!this.pending.has(nonce)) {
+        this.pending.set(nonce, this.cancellation(nonce));
+      }
+    }
+
+    const highestTracked = Math.max(confirmed - 1, ...this.pending.keys());
+    this.nextNonce = Math.max(pendingCount, highestTracked + 1);
+    this.persist();
+
+    console.log(`[TxPipeline] Next nonce ${this.nextNonce}, resuming ${this.pending.size} in-flight transactions`);
+
+    for (const tx of this.pending.values()) {
+      this.watchInBackground(tx);
+    }
+  }
+
+  /**
+   * Send a transaction with the next local nonce and resolve once it is mined.
+   * Gas is estimated before a nonce is taken, so a call that would revert
+   * throws here without leaving a nonce gap.
+   */
+  async submit(request: TxRequest): Promise<TxOutcome> {
+    await this.acquireSlot();
+    try {
+      return await this.send(request);
+    } finally {
+      this.releaseSlot();
+    }
+  }
+
+  private async send(request: TxRequest): Promise<TxOutcome> {
+    if (this.nextNonce === null) {
+      throw new Error('TxPipeline not initialized');
+    }
+
+    const [gas, fees] = await Promise.all([
+      this.publicClient.estimateGas({
+        account: this.walletClient.account,
+        to: request.to,
+        data: request.data,
+      }),
+      this.publicClient.estimateFeesPerGas(),
+    ]);
+
+    const nonce = this.nextNonce++;
+    const tx: PendingTx = {
+      nonce,
+      label: request.label,
+      to: request.to,
+      data: request.data,
+      gas: gas.toString(),
+      maxFeePerGas: fees.maxFeePerGas.toString(),
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+      hashes: [],
+      bumps: 0,
+      lastSentAt: Date.now(),
+    };
+    this.pending.set(nonce, tx);
+    this.persist();
+
+    try {
+      await this.broadcast(tx);
+    } catch (error: any) {
+      if (error.message?.toLowerCase().includes('nonce too low')) {
+        // Something else used this nonce; resync and drop the record
+        this.pending.delete(nonce);
+        this.persist();
+        await this.resyncNonce();
+      } else {
+        // The nonce is ours now; fill it with a no-op so later transactions aren't stuck
+        console.error(`[TxPipeline] Broadcast of ${tx.label} (nonce ${nonce}) failed, cancelling nonce`);
+        const cancel = this.cancellation(nonce);
+        cancel.lastSentAt = 0; // nothing was broadcast, so send it on the first check
+        this.pending.set(nonce, cancel);
+        this.persist();
+        this.watchInBackground(cancel);
+      }
+      throw error;
+    }
+
+    console.log(`[TxPipeline] ${tx.label} sent with nonce ${nonce}: ${tx.hashes[0]}`);
+    return this.watch(tx);
+  }
+
+  private async broadcast(tx: PendingTx): Promise<Hex> {
+    const hash = await this.walletClient.sendTransaction({
+      account: this.walletClient.account,
+      chain: this.walletClient.chain,
+      to: tx.to,
+      data: tx.data,
+      value: 0n,
+      nonce: tx.nonce,
+      gas: BigInt(tx.gas),
+      maxFeePerGas: BigInt(tx.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(tx.maxPriorityFeePerGas),
+    });
+
+    // A re-send at unchanged fees signs to the same hash
+    if (!tx.hashes.includes(hash)) tx.hashes.push(hash);
+    tx.lastSentAt = Date.now();
+    this.persist();
+    return hash;
+  }
+
+  /**
+   * Poll until one of the nonce's broadcasts is mined, bumping fees whenever
+   * the transaction has been pending longer than stuckAfterMs. RPC failures
+   * back off and retry: nothing else watches the nonce if this gives up.
+   */
+  private async watch(tx: PendingTx): Promise<TxOutcome> {
+    const address = this.walletClient.account.address;
+    let rpcFailures = 0;
+
+    while (true) {
+      let confirmed: number;
+      try {
+        // Read the confirmed nonce first: if it has moved past ours, the mined
+        // transaction's receipt is already available below
+        confirmed = await this.publicClient.getTransactionCount({ address, blockTag: 'latest' });
+
+        // Newest broadcast first; it's the one most likely to have been mined
+        for (const hash of [...tx.hashes].reverse()) {
+          const receipt = await this.publicClient.getTransactionReceipt({ hash }).catch(() => null);
+          if (receipt) {
+            this.pending.delete(tx.nonce);
+            this.persist();
+            return { hash, receipt };
+          }
+        }
+
+        if (confirmed <= tx.nonce && Date.now() - tx.lastSentAt >= this.options.stuckAfterMs) {
+          await this.bumpFees(tx);
+        }
+        rpcFailures = 0;
+      } catch (error: any) {
+        rpcFailures++;
+        const backoffMs = Math.min(this.options.pollIntervalMs * 2 ** rpcFailures, MAX_RPC_BACKOFF_MS);
+        console.warn(
+          `[TxPipeline] Checking ${tx.label} (nonce ${tx.nonce}) failed, retrying in ${backoffMs}ms: ${error.shortMessage ?? error.message}`
+        );
+        await sleep(backoffMs);
+        continue;
+      }
+
+      if (confirmed > tx.nonce) {
+        this.pending.delete(tx.nonce);
+        this.persist();
+        throw new Error(`Nonce ${tx.nonce} (${tx.label}) was used by another transaction`);
+      }
+
+      await sleep(this.options.pollIntervalMs);
+    }
+  }
+
+  private watchInBackground(tx: PendingTx): void {
+    this.watch(tx)
+      .then(({ hash }) => console.log(`[TxPipeline] ${tx.label} (nonce ${tx.nonce}) mined: ${hash}`))
+      .catch((error: any) => console.warn(`[TxPipeline] ${error.message}`));
+  }
+
+  /**
+   * Re-broadcast with higher fees. Fees are raised by feeBumpPercent over the
+   * last attempt (nodes require ~10% to accept a replacement) or to the current
+   * market estimate, whichever is higher. Once out of bumps the transaction is
+   * re-sent at its last fees, in case the node dropped it from its mempool.
+   */
+  private async bumpFees(tx: PendingTx): Promise<void> {
+    if (tx.bumps >= this.options.maxFeeBumps) {
+      console.warn(`[TxPipeline] ${tx.label} (nonce ${tx.nonce}) still pending after ${tx.bumps} fee bumps, re-sending`);
+      tx.lastSentAt = Date.now();
+      try {
+        await this.broadcast(tx);
+      } catch (error: any) {
+        // "already known" means the node still has it; keep waiting
+        console.warn(`[TxPipeline] Re-send of ${tx.label} (nonce ${tx.nonce}) rejected: ${error.shortMessage ?? error.message}`);
+        this.persist();
+      }
+      return;
+    }
+
+    const current = await this.publicClient.estimateFeesPerGas();
+    const bump = (previous: string, market: bigint) => {
+      const bumped = (BigInt(previous) * BigInt(100 + this.options.feeBumpPercent)) / 100n;
+      return (bumped > market ? bumped : market).toString();
+    };
+
+    // Keep the raised fees even if the broadcast is rejected, so the next
+    // attempt goes higher (e.g. when replacing a transaction we have no record of)
+    tx.maxFeePerGas = bump(tx.maxFeePerGas, current.maxFeePerGas);
+    tx.maxPriorityFeePerGas = bump(tx.maxPriorityFeePerGas, current.maxPriorityFeePerGas);
+    tx.bumps++;
+    tx.lastSentAt = Date.now();
+
+    try {
+      const hash = await this.broadcast(tx);
+      console.log(`[TxPipeline] ${tx.label} (nonce ${tx.nonce}) fee bump #${tx.bumps}: ${hash}`);
+    } catch (error: any) {
+      // "nonce too low" here means an earlier broadcast was just mined; watch() picks it up
+      console.warn(`[TxPipeline] Fee bump for ${tx.label} (nonce ${tx.nonce}) rejected: ${error.shortMessage ?? error.message}`);
+      this.persist();
+    }
+  }
+
+  /**
+   * A zero-value self-transfer that occupies `nonce` without doing anything
+   */
+  private cancellation(nonce: number): PendingTx {
+    return {
+      nonce,
+      label: 'cancel',
+      to: this.walletClient.account.address,
+      data: '0x',
+      gas: '21000',
+      maxFeePerGas: '0',
+      maxPriorityFeePerGas: '0',
+      hashes: [],
+      bumps: 0,
+      lastSentAt: Date.now(),
+    };
+  }
+
+  private async resyncNonce(): Promise<void> {
+    const pendingCount = await this.publicClient.getTransactionCount({
+      address: this.walletClient.account.address,
+      blockTag: 'pending',
+    });
+    this.nextNonce = Math.max(this.nextNonce ?? 0, pendingCount);
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.slotsInUse < this.options.maxInFlight) {
+      this.slotsInUse++;
+      return;
+    }
+    // The releasing caller hands its slot over directly
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  private releaseSlot(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.slotsInUse--;
+    }
+  }
+
+  private load(): PendingTx[] {
+    if (!existsSync(this.options.pendingTxPath)) return [];
+
+    try {
+      const file = JSON.parse(readFileSync(this.options.pendingTxPath, 'utf8')) as PendingTxFile;
+      return file.txs ?? [];
+    } catch (error: any) {
+      throw new Error(`Failed to read pending transactions ${this.options.pendingTxPath}: ${error.message}`);
+    }
+  }
+
+  private persist(): void {
+    const file: PendingTxFile = {
+      version: 1,
+      txs: [...this.pending.values()],
+    };
+
+    // Write to a temp file and rename so a crash never leaves a truncated file
+    mkdirSync(dirname(this.options.pendingTxPath), { recursive: true });
+    const tmpPath = `${this.options.pendingTxPath}.tmp`;
+    writeFileSync(tmpPath, JSON.stringify(file, null, 2));
+    renameSync(tmpPath, this.options.pendingTxPath);
+  }
+}
@@ -0,0 +1,39 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ContractFunctionRevertedError, encodeErrorResult, parseAbi } from 'viem';
+import { classifyRevert, simulate } from '../src/preflight.js';
+
+// What viem throws when a simulated call reverts with require(..., reason)
+function requireRevert(reason: string): ContractFunctionRevertedError {
+  return new ContractFunctionRevertedError({
+    abi: [],
+    functionName: 'executeDCA',
+    data: encodeErrorResult({
+      abi: parseAbi(['error Error(string)']),
+      errorName: 'Error',
+      args: [reason],
+    }),
+  });
+}
+
+test('skips a paused strategy instead of alerting', async () => {
+  const revert = await simulate(async () => {
+    throw requireRevert('Strategy paused');
+  });
+
+  assert.deepEqual(revert, { kind: 'strategy_inactive', action: 'skip', reason: 'Strategy paused' });
+});
+
+test('classifies require reasons by rule', () => {
+  assert.equal(classifyRevert(requireRevert('Strategy not active')).kind, 'strategy_inactive');
+  assert.equal(classifyRevert(requireRevert('Too early to execute')).kind, 'cooldown');
+  assert.equal(classifyRevert(requireRevert('Duplicate signal')).kind, 'invalid_signal');
+});
+
+test('alerts on reverts it has no rule for', () => {
+  assert.deepEqual(classifyRevert(new Error('socket hang up')), {
+    kind: 'unknown',
+    action: 'alert',
+    reason: 'socket hang up',
+  });
+});
@@ -0,0 +1,47 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { test } from 'node:test';
+import { PriceTriggerGate, type StrategyPriceConfig } from '../src/price-watcher.js';
+
+const REARM_BPS = 100n;
+const buyBelow: StrategyPriceConfig = { targetPrice: 2_000n, slippageBps: 50n, buyBelow: true };
+
+function gatePath(): string {
+  return join(mkdtempSync(join(tmpdir(), 'price-gate-')), 'price-gate.json');
+}
+
+test('fires once per crossing and re-arms past the band', () => {
+  const gate = new PriceTriggerGate(gatePath(), REARM_BPS);
+
+  assert.equal(gate.shouldFire('1', 1_990n, buyBelow), true);
+  gate.markFired('1', buyBelow);
+  assert.equal(gate.shouldFire('1', 1_980n, buyBelow), false);
+  // Back above target, but inside the 1% band
+  assert.equal(gate.shouldFire('1', 2_010n, buyBelow), false);
+  assert.equal(gate.shouldFire('1', 2_030n, buyBelow), false);
+  assert.equal(gate.size, 0);
+  assert.equal(gate.shouldFire('1', 1_990n, buyBelow), true);
+});
+
+test('stays disarmed across a restart', () => {
+  const path = gatePath();
+  new PriceTriggerGate(path, REARM_BPS).markFired('1', buyBelow);
+
+  const restarted = new PriceTriggerGate(path, REARM_BPS);
+  assert.equal(restarted.shouldFire('1', 1_990n, buyBelow), false);
+  // A new target re-arms it
+  assert.equal(restarted.shouldFire('1', 1_990n, { ...buyBelow, targetPrice: 2_100n }), true);
+});
+
+test('persists releases and pruned strategies', () => {
+  const path = gatePath();
+  const gate = new PriceTriggerGate(path, REARM_BPS);
+  gate.markFired('1', buyBelow);
+  gate.markFired('2', buyBelow);
+  gate.release('1');
+  gate.retain(['1']);
+
+  assert.equal(new PriceTriggerGate(path, REARM_BPS).size, 0);
+});
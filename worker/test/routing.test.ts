@@ -0,0 +1,133 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { decodeFunctionData, encodeFunctionResult, multicall3Abi, type Hex } from 'viem';
+import { base } from 'viem/chains';
+import { QUOTER_V2_ABI, SWAP_ROUTER_02_ABI } from '../src/protocol/abis.js';
+import { getDeployment } from '../src/protocol/deployments.js';
+import {
+  encodePath,
+  encodeSwapCalldata,
+  findBestRoute,
+  minimumAmountOut,
+  type QuoteClient,
+  type Route,
+} from '../src/protocol/routing.js';
+import { findToken } from '../src/protocol/tokens.js';
+
+const WETH = findToken(base.id, 'WETH')!.address;
+const USDC = findToken(base.id, 'USDC')!.address;
+const CBETH = findToken(base.id, 'cbETH')!.address;
+
+// Answers aggregate3 the way Multicall3 would, quoting each packed path with
+// `quote` (null makes that call fail)
+function multicallClient(quote: (path: Hex) => bigint | null): QuoteClient & { calls: number } {
+  const client = {
+    calls: 0,
+    async call({ to, data }: { to: `0x${string}`; data: Hex }) {
+      client.calls++;
+      assert.equal(to, getDeployment(base.id)!.multicall3);
+
+      const { args } = decodeFunctionData({ abi: multicall3Abi, data });
+      const results = (args![0] as readonly { target: `0x${string}`; callData: Hex }[]).map(({ target, callData }) => {
+        assert.equal(target, getDeployment(base.id)!.quoterV2);
+        const { args: quoteArgs } = decodeFunctionData({ abi: QUOTER_V2_ABI, data: callData });
+        const amountOut = quote(quoteArgs![0] as Hex);
+        return amountOut === null
+          ? { success: false, returnData: '0x' as Hex }
+          : {
+              success: true,
+              returnData: encodeFunctionResult({
+                abi: QUOTER_V2_ABI,
+                functionName: 'quoteExactInput',
+                result: [amountOut, [], [], 100_000n],
+              }),
+            };
+      });
+      return { data: encodeFunctionResult({ abi: multicall3Abi, functionName: 'aggregate3', result: results }) };
+    },
+  };
+  return client;
+}
+
+const RECIPIENT = '0x1111111111111111111111111111111111111111';
+
+function route(tokens: `0x${string}`[], fees: Route['fees']): Route {
+  return { tokens, fees, path: encodePath(tokens, fees), amountIn: 1_000_000n, amountOut: 500n, gasEstimate: 100_000n };
+}
+
+test('packs a 2-hop path as token, fee, token, fee, token', () => {
+  assert.equal(
+    encodePath([USDC, WETH, CBETH], [500, 3000]),
+    '0x833589fcd6edb6e08f4c7c32d4f71b54bda02913' +
+      '0001f4' +
+      '4200000000000000000000000000000000000006' +
+      '000bb8' +
+      '2ae3f1ec7f1f5012cfeab0185bfc7aa3cf0dec22'
+  );
+});
+
+test('encodes a single hop as exactInputSingle', () => {
+  const { functionName, args } = decodeFunctionData({
+    abi: SWAP_ROUTER_02_ABI,
+    data: encodeSwapCalldata(route([USDC, WETH], [3000]), RECIPIENT, 490n),
+  });
+
+  assert.equal(functionName, 'exactInputSingle');
+  assert.deepEqual(args, [
+    {
+      tokenIn: USDC,
+      tokenOut: WETH,
+      fee: 3000,
+      recipient: RECIPIENT,
+      amountIn: 1_000_000n,
+      amountOutMinimum: 490n,
+      sqrtPriceLimitX96: 0n,
+    },
+  ]);
+});
+
+test('encodes a multi-hop route as exactInput over the packed path', () => {
+  const twoHop = route([USDC, WETH, CBETH], [500, 3000]);
+  const { functionName, args } = decodeFunctionData({
+    abi: SWAP_ROUTER_02_ABI,
+    data: encodeSwapCalldata(twoHop, RECIPIENT, 490n),
+  });
+
+  assert.equal(functionName, 'exactInput');
+  assert.deepEqual(args, [{ path: twoHop.path, recipient: RECIPIENT, amountIn: 1_000_000n, amountOutMinimum: 490n }]);
+});
+
+test('rounds the slippage minimum down', () => {
+  assert.equal(minimumAmountOut(10_000n, 50), 9_950n);
+  // 999 * 0.995 = 994.005
+  assert.equal(minimumAmountOut(999n, 50n), 994n);
+  assert.equal(minimumAmountOut(1n, 1), 0n);
+  assert.equal(minimumAmountOut(1_000n, 0), 1_000n);
+});
+
+test('quotes every candidate route in one multicall and picks the best', async () => {
+  // Only the route through WETH at 0.05% then 0.3% has liquidity
+  const liquid = encodePath([USDC, WETH, CBETH], [500, 3000]);
+  const client = multicallClient((path) => (path === liquid ? 5_000n : null));
+
+  const route = await findBestRoute(client, { chainId: base.id, tokenIn: USDC, tokenOut: CBETH, amountIn: 1_000_000n });
+
+  assert.equal(client.calls, 1);
+  assert.deepEqual(route?.tokens, [USDC, WETH, CBETH]);
+  assert.deepEqual(route?.fees, [500, 3000]);
+  assert.equal(route?.amountOut, 5_000n);
+});
+
+test('returns no route when every quote fails', async () => {
+  const client = multicallClient(() => null);
+  assert.equal(await findBestRoute(client, { chainId: base.id, tokenIn: USDC, tokenOut: WETH, amountIn: 1n }), null);
+});
+
+test('fails the quote when the RPC does', async () => {
+  const client: QuoteClient = {
+    call: async () => {
+      throw new Error('rate limited');
+    },
+  };
+  await assert.rejects(findBestRoute(client, { chainId: base.id, tokenIn: USDC, tokenOut: WETH, amountIn: 1n }), /rate limited/);
+});
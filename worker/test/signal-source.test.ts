@@ -0,0 +1,40 @@
+import assert from 'node:assert/strict';
+import { test } from 'node:test';
+import { ReplaySource } from '../src/protocol/signal-source.js';
+import { labelScore, selectTradesForStrategy, type StrategySmartMoneyConfig } from '../src/smart-money-config.js';
+
+const WETH = '0x4200000000000000000000000000000000000006';
+
+const replay = new ReplaySource({ fixturePath: 'fixtures/nansen-dex-trades.json', rebaseTimestamps: true });
+
+test('replays recorded trades for one token, largest first', async () => {
+  const trades = await replay.fetchTrades({ chain: 'base', limit: 50, minAmountUsd: 10_000, tokenAddress: WETH, timeRange: '1h' });
+
+  assert.ok(trades.length > 0);
+  assert.ok(trades.every((trade) => trade.token_bought_address.toLowerCase() === WETH));
+  assert.deepEqual(
+    trades.map((trade) => trade.trade_value_usd),
+    trades.map((trade) => trade.trade_value_usd).sort((a, b) => b! - a!)
+  );
+  // Rebased, so the newest recorded trade is within the last hour
+  assert.ok(Date.now() - new Date(trades[0].block_timestamp).getTime() < 60 * 60 * 1000);
+});
+
+test('selects replayed trades against a strategy config', async () => {
+  const trades = await replay.fetchTrades({ chain: 'base', limit: 50, minAmountUsd: 0, tokenAddress: WETH });
+  const config: StrategySmartMoneyConfig = {
+    minWhaleAmount: 100_000_000_000n, // $100k
+    minLabelScore: 75,
+    signalThreshold: 1,
+    signalWindow: 3600n,
+    enabled: true,
+  };
+
+  const selected = selectTradesForStrategy(trades, config);
+  assert.deepEqual(
+    selected.map((trade) => trade.trader_address_label),
+    ['Smart Trader']
+  );
+  assert.equal(labelScore(selected[0]), 80);
+  assert.equal(labelScore({ ...selected[0], trader_address_label: 'Token Millionaire' }), 0);
+});
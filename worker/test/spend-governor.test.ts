@@ -0,0 +1,35 @@
+import assert from 'node:assert/strict';
+import { mkdtempSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { test } from 'node:test';
+import { BudgetExceededError, SpendGovernor, type SpendBudget } from '../src/protocol/spend-governor.js';
+
+const budget: SpendBudget = { hourlyBudgetUsd: 0.05, dailyBudgetUsd: 1, endpointQuotas: {}, degradeAtRatio: 0.8 };
+
+function ledgerPath(): string {
+  return join(mkdtempSync(join(tmpdir(), 'x402-spend-')), 'x402-spend.json');
+}
+
+test('governors sharing a ledger see and keep every payment', () => {
+  const path = ledgerPath();
+  const worker = new SpendGovernor(path, budget);
+  const api = new SpendGovernor(path, budget);
+
+  worker.recordPayment('/v1/smart-money/dex-trades', 0.02, 'sig-worker');
+  api.recordPayment('/v1/smart-money/dex-trades', 0.02, 'sig-api');
+
+  assert.equal(worker.status().spentLastHourUsd, 0.04);
+  assert.equal(new SpendGovernor(path, budget).status().spentLastHourUsd, 0.04);
+  assert.throws(() => worker.assertCanSpend('/v1/smart-money/dex-trades', 0.02), BudgetExceededError);
+});
+
+test('separate ledgers keep separate budgets', () => {
+  const worker = new SpendGovernor(ledgerPath(), budget);
+  const api = new SpendGovernor(ledgerPath(), budget);
+
+  worker.recordPayment('/v1/smart-money/dex-trades', 0.04, 'sig-worker');
+
+  assert.equal(api.status().spentLastHourUsd, 0);
+  assert.doesNotThrow(() => api.assertCanSpend('/v1/smart-money/dex-trades', 0.02));
+});
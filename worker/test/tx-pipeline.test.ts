@@ -0,0 +1,151 @@
+import assert from 'node:assert/strict';
+import { createServer, type Server } from 'node:http';
+import { mkdtempSync, writeFileSync } from 'node:fs';
+import type { AddressInfo } from 'node:net';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { after, test } from 'node:test';
+import { foundry } from 'viem/chains';
+import { privateKeyToAccount } from 'viem/accounts';
+import { TxPipeline } from '../src/tx-pipeline.js';
+
+const account = privateKeyToAccount(`0x${'11'.repeat(32)}`);
+const HASH = `0x${'ab'.repeat(32)}`;
+
+const receipt = {
+  transactionHash: HASH,
+  transactionIndex: '0x0',
+  blockHash: `0x${'cd'.repeat(32)}`,
+  blockNumber: '0x10',
+  from: account.address,
+  to: account.address,
+  cumulativeGasUsed: '0x5208',
+  gasUsed: '0x5208',
+  effectiveGasPrice: '0x3b9aca00',
+  contractAddress: null,
+  logs: [],
+  logsBloom: `0x${'00'.repeat(256)}`,
+  status: '0x1',
+  type: '0x2',
+};
+
+// A JSON-RPC endpoint whose handler picks the result per call, or throws to
+// answer with an RPC error
+function rpcServer(handle: (method: string, params: any[]) => unknown): Promise<Server> {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      let reply: object;
+      try {
+        reply = { jsonrpc: '2.0', id, result: handle(method, params) };
+      } catch (error: any) {
+        reply = { jsonrpc: '2.0', id, error: { code: -32000, message: error.message } };
+      }
+      res.setHeader('content-type', 'application/json');
+      res.end(JSON.stringify(reply));
+    });
+  });
+  return new Promise((resolve) => server.listen(0, '127.0.0.1', () => resolve(server)));
+}
+
+async function waitFor(condition: () => boolean, timeoutMs = 5_000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out');
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+}
+
+function pendingTxFile(tx: object): string {
+  const path = join(mkdtempSync(join(tmpdir(), 'tx-pipeline-')), 'pending-txs.json');
+  writeFileSync(
+    path,
+    JSON.stringify({
+      version: 1,
+      txs: [
+        {
+          nonce: 5,
+          label: 'executeDCA #1',
+          to: account.address,
+          data: '0x',
+          gas: '21000',
+          maxFeePerGas: '1000000000',
+          maxPriorityFeePerGas: '1000000',
+          hashes: [HASH],
+          bumps: 0,
+          lastSentAt: Date.now(),
+          ...tx,
+        },
+      ],
+    })
+  );
+  return path;
+}
+
+function pipelineFor(server: Server, pendingTxPath: string, maxFeeBumps = 3): TxPipeline {
+  return new TxPipeline({
+    account,
+    chain: foundry,
+    rpcUrl: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    pendingTxPath,
+    maxInFlight: 1,
+    stuckAfterMs: 60_000,
+    feeBumpPercent: 15,
+    maxFeeBumps,
+    pollIntervalMs: 10,
+  });
+}
+
+const servers: Server[] = [];
+after(() => servers.forEach((server) => server.close()));
+
+test('keeps watching a resumed transaction after an RPC error', async () => {
+  let latestNonceCalls = 0;
+  let failures = 0;
+  const server = await rpcServer((method, params) => {
+    if (method === 'eth_getTransactionCount') {
+      if (params[1] === 'pending') return '0x6';
+      // The first read is init()'s; the second is the watcher's first poll
+      if (++latestNonceCalls === 2) {
+        failures++;
+        throw new Error('header not found');
+      }
+      return '0x5';
+    }
+    if (method === 'eth_getTransactionReceipt') return receipt;
+    throw new Error(`unexpected ${method}`);
+  });
+  servers.push(server);
+
+  const pipeline = pipelineFor(server, pendingTxFile({}));
+  await pipeline.init();
+  assert.equal(pipeline.inFlight, 1);
+
+  await waitFor(() => pipeline.inFlight === 0);
+  assert.equal(failures, 1);
+});
+
+test('re-sends a dropped transaction once out of fee bumps', async () => {
+  const RESENT_HASH = `0x${'ef'.repeat(32)}`;
+  const sent: string[] = [];
+  const server = await rpcServer((method) => {
+    // The node forgot the transaction: nothing pending beyond the confirmed nonce
+    if (method === 'eth_getTransactionCount') return '0x5';
+    if (method === 'eth_chainId') return `0x${foundry.id.toString(16)}`;
+    if (method === 'eth_sendRawTransaction') {
+      sent.push(RESENT_HASH);
+      return RESENT_HASH;
+    }
+    if (method === 'eth_getTransactionReceipt') return sent.length > 0 ? { ...receipt, transactionHash: RESENT_HASH } : null;
+    throw new Error(`unexpected ${method}`);
+  });
+  servers.push(server);
+
+  const pipeline = pipelineFor(server, pendingTxFile({ bumps: 3, lastSentAt: 0 }));
+  await pipeline.init();
+
+  await waitFor(() => pipeline.inFlight === 0);
+  assert.equal(sent.length, 1);
+});